@@ -0,0 +1,135 @@
+import React from 'react';
+import { AnswerKeyQuestion } from '../types';
+import { createAnswerKeyQuestion } from '../utils/answerKeyUtils';
+
+interface AnswerKeyEditorProps {
+    /** Kunci terstruktur hasil ekstraksi. `null` berarti belum diekstrak (kunci mentah dikirim apa adanya). */
+    answerKey: AnswerKeyQuestion[] | null;
+    onChange: (answerKey: AnswerKeyQuestion[] | null) => void;
+    /** Menjalankan langkah "Ekstrak Kunci" melalui provider aktif. */
+    onExtract: () => void;
+    isExtracting: boolean;
+    /** Tombol ekstrak dinonaktifkan jika kunci jawaban belum diisi. */
+    canExtract: boolean;
+    /** Prefix id elemen agar unik jika editor dipakai di dua mode sekaligus. */
+    idPrefix: string;
+}
+
+/**
+ * @component AnswerKeyEditor
+ * @description Langkah "Ekstrak Kunci" (opsional) sebelum batch dimulai.
+ * Kunci jawaban mentah diurai SEKALI menjadi daftar soal (nomor, teks soal, kunci, poin maksimal),
+ * ditinjau/diedit dosen, lalu dipakai ulang untuk seluruh mahasiswa sehingga pemetaan soal konsisten.
+ */
+const AnswerKeyEditor: React.FC<AnswerKeyEditorProps> = ({ answerKey, onChange, onExtract, isExtracting, canExtract, idPrefix }) => {
+    if (!answerKey) {
+        return (
+            <div className="flex items-center gap-3 pt-3">
+                <button
+                    id={`${idPrefix}-extract-key`}
+                    onClick={onExtract}
+                    disabled={!canExtract || isExtracting}
+                    className="text-xs font-medium text-teal-700 dark:text-teal-300 bg-teal-100 dark:bg-teal-900/40 px-3 py-1.5 rounded hover:bg-teal-200 dark:hover:bg-teal-900/60 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isExtracting ? 'Mengekstrak Kunci...' : '🔑 Ekstrak Kunci'}
+                </button>
+                <span className="text-[11px] text-gray-500 dark:text-gray-400">
+                    Opsional: urai kunci menjadi daftar soal untuk ditinjau sebelum batch dimulai.
+                </span>
+            </div>
+        );
+    }
+
+    const updateQuestion = (qIdx: number, patch: Partial<AnswerKeyQuestion>) => {
+        onChange(answerKey.map((q, i) => (i === qIdx ? { ...q, ...patch } : q)));
+    };
+
+    const removeQuestion = (qIdx: number) => {
+        const questions = answerKey.filter((_, i) => i !== qIdx);
+        onChange(questions.length > 0 ? questions : null);
+    };
+
+    const inputClass = "p-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <div className="mt-3 rounded-lg border border-teal-200 dark:border-teal-800 bg-teal-50/40 dark:bg-teal-900/10 p-3 animate-fade-in">
+            <div className="flex justify-between items-center mb-3">
+                <span className="text-sm font-bold text-teal-800 dark:text-teal-300">
+                    🔑 Kunci Terstruktur <span className="font-normal text-xs">({answerKey.length} soal)</span>
+                </span>
+                <div className="flex gap-3">
+                    <button
+                        onClick={onExtract}
+                        disabled={isExtracting}
+                        className="text-xs font-medium text-teal-700 dark:text-teal-300 hover:underline disabled:opacity-50"
+                    >
+                        {isExtracting ? 'Mengekstrak...' : 'Ekstrak Ulang'}
+                    </button>
+                    <button
+                        onClick={() => onChange(null)}
+                        className="text-xs font-medium text-red-600 dark:text-red-300 hover:underline"
+                    >
+                        Buang
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {answerKey.map((question, qIdx) => (
+                    <div key={qIdx} className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-2 space-y-1.5">
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold text-gray-600 dark:text-gray-300">Soal</span>
+                            <input
+                                type="text"
+                                value={question.questionNumber}
+                                onChange={(e) => updateQuestion(qIdx, { questionNumber: e.target.value })}
+                                className={`${inputClass} w-14`}
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                value={question.maxPoints}
+                                onChange={(e) => updateQuestion(qIdx, { maxPoints: Math.max(0, Number(e.target.value) || 0) })}
+                                className={`${inputClass} w-16`}
+                            />
+                            <span className="text-xs text-gray-500 dark:text-gray-400">poin</span>
+                            <button
+                                onClick={() => removeQuestion(qIdx)}
+                                className="ml-auto text-xs text-red-500 hover:text-red-700 font-bold px-1"
+                                title="Hapus soal"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                        <input
+                            type="text"
+                            value={question.questionText}
+                            onChange={(e) => updateQuestion(qIdx, { questionText: e.target.value })}
+                            className={`${inputClass} w-full`}
+                            placeholder="Teks soal"
+                        />
+                        <textarea
+                            rows={2}
+                            value={question.modelAnswer}
+                            onChange={(e) => updateQuestion(qIdx, { modelAnswer: e.target.value })}
+                            className={`${inputClass} w-full resize-y`}
+                            placeholder="Kunci jawaban"
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={() => onChange([...answerKey, createAnswerKeyQuestion(answerKey)])}
+                className="mt-3 w-full text-xs font-medium text-teal-700 dark:text-teal-300 bg-teal-100 dark:bg-teal-900/40 px-3 py-1.5 rounded hover:bg-teal-200 dark:hover:bg-teal-900/60 transition-colors"
+            >
+                + Tambah Soal
+            </button>
+            <p className="mt-2 text-[10px] text-gray-500 dark:text-gray-400">
+                Poin 0 = soal dinilai pada skala 0-100. Jika rubrik aktif, poin dari rubrik yang dipakai.
+            </p>
+        </div>
+    );
+};
+
+export default AnswerKeyEditor;
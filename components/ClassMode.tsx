@@ -1,13 +1,36 @@
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { fileToBase64, processUploadedFiles, processClassFiles } from '../utils/fileUtils';
-import { gradeAnswer } from '../services/geminiService';
-import { GradeResult, StudentSubmission } from '../types';
+import { disambiguateSubmissionNames, exceedsUploadLimit, fileToBase64, findDuplicateSubmissionNames, processUploadedFiles, processClassFiles } from '../utils/fileUtils';
+import { gradeAnswer, gradeTranscript, getActiveModel, extractAnswerKey, openAnswerKeyCache, writeStudentFeedback, isBatchGradingSupported, isBatchJobCollectable, submitBatchGrading, collectBatchGrading, cancelBatchGrading } from '../services/geminiService';
+import { GRADING_ERROR_INFO, createGradingError, describeGradingFailure } from '../services/gradingErrors';
+import { AnswerKeyQuestion, FeedbackDetail, GradeResult, GradingErrorKind, GradingPreset, Rubric, SourcePage, StudentSubmission, TranscriptPage } from '../types';
 import { UploadIcon, PaperclipIcon, DownloadIcon, XIcon, CheckIcon, ClipboardIcon } from './icons';
-import { extractTextFromOfficeFile } from '../utils/officeFileUtils';
+import { EXTRACTABLE_FILE_ACCEPT, extractDocumentParts, isTextExtractableFile } from '../utils/officeFileUtils';
+import { MAX_PDF_FILE_SIZE_BYTES, PageTagger, createPageTagger, findSourcePage } from '../utils/pdfUtils';
+import { MAX_RAW_IMAGE_SIZE_BYTES } from '../utils/imageUtils';
 import { generateCsv, downloadCsv } from '../utils/csvUtils';
 import AILoader from './AILoader';
+import RubricEditor from './RubricEditor';
+import AnswerKeyEditor from './AnswerKeyEditor';
+import TranscriptEditor from './TranscriptEditor';
+import StudentFeedbackLetter from './StudentFeedbackLetter';
+import LiveFeedbackList from './LiveFeedbackList';
+import IntegrityFlagList from './IntegrityFlagList';
+import ProvenanceDetails from './ProvenanceDetails';
+import PdfPageViewer from './PdfPageViewer';
+import FileSizeBadge from './FileSizeBadge';
+import SimilarityReportModal from './SimilarityReportModal';
+import { MODEL_PRICES } from './SettingsModal';
+import { BatchEstimate, calculateCostUsd, estimateBatch, formatDuration, formatUsd } from '../services/costEstimator';
+import { CONSENSUS_SPREAD_THRESHOLD } from '../utils/consensusUtils';
+import { LEGIBILITY_LABELS, REVIEW_CONFIDENCE_THRESHOLD, getReviewQueue } from '../utils/reviewUtils';
+import { INTEGRITY_FLAG_LABELS, formatIntegrityFlag, hasIntegrityFlags } from '../utils/integrityUtils';
+import { computeSimilarityReport } from '../utils/similarityUtils';
+import { ContentPart, LecturerAnswerPayload, getSelectedProviderId } from '../services/gradingProvider';
+import { AnswerKeyCache } from '../services/contextCache';
+import { PendingBatchJob, clearPendingBatchJob, loadPendingBatchJob } from '../services/batchJobs';
+import { getActivePreset, getPreset, getPresets } from '../services/promptPresets';
 
 // SAFETY TIMEOUT: 15 Menit. 
 const SAFETY_TIMEOUT_MS = 15 * 60 * 1000; 
@@ -19,6 +42,31 @@ const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 // Default Concurrency Limit (Safe for Free Tier + Gemini 3 Pro)
 const DEFAULT_CONCURRENCY = 2;
 
+// Kunci localStorage untuk batas anggaran batch (USD). Kosong = tanpa batas.
+const BUDGET_STORAGE_KEY = 'USER_BUDGET_CAP_USD';
+
+// Polling batch job: kegagalan jenis ini tidak pulih dengan diulang (API Key salah, respons server tidak terbaca, diblokir).
+const FATAL_BATCH_POLL_ERRORS: GradingErrorKind[] = ['auth', 'parse', 'safety', 'cancelled'];
+// Jeda polling terpanjang setelah kegagalan sementara beruntun (jaringan, kuota, timeout).
+const MAX_BATCH_POLL_BACKOFF_MS = 10 * 60 * 1000;
+
+// Konkurensi dari Pengaturan. Fallback ke DEFAULT_CONCURRENCY (2) jika user belum setting.
+const getConcurrencyLimit = (): number => typeof window !== 'undefined'
+    ? parseInt(localStorage.getItem('USER_CONCURRENCY_LIMIT') || String(DEFAULT_CONCURRENCY), 10)
+    : DEFAULT_CONCURRENCY;
+
+/**
+ * Baris GAGAL di tabel hasil beserta jenis kegagalannya (solusi ditampilkan dari GRADING_ERROR_INFO).
+ */
+const createFailedResult = (fileName: string, errorKind: GradingErrorKind | undefined, message: string): GradeResult => ({
+    fileName,
+    grade: 0,
+    detailedFeedback: [],
+    improvements: `GAGAL: ${message}. Silakan nilai file ini secara manual.`,
+    studentText: errorKind ? `Proses gagal (${GRADING_ERROR_INFO[errorKind].title}).` : "Proses dibatalkan atau waktu habis.",
+    errorKind,
+});
+
 interface ClassModeProps {
     /** Callback untuk memberi tahu parent (Dashboard) jika ada data aktif (file/hasil) */
     onDataDirty?: (isDirty: boolean) => void;
@@ -35,6 +83,10 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
     const [lecturerAnswerText, setLecturerAnswerText] = useState<string>('');
     const [answerKeyInputMethod, setAnswerKeyInputMethod] = useState<'file' | 'text'>('file');
     const [keepLecturerAnswer, setKeepLecturerAnswer] = useState<boolean>(true);
+    const [rubric, setRubric] = useState<Rubric | null>(null);
+    // Kunci terstruktur hasil "Ekstrak Kunci" (ditinjau dosen), dipakai ulang untuk seluruh mahasiswa.
+    const [answerKey, setAnswerKey] = useState<AnswerKeyQuestion[] | null>(null);
+    const [isExtractingKey, setIsExtractingKey] = useState<boolean>(false);
 
     // Hasil & Status Pemrosesan
     const [results, setResults] = useState<GradeResult[]>([]);
@@ -46,12 +98,30 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
     // Modal & UI State
     const [selectedResult, setSelectedResult] = useState<GradeResult | null>(null);
     const [showOcr, setShowOcr] = useState(false);
+    // Filter tabel: hanya mahasiswa dengan temuan integritas (upaya manipulasi penilai).
+    const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+    const [showSimilarity, setShowSimilarity] = useState(false);
+    // Halaman PDF sumber yang sedang dibuka dari kutipan halaman di panel detail.
+    const [viewerPage, setViewerPage] = useState<SourcePage | null>(null);
+    // File asli per mahasiswa (kunci: nama submission) yang sudah dikirim untuk dinilai. Antrean `submissions`
+    // dikosongkan setelah batch selesai, jadi penampil halaman membaca file dari sini; dihapus hanya saat reset.
+    const gradedFilesRef = useRef<Map<string, File[]>>(new Map());
     const [showPreview, setShowPreview] = useState<boolean>(false); // State untuk Manifest Preview
     const [expandedPreviews, setExpandedPreviews] = useState<Set<string>>(new Set()); // State untuk row yang di-expand di preview
     
     // Deteksi Duplikasi
     const [duplicateNames, setDuplicateNames] = useState<string[]>([]);
     const [showDuplicateWarning, setShowDuplicateWarning] = useState<boolean>(false);
+    // Penilaian dilanjutkan setelah nama ganda diberi nomor (pada render berikutnya, saat antrean sudah baru).
+    const [startAfterRename, setStartAfterRename] = useState<boolean>(false);
+
+    // State Estimasi Biaya (Pre-flight)
+    const [showEstimate, setShowEstimate] = useState<boolean>(false);
+    const [estimate, setEstimate] = useState<BatchEstimate | null>(null);
+    const [estimateProgress, setEstimateProgress] = useState({ done: 0, total: 0 });
+    const [budgetCap, setBudgetCap] = useState<string>(() => typeof window !== 'undefined' ? localStorage.getItem(BUDGET_STORAGE_KEY) || '' : '');
+    // Penanda estimasi terbaru: hasil estimasi lama (modal sudah ditutup/dibuka ulang) diabaikan.
+    const estimateRunRef = useRef(0);
 
     // Konfigurasi Sorting Tabel
     const [sortConfig, setSortConfig] = useState<{ key: 'fileName' | 'grade'; direction: 'asc' | 'desc' }>({ 
@@ -61,9 +131,23 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
 
     // Manajemen Pembatalan (Cancellation)
     const [activeJobCancellers, setActiveJobCancellers] = useState<Record<string, () => void>>({});
+    // Preset prompt untuk batch ini (default: preset aktif di Pengaturan)
+    const [presetOptions, setPresetOptions] = useState<GradingPreset[]>(getPresets);
+    const [batchPresetId, setBatchPresetId] = useState<string>(() => getActivePreset().id);
+
+    // Hasil sementara per soal (streaming) untuk setiap pekerjaan aktif, dengan kunci nama submission.
+    const [liveFeedback, setLiveFeedback] = useState<Record<string, FeedbackDetail[]>>({});
     const abortBatchRef = useRef<boolean>(false);
 
-    const acceptedFileTypes = "image/*,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.presentationml.presentation,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/zip,application/x-zip-compressed";
+    // Mode batch job asinkron: seluruh kelas dikirim sebagai job server, hasil diambil dengan polling
+    // (lihat services/batchJobs.ts). Job tersimpan di localStorage sehingga polling berlanjut setelah halaman dibuka ulang.
+    const [useBatchJob, setUseBatchJob] = useState<boolean>(false);
+    const [pendingBatch, setPendingBatch] = useState<PendingBatchJob | null>(loadPendingBatchJob);
+    // Nama mahasiswa di batch job yang masih berjalan: hasilnya nanti digabung ke tabel per nama.
+    const pendingBatchNames = useMemo(() => pendingBatch ? pendingBatch.jobs.flatMap(job => job.keys) : [], [pendingBatch]);
+    const [batchStatus, setBatchStatus] = useState<string>('');
+
+    const acceptedFileTypes = `image/*,application/pdf,${EXTRACTABLE_FILE_ACCEPT},application/zip,application/x-zip-compressed`;
     
     // Effect: Melaporkan "Dirty State" ke parent
     useEffect(() => {
@@ -85,6 +169,61 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
         return () => clearInterval(timer);
     }, [isLoading]);
 
+    // Effect: Polling batch job hingga semua job selesai, lalu hasil dipetakan kembali ke nama mahasiswa.
+    // Kegagalan yang tidak akan pulih dengan sendirinya menghentikan polling ("Periksa Sekarang" memulainya lagi);
+    // kegagalan sementara (jaringan, kuota) dicoba lagi dengan jeda yang makin panjang.
+    useEffect(() => {
+        if (!pendingBatch) return;
+        if (!isBatchJobCollectable(pendingBatch)) {
+            setBatchStatus('Provider yang membuat batch job ini tidak mendukung mode batch job. Batalkan job ini lalu nilai ulang mahasiswanya.');
+            return;
+        }
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout>;
+        let failures = 0;
+
+        const poll = async () => {
+            setBatchStatus('Memeriksa status job...');
+            const outcome = await collectBatchGrading(pendingBatch);
+            if (stopped) return;
+            if (outcome.ok === false) {
+                if (FATAL_BATCH_POLL_ERRORS.includes(outcome.kind)) {
+                    setBatchStatus(`Pemeriksaan otomatis dihentikan. ${describeGradingFailure(outcome)} Klik "Periksa Sekarang" setelah masalahnya diperbaiki.`);
+                    return;
+                }
+                failures++;
+                const delayMs = Math.min(pendingBatch.pollIntervalMs * Math.pow(2, failures), MAX_BATCH_POLL_BACKOFF_MS);
+                setBatchStatus(`Gagal memeriksa status: ${describeGradingFailure(outcome)} Dicoba lagi otomatis dalam ${Math.ceil(delayMs / 1000)} detik.`);
+                timer = setTimeout(poll, delayMs);
+                return;
+            }
+            failures = 0;
+            if (outcome.done === false) {
+                setBatchStatus(`${outcome.finishedJobs}/${outcome.totalJobs} job selesai. Diperiksa lagi otomatis, tab ini boleh ditutup.`);
+            } else {
+                const batchResults = outcome.results.map(({ key, outcome: item }) => item.ok === true
+                    ? { ...item.result, fileName: key }
+                    : createFailedResult(key, item.kind, describeGradingFailure(item))
+                );
+                // Digabung per nama mahasiswa: hasil yang sudah ada di tabel (misal dari penilaian langsung
+                // selama job berjalan) tetap dipertahankan, hanya mahasiswa yang sama yang diganti.
+                const batchNames = new Set(batchResults.map(r => r.fileName));
+                setResults(prev => [...prev.filter(r => !batchNames.has(r.fileName)), ...batchResults]);
+                clearPendingBatchJob();
+                setPendingBatch(null);
+                setBatchStatus('');
+                return;
+            }
+            timer = setTimeout(poll, pendingBatch.pollIntervalMs);
+        };
+        poll();
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }, [pendingBatch]);
+
 
     // Memo: Hitung Statistik
     const stats = useMemo(() => {
@@ -138,6 +277,13 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
         return sorted;
     }, [results, sortConfig]);
 
+    // Mahasiswa dengan temuan integritas; filter hanya berlaku jika ada (ekspor tetap memuat semua hasil).
+    const flaggedResults = useMemo(() => sortedResults.filter(hasIntegrityFlags), [sortedResults]);
+    const visibleResults = showFlaggedOnly && flaggedResults.length > 0 ? flaggedResults : sortedResults;
+
+    // Laporan kemiripan antar mahasiswa (lokal). Dihitung setelah batch selesai, bukan di setiap hasil masuk.
+    const similarityReport = useMemo(() => isLoading ? null : computeSimilarityReport(results), [results, isLoading]);
+
     // Helper: Warna Nilai
     // Aturan Warna: Hijau >= 80, Kuning 60-79, Merah < 60
     const getGradeColor = (grade: number) => {
@@ -175,9 +321,9 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
             const rawFiles = Array.from(files) as File[];
 
             // SECURITY CHECK: File Size
-            const oversizedFiles = rawFiles.filter(f => f.size > MAX_FILE_SIZE_BYTES);
+            const oversizedFiles = rawFiles.filter(f => exceedsUploadLimit(f.name, f.size));
             if (oversizedFiles.length > 0) {
-                setError(`File terlalu besar: ${oversizedFiles.map(f => f.name).join(', ')}. Maksimal ${MAX_FILE_SIZE_MB}MB per file.`);
+                setError(`File terlalu besar: ${oversizedFiles.map(f => f.name).join(', ')}. Maksimal ${MAX_FILE_SIZE_MB}MB per file (PDF ${MAX_PDF_FILE_SIZE_BYTES / 1024 / 1024}MB, foto ${MAX_RAW_IMAGE_SIZE_BYTES / 1024 / 1024}MB jika praproses gambar aktif).`);
                 // Reset input
                 e.target.value = '';
                 return;
@@ -186,6 +332,10 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
             // Bersihkan state lama sepenuhnya
             setSubmissions([]);
             setResults([]);
+            // File mahasiswa di batch job yang masih berjalan tetap disimpan untuk penampil halaman hasilnya nanti.
+            Array.from(gradedFilesRef.current.keys())
+                .filter(name => !pendingBatchNames.includes(name))
+                .forEach(name => gradedFilesRef.current.delete(name));
             setDuplicateNames([]);
             setExpandedPreviews(new Set());
             setShowDuplicateWarning(false);
@@ -246,26 +396,38 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
 
     /**
      * Mengonversi file mentah menjadi bagian konten siap API.
+     * Jika `pageTagger` diisi (jawaban mahasiswa), PDF dipecah per halaman dan diberi penanda nomor halaman.
      */
-    const processFilesToParts = useCallback(async (files: File[]) => {
-        return Promise.all(
-            files.map(async (file) => {
-                const officeMimeTypes = [
-                    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-                    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-                    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-                ];
-                if (officeMimeTypes.includes(file.type)) {
-                    const text = await extractTextFromOfficeFile(file).catch(() => `Error processing ${file.name}`);
-                    return { text: `--- Start of file: ${file.name} ---\n${text}\n--- End of file: ${file.name} ---` };
-                } else {
-                    const base64 = await fileToBase64(file);
-                    return { inlineData: { data: base64, mimeType: file.type } };
-                }
-            })
-        );
+    const processFilesToParts = useCallback(async (files: File[], pageTagger?: PageTagger) => {
+        const parts: ContentPart[] = [];
+        // Berurutan (bukan paralel) agar nomor halaman PDF mengikuti urutan file.
+        for (const file of files) {
+            if (isTextExtractableFile(file)) {
+                parts.push(...await extractDocumentParts(file));
+            } else if (pageTagger && file.type === 'application/pdf') {
+                // PDF terenkripsi/rusak yang tidak dapat dipecah dikirim utuh (tanpa penanda halaman).
+                parts.push(...await pageTagger.tagPdf(file).catch(async (e) => {
+                    console.warn(`Gagal memecah PDF '${file.name}' per halaman, dikirim utuh:`, e);
+                    return [{ inlineData: { data: await fileToBase64(file), mimeType: file.type } }];
+                }));
+            } else {
+                const base64 = await fileToBase64(file);
+                parts.push({ inlineData: { data: base64, mimeType: file.type } });
+            }
+        }
+        return parts;
     }, []);
 
+    // File PDF asli untuk halaman sumber; hanya tersedia selama sesi ini (tidak untuk hasil batch job setelah halaman dibuka ulang).
+    const findSubmissionFile = (result: GradeResult, page: SourcePage): File | undefined =>
+        (gradedFilesRef.current.get(result.fileName) ?? submissions.find(s => s.name === result.fileName)?.files)
+            ?.find(f => f.name === page.fileName);
+
+    // Penampil halaman ikut ditutup saat panel detail berganti/ditutup.
+    useEffect(() => {
+        setViewerPage(null);
+    }, [selectedResult]);
+
     // --- HANDLER KONTROL JOB ---
 
     const handleManualSkip = (name: string) => {
@@ -289,34 +451,61 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
     const handleResetAll = () => {
         setResults([]);
         setSubmissions([]);
+        gradedFilesRef.current.clear();
         setError(null);
         setProgress({ current: 0, total: 0, message: '' });
         setShowPreview(false);
         setExpandedPreviews(new Set());
     };
 
+    const handleCancelBatchJob = async () => {
+        if (!pendingBatch) return;
+        await cancelBatchGrading(pendingBatch);
+        setPendingBatch(null);
+        setBatchStatus('');
+    };
+
     /**
      * LOGIKA PENILAIAN (SATU SUBMISSION).
      */
     const gradeSubmission = useCallback(async (
         submission: StudentSubmission,
-        lecturerAnswerPayload: any
+        lecturerAnswerPayload: LecturerAnswerPayload,
+        cachedContent: string | null = null,
+        preset: GradingPreset | null = null
     ): Promise<GradeResult | null> => {
         // Critical: Pastikan kita menggunakan 'submission' yang diteruskan sebagai argumen,
         // BUKAN variabel dari closure yang mungkin basi.
         const currentSubmissionName = submission.name;
+        // Pembatalan manual/timeout juga menghentikan request AI yang sedang mengalir.
+        const abortController = new AbortController();
 
         const gradingPromise = async () => {
             try {
                 // Proses semua file dalam submission ini menjadi parts
-                const studentFileParts = await processFilesToParts(submission.files);
+                const pageTagger = createPageTagger();
+                const studentFileParts = await processFilesToParts(submission.files, pageTagger);
                 
-                const gradingResult = await gradeAnswer(studentFileParts, lecturerAnswerPayload);
+                const outcome = await gradeAnswer(studentFileParts, lecturerAnswerPayload, {
+                    rubric,
+                    preset,
+                    cachedContent,
+                    signal: abortController.signal,
+                    onProgress: (partial) => {
+                        if (!abortController.signal.aborted) {
+                            setLiveFeedback(prev => ({ ...prev, [currentSubmissionName]: partial }));
+                        }
+                    },
+                });
                 
-                if (gradingResult) {
-                    return { ...gradingResult, fileName: currentSubmissionName };
+                if (outcome.ok === true) {
+                    const sourcePages = pageTagger.sourcePages.length > 0 ? pageTagger.sourcePages : undefined;
+                    return { ...outcome.result, fileName: currentSubmissionName, sourcePages };
                 }
-                return null;
+                // Kegagalan terklasifikasi dijadikan baris GAGAL beserta solusinya. Token percobaan yang gagal
+                // ikut dibawa agar batas anggaran membebankan biaya sebenarnya.
+                console.error(`Failed to grade ${currentSubmissionName}:`, outcome.detail);
+                return { ...createFailedResult(currentSubmissionName, outcome.kind, describeGradingFailure(outcome)), usage: outcome.usage };
             } catch (e) {
                 console.error(`Failed to grade ${currentSubmissionName}:`, e);
                 throw e;
@@ -325,20 +514,32 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
 
         let cancel: () => void = () => {}; 
         const racePromise = new Promise<GradeResult | null>((_, reject) => {
-            cancel = () => reject(new Error('Dibatalkan Manual atau Timeout'));
+            cancel = () => {
+                abortController.abort();
+                reject(createGradingError('cancelled', 'Dibatalkan Manual'));
+            };
             const timer = setTimeout(() => {
-                reject(new Error('Timeout (Batas Waktu Habis)'));
+                abortController.abort();
+                reject(createGradingError('timeout', 'Timeout (Batas Waktu Habis)'));
             }, SAFETY_TIMEOUT_MS);
             setActiveJobCancellers(prev => ({ ...prev, [currentSubmissionName]: cancel }));
         });
 
         try {
-            const result = await Promise.race([gradingPromise(), racePromise]);
+            const grading = gradingPromise();
+            // Setelah dibatalkan, request yang dihentikan ikut gagal; kegagalan itu sudah tidak relevan.
+            grading.catch(() => {});
+            const result = await Promise.race([grading, racePromise]);
             setActiveJobCancellers(prev => {
                 const newState = { ...prev };
                 delete newState[currentSubmissionName];
                 return newState;
             });
+            setLiveFeedback(prev => {
+                const newState = { ...prev };
+                delete newState[currentSubmissionName];
+                return newState;
+            });
             return result;
         } catch (error: any) {
             setActiveJobCancellers(prev => {
@@ -346,37 +547,197 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                 delete newState[currentSubmissionName];
                 return newState;
             });
-            return {
-                fileName: currentSubmissionName,
-                grade: 0,
-                detailedFeedback: [],
-                improvements: `GAGAL: ${error.message}. Silakan nilai file ini secara manual.`,
-                studentText: "Proses dibatalkan atau waktu habis."
-            };
+            setLiveFeedback(prev => {
+                const newState = { ...prev };
+                delete newState[currentSubmissionName];
+                return newState;
+            });
+            return createFailedResult(currentSubmissionName, error.kind, error.message);
         }
-    }, [processFilesToParts]);
+    }, [processFilesToParts, rubric]);
 
     /**
-     * Pemeriksaan Deteksi Duplikasi
+     * Menyusun payload kunci jawaban dosen sesuai metode input (file atau teks).
      */
-    const handleStartCheck = () => {
-        const names = submissions.map(s => s.name);
-        const duplicates = names.filter((item, index) => names.indexOf(item) !== index);
-        const uniqueDuplicates = [...new Set(duplicates)];
+    const buildLecturerAnswerPayload = useCallback(async (): Promise<LecturerAnswerPayload> => {
+        // Kunci terstruktur yang sudah ditinjau menggantikan kunci mentah (tidak perlu diurai ulang per mahasiswa).
+        if (answerKey) {
+            return { structured: answerKey };
+        }
+        const lecturerAnswerPayload: LecturerAnswerPayload = {};
+        if (answerKeyInputMethod === 'file') {
+             lecturerAnswerPayload.parts = await processFilesToParts(lecturerFiles);
+        } else {
+            lecturerAnswerPayload.text = lecturerAnswerText;
+        }
+        return lecturerAnswerPayload;
+    }, [answerKey, answerKeyInputMethod, lecturerFiles, lecturerAnswerText, processFilesToParts]);
+
+    // Kunci terstruktur tidak lagi sesuai jika kunci mentah berubah.
+    useEffect(() => {
+        setAnswerKey(null);
+    }, [lecturerFiles, lecturerAnswerText, answerKeyInputMethod]);
 
-        if (uniqueDuplicates.length > 0) {
-            setDuplicateNames(uniqueDuplicates);
+    /**
+     * Langkah "Ekstrak Kunci": mengurai kunci mentah SEKALI menjadi daftar soal untuk ditinjau dosen.
+     */
+    const handleExtractKey = useCallback(async () => {
+        setError(null);
+        setIsExtractingKey(true);
+        try {
+            const rawPayload: LecturerAnswerPayload = answerKeyInputMethod === 'file'
+                ? { parts: await processFilesToParts(lecturerFiles) }
+                : { text: lecturerAnswerText };
+            const outcome = await extractAnswerKey(rawPayload);
+            if (outcome.ok === true) {
+                setAnswerKey(outcome.questions);
+            } else {
+                setError(`Gagal mengekstrak kunci jawaban. ${describeGradingFailure(outcome)}`);
+            }
+        } catch (err: any) {
+            setError(`Gagal membaca kunci jawaban: ${err.message || 'Unknown error'}`);
+        } finally {
+            setIsExtractingKey(false);
+        }
+    }, [answerKeyInputMethod, lecturerFiles, lecturerAnswerText, processFilesToParts]);
+
+    /**
+     * PRE-FLIGHT: Estimasi token, biaya & durasi sebelum batch dimulai (lihat costEstimator.ts).
+     * Mode Demo tidak memanggil API sehingga langsung dimulai tanpa estimasi.
+     */
+    const handlePreflight = async () => {
+        if (getSelectedProviderId() === 'mock') {
+            handleSubmit(null);
+            return;
+        }
+
+        setError(null);
+        setEstimate(null);
+        setEstimateProgress({ done: 0, total: submissions.length });
+        setShowEstimate(true);
+        const runId = ++estimateRunRef.current;
+
+        try {
+            const model = getActiveModel();
+            const result = await estimateBatch({
+                submissions,
+                lecturerAnswer: await buildLecturerAnswerPayload(),
+                rubric,
+                preset: getPreset(batchPresetId) || getActivePreset(),
+                toParts: processFilesToParts,
+                model,
+                price: MODEL_PRICES[model] || null,
+                concurrency: getConcurrencyLimit(),
+                onProgress: (done, total) => {
+                    if (runId === estimateRunRef.current) setEstimateProgress({ done, total });
+                },
+            });
+            if (runId === estimateRunRef.current) setEstimate(result);
+        } catch (err: any) {
+            console.error("Estimasi biaya gagal:", err);
+            if (runId !== estimateRunRef.current) return;
+            setShowEstimate(false);
+            setError(`Gagal menghitung estimasi biaya: ${err.message || 'Unknown error'}`);
+        }
+    };
+
+    const handleConfirmEstimate = () => {
+        localStorage.setItem(BUDGET_STORAGE_KEY, budgetCap.trim());
+        setShowEstimate(false);
+        handleSubmit(estimate);
+    };
+
+    /**
+     * Pemeriksaan Deteksi Duplikasi, SEBELUM estimasi dan penilaian apa pun.
+     * Nama ganda membuat hasil dan file mahasiswa saling menimpa, jadi penilaian tidak dimulai sebelum diberi nomor.
+     */
+    const handleStartCheck = () => {
+        const duplicates = findDuplicateSubmissionNames(submissions, pendingBatchNames);
+        if (duplicates.length > 0) {
+            setDuplicateNames(duplicates);
             setShowDuplicateWarning(true);
         } else {
-            handleSubmit();
+            handlePreflight();
         }
     };
 
+    const handleRenameDuplicates = () => {
+        setSubmissions(disambiguateSubmissionNames(submissions, pendingBatchNames));
+        setShowDuplicateWarning(false);
+        setStartAfterRename(true);
+    };
+
+    useEffect(() => {
+        if (!startAfterRename) return;
+        setStartAfterRename(false);
+        handlePreflight();
+    }, [startAfterRename]);
+
+    /**
+     * MODE BATCH JOB: seluruh jawaban dikemas lalu dikirim sebagai job asinkron. Batas anggaran diperiksa
+     * terhadap estimasi total di awal karena job tidak dapat dihentikan di tengah jalan per mahasiswa.
+     */
+    const submitBatchJob = useCallback(async (batchEstimate: BatchEstimate | null) => {
+        if (pendingBatch) {
+            setError("Masih ada batch job yang belum selesai. Tunggu hasilnya atau batalkan job tersebut terlebih dahulu.");
+            return;
+        }
+        const budgetCapUsd = parseFloat(budgetCap);
+        if (batchEstimate?.costUsd != null && Number.isFinite(budgetCapUsd) && budgetCapUsd > 0 && batchEstimate.costUsd > budgetCapUsd) {
+            setError(`Estimasi biaya batch ${formatUsd(batchEstimate.costUsd)} melebihi batas anggaran ${formatUsd(budgetCapUsd)}. Naikkan batas anggaran atau bagi kelas menjadi beberapa batch.`);
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+        setResults([]);
+        const totalSteps = submissions.length;
+        setProgress({ current: 0, total: totalSteps, message: 'Mengemas jawaban ke batch job...' });
+
+        try {
+            const lecturerAnswerPayload = await buildLecturerAnswerPayload();
+            const preset = getPreset(batchPresetId) || getActivePreset();
+            const requests = [];
+            for (const submission of submissions) {
+                const pageTagger = createPageTagger();
+                const parts = await processFilesToParts(submission.files, pageTagger);
+                requests.push({ key: submission.name, parts, sourcePages: pageTagger.sourcePages });
+                setProgress(prev => ({ ...prev, current: requests.length, message: `Mengemas jawaban ke batch job... (${requests.length}/${totalSteps})` }));
+            }
+
+            setProgress(prev => ({ ...prev, message: 'Mengirim batch job ke server...' }));
+            const outcome = await submitBatchGrading(requests, lecturerAnswerPayload, { rubric, preset });
+            if (outcome.ok === false) {
+                setError(`Batch job gagal dikirim. ${describeGradingFailure(outcome)}`);
+                return;
+            }
+            setPendingBatch(outcome.job);
+            setProgress(p => ({ ...p, message: 'Batch job terkirim' }));
+            setSubmissions([]);
+            if (!keepLecturerAnswer) {
+                setLecturerFiles([]);
+                setLecturerAnswerText('');
+            }
+        } catch (err) {
+            setError("Terjadi kesalahan tak terduga saat menyiapkan batch job.");
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [pendingBatch, budgetCap, submissions, buildLecturerAnswerPayload, batchPresetId, processFilesToParts, rubric, keepLecturerAnswer]);
+
     /**
      * LOGIKA PEMROSESAN BATCH UTAMA
+     *
+     * @param batchEstimate - Hasil pre-flight. Jika ada dan batas anggaran diisi, batch berhenti
+     *                        sebelum mahasiswa berikutnya membuat total biaya melewati batas.
      */
-    const handleSubmit = useCallback(async () => {
+    const handleSubmit = useCallback(async (batchEstimate: BatchEstimate | null) => {
         setShowDuplicateWarning(false);
+        if (findDuplicateSubmissionNames(submissions, pendingBatchNames).length > 0) {
+            setError("Ada nama mahasiswa yang sama. Beri nama unik pada setiap mahasiswa sebelum memulai penilaian.");
+            return;
+        }
         // Otomatis tutup preview saat mulai agar tampilan bersih
         setShowPreview(false);
         setExpandedPreviews(new Set());
@@ -386,6 +747,11 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
             setError("Harap unggah file jawaban mahasiswa dan berikan kunci jawaban dosen.");
             return;
         }
+        submissions.forEach(s => gradedFilesRef.current.set(s.name, s.files));
+        if (useBatchJob && isBatchGradingSupported()) {
+            await submitBatchJob(batchEstimate);
+            return;
+        }
 
         setIsLoading(true);
         setError(null);
@@ -397,26 +763,40 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
         setProgress({ current: 0, total: totalSteps, message: `Menginisialisasi antrian cerdas...` });
 
         // DETERMINE CONCURRENCY FROM SETTINGS
-        // Fallback ke DEFAULT_CONCURRENCY (2) jika user belum setting.
-        const effectiveConcurrency = typeof window !== 'undefined' 
-            ? parseInt(localStorage.getItem('USER_CONCURRENCY_LIMIT') || String(DEFAULT_CONCURRENCY), 10) 
-            : DEFAULT_CONCURRENCY;
+        const effectiveConcurrency = getConcurrencyLimit();
+
+        // BUDGET CAP: Hanya berlaku jika harga model diketahui dari estimasi pre-flight.
+        const price = batchEstimate ? MODEL_PRICES[batchEstimate.model] : undefined;
+        const budgetCapUsd = price ? parseFloat(budgetCap) : NaN;
+        const isBudgetEnabled = Number.isFinite(budgetCapUsd) && budgetCapUsd > 0;
+        // `reserved` = estimasi biaya job yang sedang berjalan, agar worker paralel tidak melewati batas bersama-sama.
+        const spending = { spent: 0, reserved: 0 };
+
+        // Cache konteks kunci jawaban: dibuat sekali per batch, dihapus di blok finally.
+        let keyCache: AnswerKeyCache | null = null;
 
         try {
-            const lecturerAnswerPayload: { parts?: any[], text?: string } = {};
-            if (answerKeyInputMethod === 'file') {
-                 lecturerAnswerPayload.parts = await processFilesToParts(lecturerFiles);
-            } else {
-                lecturerAnswerPayload.text = lecturerAnswerText;
-            }
+            const lecturerAnswerPayload = await buildLecturerAnswerPayload();
+            // Versi preset dibekukan di awal batch: edit preset selama batch berjalan tidak mencampur hasil.
+            const preset = getPreset(batchPresetId) || getActivePreset();
+            keyCache = await openAnswerKeyCache(lecturerAnswerPayload, { rubric, preset });
+            const cachedContent = keyCache.name;
 
             // Menggunakan atomic counter (ref) untuk indeks, memastikan thread-safety dalam JS event loop
             const indexRef = { current: 0 };
-            const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+            // Penghentian dini: API Key salah (semua mahasiswa pasti gagal) atau batas anggaran tercapai.
+            const haltRef: { current: 'auth' | 'budget' | null } = { current: null };
 
             const worker = async (workerId: number) => {
                 while (indexRef.current < submissions.length) {
-                    if (abortBatchRef.current) break;
+                    if (abortBatchRef.current || haltRef.current) break;
+
+                    const estimatedCost = batchEstimate?.perStudentCostUsd[indexRef.current] ?? 0;
+                    if (isBudgetEnabled && spending.spent + spending.reserved + estimatedCost > budgetCapUsd) {
+                        haltRef.current = 'budget';
+                        break;
+                    }
 
                     // Atomic capture of index and increment
                     const i = indexRef.current++;
@@ -425,12 +805,18 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
 
                     const submission = submissions[i];
 
-                    const result = await gradeSubmission(submission, lecturerAnswerPayload);
+                    spending.reserved += estimatedCost;
+                    const result = await gradeSubmission(submission, lecturerAnswerPayload, cachedContent, preset);
+                    spending.reserved -= estimatedCost;
+                    // Biaya riil dari usage API (termasuk percobaan gagal); fallback ke estimasi jika usage tidak
+                    // tersedia (misal timeout/dibatalkan saat request masih berjalan).
+                    spending.spent += result?.usage && price ? calculateCostUsd(result.usage, price) : estimatedCost;
 
                     if (abortBatchRef.current) break;
 
                     if (result) {
                         setResults(prev => [...prev, result]);
+                        if (result.errorKind === 'auth') haltRef.current = 'auth';
                     }
 
                     setProgress(prev => ({
@@ -438,24 +824,26 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                         current: Math.min(prev.current + 1, totalSteps),
                         message: `Menganalisis berkas... (${Math.min(prev.current + 1, totalSteps)}/${totalSteps})`
                     }));
-
-                    // Random Jitter wait between jobs to prevent rate limit hammering
-                    if (indexRef.current < submissions.length) {
-                        await sleep(1000 + Math.random() * 2000);
-                    }
+                    // Tidak perlu jitter antar job: laju request diatur oleh rate limiter bersama
+                    // di service layer (services/rateLimiter.ts), termasuk jeda dari respons 429.
                 }
             };
 
             const workers = [];
             for (let w = 0; w < effectiveConcurrency; w++) {
                 workers.push(worker(w));
-                // Staggered start to prevent thundering herd
-                await sleep(800); 
             }
 
             await Promise.all(workers);
-            
-            if (!abortBatchRef.current) {
+
+            // Antrian sengaja tidak dikosongkan saat dihentikan dini agar dosen bisa langsung mengulang.
+            if (haltRef.current === 'auth' && !abortBatchRef.current) {
+                setProgress(p => ({ ...p, message: 'Dihentikan: API Key bermasalah' }));
+                setError(`Penilaian dihentikan. ${GRADING_ERROR_INFO.auth.title}. ${GRADING_ERROR_INFO.auth.remedy}`);
+            } else if (haltRef.current === 'budget' && !abortBatchRef.current) {
+                setProgress(p => ({ ...p, message: 'Dihentikan: Batas anggaran tercapai' }));
+                setError(`Batas anggaran ${formatUsd(budgetCapUsd)} tercapai. ${indexRef.current} dari ${totalSteps} mahasiswa dinilai dengan biaya ± ${formatUsd(spending.spent)}. Naikkan batas anggaran untuk menilai sisanya.`);
+            } else if (!abortBatchRef.current) {
                 setProgress(p => ({ ...p, current: p.total, message: 'Analisis Selesai' }));
                 setSubmissions([]); 
                 if (!keepLecturerAnswer) {
@@ -469,13 +857,62 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                 console.error(err);
             }
         } finally {
+            keyCache?.release();
             if (!abortBatchRef.current) {
                 setIsLoading(false);
             }
             setActiveJobCancellers({});
         }
-    }, [submissions, lecturerFiles, answerKeyInputMethod, lecturerAnswerText, gradeSubmission, keepLecturerAnswer, processFilesToParts]);
+    }, [submissions, lecturerFiles, answerKeyInputMethod, lecturerAnswerText, gradeSubmission, keepLecturerAnswer, buildLecturerAnswerPayload, budgetCap, rubric, batchPresetId, useBatchJob, submitBatchJob, pendingBatchNames]);
     
+    /**
+     * Pipeline dua tahap: menilai ulang mahasiswa terpilih dari transkrip yang sudah dikoreksi dosen.
+     * Tahap vision (OCR) tidak diulang; hasil baru menggantikan baris lama di tabel.
+     */
+    const handleRegradeTranscript = useCallback(async (pages: TranscriptPage[]): Promise<string | null> => {
+        const target = selectedResult;
+        if (!target) return null;
+        const isLecturerInputMissing = (answerKeyInputMethod === 'file' && lecturerFiles.length === 0) || (answerKeyInputMethod === 'text' && !lecturerAnswerText.trim());
+        if (isLecturerInputMissing) {
+            return "Kunci jawaban dosen sudah dihapus. Berikan kembali kunci jawaban untuk menilai ulang.";
+        }
+        try {
+            // Nilai ulang dengan versi preset yang sama seperti penilaian awal.
+            const preset = target.preset ? getPreset(target.preset.id, target.preset.version) : null;
+            const outcome = await gradeTranscript(pages, await buildLecturerAnswerPayload(), { rubric, preset });
+            if (outcome.ok === false) return describeGradingFailure(outcome);
+            const updated: GradeResult = { ...outcome.result, fileName: target.fileName, sourcePages: target.sourcePages };
+            setResults(prev => prev.map(r => (r === target ? updated : r)));
+            setSelectedResult(updated);
+            return null;
+        } catch (err: any) {
+            console.error(err);
+            return `Terjadi kesalahan: ${err.message || 'Unknown error'}`;
+        }
+    }, [selectedResult, answerKeyInputMethod, lecturerFiles, lecturerAnswerText, buildLecturerAnswerPayload, rubric]);
+
+    /**
+     * Surat umpan balik mahasiswa terpilih: dibuat (ulang) oleh AI atau disimpan setelah disunting dosen.
+     * Baris di tabel ikut diperbarui agar surat terbawa saat ekspor Excel.
+     */
+    const updateSelectedResult = useCallback((target: GradeResult, updated: GradeResult) => {
+        setResults(prev => prev.map(r => (r === target ? updated : r)));
+        setSelectedResult(updated);
+    }, []);
+
+    const handleGenerateStudentFeedback = useCallback(async (): Promise<string | null> => {
+        const target = selectedResult;
+        if (!target) return null;
+        const outcome = await writeStudentFeedback(target);
+        if (outcome.ok === false) return describeGradingFailure(outcome);
+        updateSelectedResult(target, { ...target, studentFeedback: outcome.letter });
+        return null;
+    }, [selectedResult, updateSelectedResult]);
+
+    const handleSaveStudentFeedback = useCallback((letter: string) => {
+        if (selectedResult) updateSelectedResult(selectedResult, { ...selectedResult, studentFeedback: letter || undefined });
+    }, [selectedResult, updateSelectedResult]);
+
     const handleDownload = () => {
         const workbook = generateCsv(sortedResults);
         downloadCsv(workbook, 'Hasil-Penilaian-Kelas-PIPB.xlsx');
@@ -517,7 +954,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                             <p className="text-blue-600 dark:text-blue-400 font-medium">Mode Kelas: Deteksi Otomatis ZIP.</p>
                                             <p>• Jika file satuan: 1 File = 1 Mahasiswa</p>
                                             <p>• Jika ZIP berisi folder: 1 Folder = 1 Mahasiswa (Isi folder digabung)</p>
-                                            <p>Format didukung: PDF, Word, Excel, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
+                                            <p>Format didukung: PDF, Word, Excel, PowerPoint, LibreOffice (ODT/ODS/ODP), RTF, TXT/MD, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file (PDF 50MB, dipecah per halaman; foto diperkecil otomatis).</span></p>
                                         </div>
                                     </>
                                 ) : (
@@ -600,9 +1037,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                                                         {/* Menampilkan nama file yang sudah dibersihkan dari kode unik (cache buster) */}
                                                                                         {getDisplayFilename(f.name)}
                                                                                     </span>
-                                                                                    <span className="text-[9px] text-gray-400 border border-gray-200 dark:border-gray-700 px-1 rounded">
-                                                                                        {(f.size / 1024).toFixed(0)} KB
-                                                                                    </span>
+                                                                                    <FileSizeBadge file={f} className="text-[9px] text-gray-400 border border-gray-200 dark:border-gray-700 px-1 rounded" />
                                                                                 </li>
                                                                             ))}
                                                                         </ul>
@@ -647,7 +1082,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                     </label>
                                                     <div className="mt-2 text-xs text-gray-400 dark:text-gray-500 space-y-1">
                                                         <p>Semua file (termasuk ZIP) akan digabung jadi satu referensi kunci.</p>
-                                                        <p>Format didukung: PDF, Word, Excel, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
+                                                        <p>Format didukung: PDF, Word, Excel, PowerPoint, LibreOffice (ODT/ODS/ODP), RTF, TXT/MD, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
                                                     </div>
                                                 </>
                                             ) : (
@@ -713,6 +1148,48 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                 </label>
                             </div>
                         </div>
+                        <AnswerKeyEditor
+                            answerKey={answerKey}
+                            onChange={setAnswerKey}
+                            onExtract={handleExtractKey}
+                            isExtracting={isExtractingKey}
+                            canExtract={!isLecturerInputMissing && !isLoading}
+                            idPrefix="class"
+                        />
+                        <RubricEditor rubric={rubric} onChange={setRubric} idPrefix="class" />
+                        <div className="flex items-center gap-3 pt-3">
+                            <label htmlFor="class-preset" className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">Preset prompt:</label>
+                            <select
+                                id="class-preset"
+                                value={batchPresetId}
+                                onFocus={() => setPresetOptions(getPresets())}
+                                onChange={(e) => setBatchPresetId(e.target.value)}
+                                disabled={isLoading}
+                                className="flex-1 p-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                {presetOptions.map(p => (
+                                    <option key={p.id} value={p.id}>{p.name} (v{p.version})</option>
+                                ))}
+                            </select>
+                        </div>
+                        {isBatchGradingSupported() && (
+                            <div className="flex items-start pt-3">
+                                <input
+                                    id="class-batch-job"
+                                    type="checkbox"
+                                    checked={useBatchJob}
+                                    onChange={(e) => setUseBatchJob(e.target.checked)}
+                                    disabled={isLoading || !!pendingBatch}
+                                    className="h-4 w-4 mt-0.5 text-blue-600 dark:text-blue-400 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                                />
+                                <label htmlFor="class-batch-job" className="ml-2 block text-sm text-gray-600 dark:text-gray-400">
+                                    Mode Batch Job Asinkron (kelas besar)
+                                    <span className="block text-xs text-gray-500 dark:text-gray-500">
+                                        Seluruh kelas dikirim sebagai satu job server; tab boleh ditutup dan hasil diambil otomatis saat aplikasi dibuka kembali. Tanpa konsensus, alur dua tahap, progres langsung, dan surat mahasiswa otomatis.
+                                    </span>
+                                </label>
+                            </div>
+                        )}
                     </div>
 
                     {isLoading ? (
@@ -726,7 +1203,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                         <>
                              <div className="mt-4 flex flex-col items-center">
                                 <button 
-                                    onClick={handleSubmit} 
+                                    onClick={handleStartCheck} 
                                     disabled={submissions.length === 0 || isLecturerInputMissing} 
                                     className="w-full inline-flex justify-center items-center px-4 py-3 border border-transparent text-base font-medium rounded-lg shadow-sm text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed transition-all transform active:scale-[0.98] dark:disabled:from-gray-600 dark:disabled:to-gray-600"
                                 >
@@ -756,6 +1233,16 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                 <UploadIcon className="h-4 w-4 mr-2" />
                                                 Mulai Penilaian Baru
                                             </button>
+                                            <button
+                                                onClick={() => setShowSimilarity(true)}
+                                                className={`inline-flex justify-center items-center px-3 py-2 border text-sm font-medium rounded-lg shadow-sm transition-colors w-full sm:w-auto ${similarityReport && similarityReport.clusters.length > 0 ? 'border-rose-300 dark:border-rose-800 text-rose-700 dark:text-rose-300 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 dark:hover:bg-rose-900/40' : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600'}`}
+                                                title="Bandingkan jawaban antar mahasiswa untuk mendeteksi indikasi salin-menyalin"
+                                            >
+                                                🔗 Cek Kemiripan
+                                                {similarityReport && similarityReport.clusters.length > 0 && (
+                                                    <span className="ml-2 px-1.5 rounded-full bg-rose-600 text-white text-xs font-bold">{similarityReport.clusters.length}</span>
+                                                )}
+                                            </button>
                                             <button 
                                                 onClick={handleDownload} 
                                                 className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-lg shadow-sm text-white bg-green-600 hover:bg-green-700 transition-colors w-full sm:w-auto"
@@ -796,6 +1283,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                             {activeNames.map((name, idx) => (
                                                 <span key={idx} className="inline-flex items-center px-2 py-0.5 rounded text-[10px] bg-white dark:bg-blue-900 border border-blue-200 dark:border-blue-700 text-blue-700 dark:text-blue-200 truncate animate-pulse shadow-sm">
                                                     <span className="truncate max-w-[150px]">{name}</span>
+                                                    {liveFeedback[name] && <span className="ml-1 font-bold">· {liveFeedback[name].length} soal</span>}
                                                     <button 
                                                         onClick={(e) => { e.stopPropagation(); handleManualSkip(name); }}
                                                         className="ml-1.5 text-blue-400 hover:text-red-500 font-bold focus:outline-none"
@@ -806,6 +1294,26 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                 </span>
                                             ))}
                                         </div>
+                                        {/* Hasil sementara per soal (streaming): batalkan lebih awal jika OCR jelas keliru */}
+                                        {activeNames.some(name => liveFeedback[name]) && (
+                                            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                                {activeNames.filter(name => liveFeedback[name]).map(name => (
+                                                    <div key={name} className="p-2 rounded-lg bg-white dark:bg-gray-800 border border-blue-100 dark:border-blue-800">
+                                                        <div className="flex justify-between items-center mb-1">
+                                                            <span className="text-[11px] font-bold text-gray-700 dark:text-gray-200 truncate" title={name}>{name}</span>
+                                                            <button
+                                                                onClick={(e) => { e.stopPropagation(); handleManualSkip(name); }}
+                                                                className="ml-2 text-[10px] font-medium text-red-500 hover:text-red-700 whitespace-nowrap"
+                                                                title="Batalkan penilaian file ini"
+                                                            >
+                                                                Batalkan
+                                                            </button>
+                                                        </div>
+                                                        <LiveFeedbackList feedback={liveFeedback[name]} compact />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -877,7 +1385,60 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                         )}
                         
                         {error && <div className="p-4 mb-4 bg-red-50 dark:bg-red-900/30 border-l-4 border-red-500 text-red-700 dark:text-red-300 rounded-r-md">{error}</div>}
+
+                        {pendingBatch && (
+                            <div className="p-4 mb-4 rounded-lg border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/20">
+                                <p className="text-sm font-bold text-indigo-900 dark:text-indigo-200 mb-1">⏳ Batch Job Sedang Diproses Server</p>
+                                <p className="text-xs text-indigo-800 dark:text-indigo-300">
+                                    {pendingBatch.jobs.reduce((sum, job) => sum + job.keys.length, 0)} mahasiswa · {pendingBatch.jobs.length} job · model {pendingBatch.model} · dikirim {new Date(pendingBatch.createdAt).toLocaleString('id-ID')}
+                                </p>
+                                {batchStatus && <p className="text-xs text-indigo-700 dark:text-indigo-400 mt-1">{batchStatus}</p>}
+                                <div className="flex justify-end gap-2 mt-3">
+                                    <button
+                                        onClick={handleCancelBatchJob}
+                                        className="px-3 py-1.5 text-xs font-medium text-red-700 dark:text-red-300 bg-white dark:bg-gray-800 border border-red-200 dark:border-red-800 rounded hover:bg-red-50 dark:hover:bg-red-900/40"
+                                    >
+                                        Batalkan Job
+                                    </button>
+                                    <button
+                                        onClick={() => setPendingBatch({ ...pendingBatch })}
+                                        className="px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded"
+                                    >
+                                        Periksa Sekarang
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                         
+                        {flaggedResults.length > 0 && (
+                            <div className="p-3 mb-2 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                                <div className="flex justify-between items-center gap-2 mb-2">
+                                    <p className="text-sm font-bold text-red-800 dark:text-red-200">
+                                        🛡 {flaggedResults.length} mahasiswa terindikasi memanipulasi penilai
+                                    </p>
+                                    <button
+                                        onClick={() => setShowFlaggedOnly(!showFlaggedOnly)}
+                                        className={`px-2 py-1 text-xs font-bold rounded whitespace-nowrap transition-colors ${showFlaggedOnly ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-white dark:bg-gray-800 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800 hover:bg-red-100 dark:hover:bg-red-900/40'}`}
+                                    >
+                                        {showFlaggedOnly ? 'Tampilkan Semua' : 'Hanya yang Ditandai'}
+                                    </button>
+                                </div>
+                                <ul className="flex flex-wrap gap-1.5">
+                                    {flaggedResults.map((res, index) => (
+                                        <li key={res.fileName || index}>
+                                            <button
+                                                onClick={() => { setSelectedResult(res); setShowOcr(false); }}
+                                                className="text-xs px-2 py-0.5 rounded bg-white dark:bg-gray-800 border border-red-100 dark:border-red-900/40 text-gray-700 dark:text-gray-200 hover:border-red-400 dark:hover:border-red-500"
+                                                title={res.integrityFlags!.map(formatIntegrityFlag).join('\n')}
+                                            >
+                                                {res.fileName} · {Array.from(new Set(res.integrityFlags!.map(f => INTEGRITY_FLAG_LABELS[f.type]))).join(', ')}
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
                         {results.length > 0 ? (
                             <div className="flex-grow overflow-y-auto mt-2 custom-scrollbar rounded-lg border border-gray-200 dark:border-gray-700 lg:min-h-0 lg:flex-grow">
                                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -907,7 +1468,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                         </tr>
                                     </thead>
                                     <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                                        {sortedResults.map((res, index) => (
+                                        {visibleResults.map((res, index) => (
                                             <tr 
                                                 key={res.fileName || index} 
                                                 onClick={() => { setSelectedResult(res); setShowOcr(false); }}
@@ -916,8 +1477,61 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                 <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-800 dark:text-gray-200 truncate max-w-xs" title={res.fileName}>{res.fileName}</td>
                                                 <td className={`px-4 py-3 whitespace-nowrap text-sm font-bold ${getGradeColor(res.grade)}`}>
                                                     {res.grade === 0 && res.improvements.includes("GAGAL") ? (
-                                                        <span className="text-red-600 text-xs">GAGAL/TIMEOUT</span>
+                                                        <span
+                                                            className="text-red-600 text-xs"
+                                                            title={res.errorKind ? GRADING_ERROR_INFO[res.errorKind].remedy : undefined}
+                                                        >
+                                                            {res.errorKind ? `GAGAL: ${GRADING_ERROR_INFO[res.errorKind].label}` : 'GAGAL/TIMEOUT'}
+                                                        </span>
                                                     ) : res.grade}
+                                                    {res.gradeMismatch && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 border border-orange-200 dark:border-orange-800"
+                                                            title={`Total usulan AI (${res.aiProposedGrade}) berbeda dari hitungan skor per soal (${res.grade}). Mohon ditinjau.`}
+                                                        >
+                                                            ⚠️ AI: {res.aiProposedGrade}
+                                                        </span>
+                                                    )}
+                                                    {res.consensus?.highDisagreement && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
+                                                            title={`Skor antar ${res.consensus.samples} sampel berbeda hingga ${res.consensus.maxSpread} poin. Perlu ditinjau dosen.`}
+                                                        >
+                                                            ⚖ ±{res.consensus.maxSpread}
+                                                        </span>
+                                                    )}
+                                                    {res.fallbackFrom && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-sky-100 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 border border-sky-200 dark:border-sky-800"
+                                                            title={`Model utama ${res.fallbackFrom} terus menolak (kuota/server sibuk); dinilai oleh model cadangan ${res.model}.`}
+                                                        >
+                                                            ↪ Cadangan
+                                                        </span>
+                                                    )}
+                                                    {getReviewQueue(res).length > 0 && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800"
+                                                            title={`${getReviewQueue(res).length} soal perlu ditinjau (keyakinan rendah / tulisan sulit dibaca).`}
+                                                        >
+                                                            🔎 {getReviewQueue(res).length}
+                                                        </span>
+                                                    )}
+                                                    {hasIntegrityFlags(res) && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
+                                                            title={res.integrityFlags!.map(formatIntegrityFlag).join('\n')}
+                                                        >
+                                                            🛡 {res.integrityFlags!.length}
+                                                        </span>
+                                                    )}
+                                                    {res.validationWarnings && res.validationWarnings.length > 0 && (
+                                                        <span
+                                                            className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 border border-amber-200 dark:border-amber-800"
+                                                            title={res.validationWarnings.join('\n')}
+                                                        >
+                                                            ⚠ {res.validationWarnings.length}
+                                                        </span>
+                                                    )}
                                                 </td>
                                                 <td className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-400 dark:text-gray-500 group-hover:text-blue-500 dark:group-hover:text-blue-400 font-medium">
                                                     Buka &rarr;
@@ -951,7 +1565,7 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                         
                         <div className="mb-6">
                             <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
-                                Sistem menemukan nama mahasiswa yang sama dalam unggahan Anda. Jika dilanjutkan, hasil penilaian mungkin akan memiliki nama yang sama dan membingungkan.
+                                Sistem menemukan nama mahasiswa yang sama dalam unggahan Anda (atau di batch job yang masih berjalan). Hasil dan file dipetakan per nama, sehingga nama yang sama akan saling menimpa. Jika dilanjutkan, nama ganda diberi nomor otomatis, misal "Budi (2)".
                             </p>
                             <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800/50 rounded-lg p-3 max-h-40 overflow-y-auto custom-scrollbar">
                                 <p className="text-xs font-bold text-yellow-800 dark:text-yellow-400 mb-1">Nama Duplikat:</p>
@@ -971,10 +1585,100 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                 Batalkan
                             </button>
                             <button
-                                onClick={handleSubmit}
+                                onClick={handleRenameDuplicates}
                                 className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 hover:bg-yellow-700 dark:bg-yellow-700 dark:hover:bg-yellow-600 rounded-lg transition-colors shadow-sm"
                             >
-                                Tetap Lanjutkan
+                                Beri Nomor & Lanjutkan
+                            </button>
+                        </div>
+                    </div>
+                </div>,
+                document.body
+            )}
+
+            {/* Modal Estimasi Biaya (Pre-flight) - PORTAL */}
+            {showEstimate && createPortal(
+                <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+                    <div className="bg-white dark:bg-gray-800 rounded-xl p-6 max-w-md w-full shadow-2xl border border-blue-300 dark:border-blue-700 transform transition-all scale-100">
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="bg-blue-100 dark:bg-blue-900/30 p-2 rounded-full">
+                                <span className="text-2xl">💰</span>
+                            </div>
+                            <h3 className="text-lg font-bold text-gray-900 dark:text-gray-100">Estimasi Biaya &amp; Durasi</h3>
+                        </div>
+
+                        {!estimate ? (
+                            <div className="mb-6 text-sm text-gray-600 dark:text-gray-300">
+                                <p className="mb-2">Menghitung token kunci jawaban dan seluruh berkas mahasiswa...</p>
+                                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                                    <div
+                                        className="bg-blue-600 h-2 rounded-full transition-all"
+                                        style={{ width: `${estimateProgress.total ? (estimateProgress.done / estimateProgress.total) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 text-right">{estimateProgress.done}/{estimateProgress.total} mahasiswa</p>
+                            </div>
+                        ) : (
+                            <div className="mb-6 space-y-3">
+                                <dl className="grid grid-cols-2 gap-2 text-sm">
+                                    <dt className="text-gray-500 dark:text-gray-400">Model</dt>
+                                    <dd className="font-mono text-xs text-gray-800 dark:text-gray-200 text-right self-center">{estimate.model}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Mahasiswa</dt>
+                                    <dd className="font-bold text-gray-800 dark:text-gray-200 text-right">{estimate.studentCount}</dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Token input / output</dt>
+                                    <dd className="font-mono text-xs text-gray-800 dark:text-gray-200 text-right self-center">
+                                        {estimate.inputTokens.toLocaleString('id-ID')} / ± {estimate.outputTokens.toLocaleString('id-ID')}
+                                    </dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Perkiraan biaya</dt>
+                                    <dd className="font-bold text-blue-700 dark:text-blue-300 text-right">
+                                        {estimate.costUsd !== null ? formatUsd(estimate.costUsd) : 'Tidak diketahui'}
+                                    </dd>
+                                    <dt className="text-gray-500 dark:text-gray-400">Perkiraan durasi</dt>
+                                    <dd className="font-bold text-gray-800 dark:text-gray-200 text-right">± {formatDuration(estimate.durationSec)}</dd>
+                                </dl>
+                                <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                                    {estimate.exact
+                                        ? 'Token input dihitung oleh API (countTokens). Token output adalah perkiraan.'
+                                        : 'Token dihitung dengan estimasi lokal (API countTokens tidak tersedia), hasil bisa meleset.'}
+                                    {estimate.costUsd === null && ' Harga model ini tidak ada di tabel harga (misal server lokal).'}
+                                </p>
+
+                                {estimate.costUsd !== null && (
+                                    <div>
+                                        <label htmlFor="budget-cap" className="block text-xs font-bold text-gray-700 dark:text-gray-300 mb-1">
+                                            Batas anggaran (USD, opsional)
+                                        </label>
+                                        <input
+                                            id="budget-cap"
+                                            type="number"
+                                            min={0}
+                                            step="0.01"
+                                            value={budgetCap}
+                                            onChange={(e) => setBudgetCap(e.target.value)}
+                                            placeholder="Tanpa batas"
+                                            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm font-mono"
+                                        />
+                                        <p className="mt-1 text-[11px] text-gray-500 dark:text-gray-400">
+                                            Batch berhenti sebelum total biaya melewati batas ini.
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end gap-3">
+                            <button
+                                onClick={() => { estimateRunRef.current++; setShowEstimate(false); }}
+                                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+                            >
+                                Batalkan
+                            </button>
+                            <button
+                                onClick={handleConfirmEstimate}
+                                disabled={!estimate}
+                                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-lg transition-colors shadow-sm"
+                            >
+                                Mulai Penilaian
                             </button>
                         </div>
                     </div>
@@ -982,6 +1686,12 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                 document.body
             )}
 
+            {/* Modal Kemiripan Jawaban - PORTAL */}
+            {showSimilarity && similarityReport && createPortal(
+                <SimilarityReportModal report={similarityReport} onClose={() => setShowSimilarity(false)} />,
+                document.body
+            )}
+
             {/* Smart Viewport Modal (Updated Card Style) - PORTAL */}
             {selectedResult && createPortal(
                 <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
@@ -995,6 +1705,8 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                 </h3>
                                 <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
                                     <span className="w-2 h-2 rounded-full bg-blue-500"></span> Mode Detail & Verifikasi
+                                    {selectedResult.preset && <span>· Preset: {selectedResult.preset.name} (v{selectedResult.preset.version})</span>}
+                                    {selectedResult.model && <span>· Model: {selectedResult.model}</span>}
                                 </p>
                             </div>
                             <button 
@@ -1013,8 +1725,58 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                 <div className={`text-7xl sm:text-8xl font-black ${getGradeColor(selectedResult.grade)} mt-2 tracking-tighter`}>
                                     {selectedResult.grade}<span className="text-3xl text-gray-300 dark:text-gray-600 font-light">/100</span>
                                 </div>
+                                {selectedResult.gradeMismatch && (
+                                    <p className="mt-3 inline-block text-xs font-medium text-orange-800 dark:text-orange-300 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 px-3 py-1.5 rounded-lg">
+                                        ⚠️ Total usulan AI adalah <strong>{selectedResult.aiProposedGrade}</strong>, berbeda dari hitungan skor per soal. Nilai akhir di atas dihitung ulang oleh sistem.
+                                    </p>
+                                )}
+                                {selectedResult.fallbackFrom && (
+                                    <p className="mt-3 inline-block text-xs font-medium text-sky-800 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/20 border border-sky-200 dark:border-sky-800 px-3 py-1.5 rounded-lg">
+                                        ↪ Model utama <strong>{selectedResult.fallbackFrom}</strong> terus menolak (kuota habis / server sibuk), sehingga penilaian ini dibuat oleh model cadangan <strong>{selectedResult.model}</strong>.
+                                    </p>
+                                )}
+                                {selectedResult.consensus && (
+                                    <p className={`mt-3 inline-block text-xs font-medium px-3 py-1.5 rounded-lg border ${selectedResult.consensus.highDisagreement ? 'text-red-800 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800' : 'text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/40 border-gray-200 dark:border-gray-700'}`}>
+                                        ⚖ Konsensus {selectedResult.consensus.samples} sampel ({Array.from(new Set(selectedResult.consensus.models)).join(', ')}): rentang skor terbesar <strong>{selectedResult.consensus.maxSpread}</strong>.
+                                        {selectedResult.consensus.highDisagreement && ' Sampel tidak sepakat, mohon tinjau manual.'}
+                                    </p>
+                                )}
+                                {selectedResult.validationWarnings && selectedResult.validationWarnings.length > 0 && (
+                                    <div className="mt-3 text-left text-xs text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 px-3 py-2 rounded-lg">
+                                        <p className="font-bold mb-1">⚠️ Peringatan Validasi Respons AI</p>
+                                        <ul className="list-disc list-inside space-y-0.5">
+                                            {selectedResult.validationWarnings.map((w, i) => <li key={i}>{w}</li>)}
+                                        </ul>
+                                    </div>
+                                )}
                             </div>
 
+                            {/* Temuan Integritas */}
+                            {hasIntegrityFlags(selectedResult) && <IntegrityFlagList flags={selectedResult.integrityFlags!} />}
+
+                            {/* Antrean Perlu Ditinjau */}
+                            {getReviewQueue(selectedResult).length > 0 && (
+                                <div className="rounded-xl border border-purple-200 dark:border-purple-800 bg-purple-50/60 dark:bg-purple-900/20 p-4">
+                                    <p className="font-bold text-purple-900 dark:text-purple-200 mb-1">🔎 Perlu Ditinjau ({getReviewQueue(selectedResult).length} soal)</p>
+                                    <p className="text-xs text-purple-700 dark:text-purple-300 mb-3">
+                                        Keyakinan AI di bawah {REVIEW_CONFIDENCE_THRESHOLD}% atau tulisan sulit dibaca. Klik untuk menuju soal.
+                                    </p>
+                                    <ul className="space-y-1.5">
+                                        {getReviewQueue(selectedResult).map(({ index, feedback, reasons }) => (
+                                            <li key={index}>
+                                                <button
+                                                    onClick={() => document.getElementById(`review-question-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })}
+                                                    className="w-full flex items-center gap-3 text-left text-sm px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-purple-100 dark:border-purple-900/40 hover:border-purple-400 dark:hover:border-purple-500 transition-colors"
+                                                >
+                                                    <span className="font-bold text-gray-700 dark:text-gray-200 whitespace-nowrap">Soal #{feedback.questionNumber}</span>
+                                                    <span className="text-xs text-purple-700 dark:text-purple-300">{reasons.join(' · ')}</span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
                             {/* Bagian Verifikasi OCR */}
                             {selectedResult.studentText && (
                                 <div className="bg-white dark:bg-gray-800 border border-blue-200 dark:border-gray-600 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow">
@@ -1033,7 +1795,12 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                             {showOcr ? 'Sembunyikan Teks' : 'Tampilkan Teks'}
                                         </span>
                                     </button>
-                                    {showOcr && (
+                                    {showOcr && selectedResult.transcript && (
+                                        <div className="p-6 bg-white dark:bg-gray-800 border-t border-blue-100 dark:border-gray-600 animate-fade-in">
+                                            <TranscriptEditor transcript={selectedResult.transcript} onRegrade={handleRegradeTranscript} />
+                                        </div>
+                                    )}
+                                    {showOcr && !selectedResult.transcript && (
                                         <div className="p-6 bg-white dark:bg-gray-800 border-t border-blue-100 dark:border-gray-600 animate-fade-in">
                                             <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-lg border border-yellow-100 dark:border-yellow-900/30 flex gap-2">
                                                 <span>ℹ️</span>
@@ -1058,9 +1825,10 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                 <div className="space-y-8">
                                     {selectedResult.detailedFeedback.map((item, idx) => {
                                         const isEmptyAnswer = item.studentAnswer?.includes('[TIDAK DIKERJAKAN]');
+                                        const sourcePage = findSourcePage(selectedResult.sourcePages, item.page);
 
                                         return (
-                                            <div key={idx} className="p-6 rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm transition-colors duration-200 hover:border-blue-300 dark:hover:border-blue-500">
+                                            <div key={idx} id={`review-question-${idx}`} className="scroll-mt-4 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm transition-colors duration-200 hover:border-blue-300 dark:hover:border-blue-500">
                                                 <div className="flex justify-between items-start mb-5 border-b border-gray-100 dark:border-gray-700 pb-3">
                                                     <span className="font-black text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 px-4 py-1.5 rounded-lg shadow-sm">Soal #{item.questionNumber}</span>
                                                     <div className="text-right">
@@ -1068,7 +1836,24 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                             <span className="text-xs font-bold px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded-lg uppercase tracking-wide">KOSONG</span>
                                                         ) : (
                                                             <span className={`text-2xl font-bold ${getGradeColor(item.score)}`}>
-                                                                {item.score}/100
+                                                                {item.maxPoints !== undefined ? `${item.points ?? 0}/${item.maxPoints} poin` : `${item.score}/100`}
+                                                            </span>
+                                                        )}
+                                                        {item.consensus && (
+                                                            <span className={`block text-[11px] mt-1 ${item.consensus.spread > CONSENSUS_SPREAD_THRESHOLD ? 'font-bold text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                                                                Sampel: {item.consensus.scores.join(' · ')} (rentang {item.consensus.spread})
+                                                            </span>
+                                                        )}
+                                                        {(item.confidence !== undefined || (item.legibility && item.legibility !== 'clear')) && (
+                                                            <span className="flex justify-end gap-1.5 mt-1 text-[11px]">
+                                                                {item.legibility && item.legibility !== 'clear' && (
+                                                                    <span className="font-bold text-purple-700 dark:text-purple-300">{LEGIBILITY_LABELS[item.legibility]}</span>
+                                                                )}
+                                                                {item.confidence !== undefined && (
+                                                                    <span className={item.confidence < REVIEW_CONFIDENCE_THRESHOLD ? 'font-bold text-purple-700 dark:text-purple-300' : 'text-gray-500 dark:text-gray-400'}>
+                                                                        Keyakinan AI {item.confidence}%
+                                                                    </span>
+                                                                )}
                                                             </span>
                                                         )}
                                                     </div>
@@ -1102,6 +1887,16 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                             <div>
                                                                 <div className="flex justify-between items-center mb-1">
                                                                     <span className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Jawaban Mahasiswa</span>
+                                                                    {sourcePage && (
+                                                                        <button
+                                                                            onClick={() => setViewerPage(sourcePage)}
+                                                                            disabled={!findSubmissionFile(selectedResult, sourcePage)}
+                                                                            className="text-[10px] font-bold text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800 px-2 py-0.5 rounded hover:bg-sky-100 dark:hover:bg-sky-900/50 disabled:opacity-60 disabled:cursor-default transition-colors"
+                                                                            title={findSubmissionFile(selectedResult, sourcePage) ? 'Buka halaman ini di penampil PDF' : 'File asli tidak tersedia lagi (unggah ulang untuk membuka).'}
+                                                                        >
+                                                                            📄 Hal. {sourcePage.filePage} · {sourcePage.fileName}
+                                                                        </button>
+                                                                    )}
                                                                     {!isEmptyAnswer && <span className="text-[10px] text-gray-400 dark:text-gray-500 bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">Salinan Lengkap</span>}
                                                                 </div>
                                                                 {isEmptyAnswer ? (
@@ -1123,6 +1918,20 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                                                 <p className="text-sm text-gray-800 dark:text-gray-200 leading-relaxed whitespace-pre-wrap">{item.feedback}</p>
                                                             </div>
                                                         </div>
+
+                                                        {item.criteriaScores && item.criteriaScores.length > 0 && (
+                                                            <div>
+                                                                <span className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-widest mb-2 block">Poin per Kriteria</span>
+                                                                <ul className="space-y-1">
+                                                                    {item.criteriaScores.map((cs, csIdx) => (
+                                                                        <li key={csIdx} className="flex justify-between text-sm text-gray-700 dark:text-gray-300 bg-indigo-50 dark:bg-indigo-900/20 px-3 py-1.5 rounded-lg">
+                                                                            <span>{cs.criterionName || cs.criterionId}{cs.level ? ` — ${cs.level}` : ''}</span>
+                                                                            <span className="font-mono font-bold">{cs.points}/{cs.maxPoints}</span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            </div>
+                                                        )}
                                                     </div>
                                                 </div>
                                             </div>
@@ -1140,6 +1949,16 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                                     {selectedResult.improvements}
                                 </p>
                             </div>
+
+                            {/* Surat untuk Mahasiswa */}
+                            <StudentFeedbackLetter
+                                letter={selectedResult.studentFeedback}
+                                onGenerate={handleGenerateStudentFeedback}
+                                onSave={handleSaveStudentFeedback}
+                            />
+
+                            {/* Metadata Penilaian */}
+                            {selectedResult.provenance && <ProvenanceDetails provenance={selectedResult.provenance} />}
                         </div>
 
                         {/* Footer Fixed */}
@@ -1155,6 +1974,12 @@ const ClassMode: React.FC<ClassModeProps> = ({ onDataDirty }) => {
                 </div>,
                 document.body
             )}
+
+            {/* Penampil Halaman PDF Sumber - PORTAL */}
+            {selectedResult && viewerPage && findSubmissionFile(selectedResult, viewerPage) && createPortal(
+                <PdfPageViewer file={findSubmissionFile(selectedResult, viewerPage)!} page={viewerPage.filePage} onClose={() => setViewerPage(null)} />,
+                document.body
+            )}
         </div>
     );
 };
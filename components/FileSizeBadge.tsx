@@ -0,0 +1,35 @@
+import React from 'react';
+import { formatFileSize, getImagePreprocessReport } from '../utils/imageUtils';
+
+interface FileSizeBadgeProps {
+    file: File;
+    className?: string;
+}
+
+/**
+ * @component FileSizeBadge
+ * @description Ukuran file pada pratinjau manifest. Untuk foto yang telah dipraproses (imageUtils.ts)
+ * ditampilkan ukuran asli -> hasil beserta persentase penghematan.
+ */
+const FileSizeBadge: React.FC<FileSizeBadgeProps> = ({ file, className = '' }) => {
+    const report = getImagePreprocessReport(file);
+    if (!report || report.keptOriginal) {
+        return <span className={className}>{(file.size / 1024).toFixed(0)} KB</span>;
+    }
+
+    const saved = report.originalSize - report.processedSize;
+    const title = `${report.originalName}: ${formatFileSize(report.originalSize)} → ${formatFileSize(report.processedSize)} (${report.width}×${report.height}px)`;
+    return (
+        <span className={className} title={title}>
+            <span className="line-through opacity-60">{formatFileSize(report.originalSize)}</span>
+            {' → '}{formatFileSize(report.processedSize)}
+            {saved > 0 && (
+                <span className="ml-1 font-bold text-green-600 dark:text-green-400">
+                    −{Math.round((saved / report.originalSize) * 100)}%
+                </span>
+            )}
+        </span>
+    );
+};
+
+export default FileSizeBadge;
@@ -1,11 +1,27 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { fileToBase64, processUploadedFiles } from '../utils/fileUtils';
-import { gradeAnswer } from '../services/geminiService';
-import { GradeResult } from '../types';
+import { exceedsUploadLimit, fileToBase64, processUploadedFiles } from '../utils/fileUtils';
+import { gradeAnswer, gradeTranscript, writeStudentFeedback } from '../services/geminiService';
+import { describeGradingFailure } from '../services/gradingErrors';
+import { FeedbackDetail, GradeResult, Rubric, SourcePage, TranscriptPage } from '../types';
 import { UploadIcon, CheckIcon, XIcon, PaperclipIcon, ClipboardIcon } from './icons';
-import { extractTextFromOfficeFile } from '../utils/officeFileUtils';
+import { EXTRACTABLE_FILE_ACCEPT, extractDocumentParts, isTextExtractableFile } from '../utils/officeFileUtils';
+import { MAX_PDF_FILE_SIZE_BYTES, createPageTagger, findSourcePage } from '../utils/pdfUtils';
+import { MAX_RAW_IMAGE_SIZE_BYTES } from '../utils/imageUtils';
 import AILoader from './AILoader';
+import RubricEditor from './RubricEditor';
+import TranscriptEditor from './TranscriptEditor';
+import StudentFeedbackLetter from './StudentFeedbackLetter';
+import LiveFeedbackList from './LiveFeedbackList';
+import IntegrityFlagList from './IntegrityFlagList';
+import ProvenanceDetails from './ProvenanceDetails';
+import PdfPageViewer from './PdfPageViewer';
+import FileSizeBadge from './FileSizeBadge';
+import { CONSENSUS_SPREAD_THRESHOLD } from '../utils/consensusUtils';
+import { LEGIBILITY_LABELS, REVIEW_CONFIDENCE_THRESHOLD } from '../utils/reviewUtils';
+import { hasIntegrityFlags } from '../utils/integrityUtils';
+import { ContentPart, LecturerAnswerPayload } from '../services/gradingProvider';
+import { getPreset } from '../services/promptPresets';
 
 interface SingleStudentGraderProps {
     /** Callback untuk memberi tahu parent (Dashboard) jika ada data aktif (file/hasil) */
@@ -37,9 +53,13 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
     const [answerKeyInputMethod, setAnswerKeyInputMethod] = useState<'file' | 'text'>('file');
     // Opsi untuk menyimpan kunci jawaban setelah penilaian selesai
     const [keepLecturerAnswer, setKeepLecturerAnswer] = useState<boolean>(true);
+    // Rubrik terstruktur opsional (poin per soal & kriteria berbobot)
+    const [rubric, setRubric] = useState<Rubric | null>(null);
     
     // Hasil penilaian dari API
     const [result, setResult] = useState<GradeResult | null>(null);
+    // Halaman PDF sumber yang sedang dibuka dari kutipan halaman pada rincian soal.
+    const [viewerPage, setViewerPage] = useState<SourcePage | null>(null);
     // Status loading selama panggilan API
     const [isLoading, setIsLoading] = useState<boolean>(false);
     // Pesan error
@@ -51,10 +71,15 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
     // Toggle visibilitas daftar file (Preview)
     const [showPreview, setShowPreview] = useState(false);
     
+    // Soal yang sudah selesai dinilai selama respons AI masih mengalir (streaming)
+    const [partialFeedback, setPartialFeedback] = useState<FeedbackDetail[]>([]);
+
     // Manajemen Pembatalan
     const abortRef = useRef<boolean>(false);
+    // Menghentikan request AI yang sedang berjalan (bukan hanya mengabaikan hasilnya)
+    const abortControllerRef = useRef<AbortController | null>(null);
 
-    const acceptedFileTypes = "image/*,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/vnd.openxmlformats-officedocument.presentationml.presentation,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/zip,application/x-zip-compressed";
+    const acceptedFileTypes = `image/*,application/pdf,${EXTRACTABLE_FILE_ACCEPT},application/zip,application/x-zip-compressed`;
 
     // Effect: Melaporkan "Dirty State" ke parent dashboard
     useEffect(() => {
@@ -82,9 +107,9 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
             const files = Array.from(e.target.files) as File[];
             
             // SECURITY CHECK: File Size
-            const oversizedFiles = files.filter(f => f.size > MAX_FILE_SIZE_BYTES);
+            const oversizedFiles = files.filter(f => exceedsUploadLimit(f.name, f.size));
             if (oversizedFiles.length > 0) {
-                setError(`File terlalu besar: ${oversizedFiles.map(f => f.name).join(', ')}. Maksimal ${MAX_FILE_SIZE_MB}MB per file.`);
+                setError(`File terlalu besar: ${oversizedFiles.map(f => f.name).join(', ')}. Maksimal ${MAX_FILE_SIZE_MB}MB per file (PDF ${MAX_PDF_FILE_SIZE_BYTES / 1024 / 1024}MB, foto ${MAX_RAW_IMAGE_SIZE_BYTES / 1024 / 1024}MB jika praproses gambar aktif).`);
                 e.target.value = ''; // Reset input
                 return;
             }
@@ -132,10 +157,38 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
 
     const handleCancel = () => {
         abortRef.current = true;
+        abortControllerRef.current?.abort();
         setIsLoading(false);
         setError('Proses dibatalkan oleh pengguna.');
     };
 
+    /**
+     * Menyiapkan payload kunci jawaban dosen (Konteks) sesuai metode input.
+     */
+    const buildLecturerAnswerPayload = async (): Promise<LecturerAnswerPayload> => {
+        const lecturerAnswerPayload: LecturerAnswerPayload = {};
+        if (answerKeyInputMethod === 'file') {
+            const lecturerParts = await Promise.all(
+                lecturerFiles.map(async (file) => {
+                     // Coba ekstrak teks jika file dokumen (Office/OpenDocument/RTF/teks)
+                    if (isTextExtractableFile(file)) {
+                        return extractDocumentParts(file);
+                    } else {
+                        const base64 = await fileToBase64(file);
+                        return [{ inlineData: { data: base64, mimeType: file.type } }];
+                    }
+                })
+            );
+            lecturerAnswerPayload.parts = lecturerParts.flat();
+        } else {
+            lecturerAnswerPayload.text = lecturerAnswerText;
+        }
+        return lecturerAnswerPayload;
+    };
+
+    // File PDF asli untuk halaman sumber (selama masih ada di daftar unggahan).
+    const findStudentFile = (page: SourcePage): File | undefined => studentFiles.find(f => f.name === page.fileName);
+
     const handleGrade = async () => {
         const isLecturerInputMissing = (answerKeyInputMethod === 'file' && lecturerFiles.length === 0) || (answerKeyInputMethod === 'text' && !lecturerAnswerText.trim());
         
@@ -150,76 +203,98 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
         setShowOcr(false);
         // Tutup preview saat mulai agar bersih
         setShowPreview(false);
+        setPartialFeedback([]);
         abortRef.current = false;
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
 
         try {
             // 1. Siapkan Kunci Jawaban (Konteks)
-            const lecturerAnswerPayload: { parts?: any[], text?: string } = {};
-            if (answerKeyInputMethod === 'file') {
-                const lecturerParts = await Promise.all(
-                    lecturerFiles.map(async (file) => {
-                         // Coba ekstrak teks jika file Office
-                         const officeMimeTypes = [
-                            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-                            'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-                            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-                        ];
-                        if (officeMimeTypes.includes(file.type)) {
-                            const text = await extractTextFromOfficeFile(file).catch(() => `Error processing ${file.name}`);
-                             return { text: `--- Start of file: ${file.name} ---\n${text}\n--- End of file: ${file.name} ---` };
-                        } else {
-                            const base64 = await fileToBase64(file);
-                            return { inlineData: { data: base64, mimeType: file.type } };
-                        }
-                    })
-                );
-                lecturerAnswerPayload.parts = lecturerParts;
-            } else {
-                lecturerAnswerPayload.text = lecturerAnswerText;
+            const lecturerAnswerPayload = await buildLecturerAnswerPayload();
+
+            // 2. Siapkan Jawaban Siswa (berurutan agar nomor halaman PDF mengikuti urutan file)
+            const pageTagger = createPageTagger();
+            const studentParts: ContentPart[] = [];
+            for (const file of studentFiles) {
+                if (isTextExtractableFile(file)) {
+                    studentParts.push(...await extractDocumentParts(file));
+                } else if (file.type === 'application/pdf') {
+                    // PDF dipecah per halaman & diberi penanda; PDF yang tidak dapat dipecah dikirim utuh.
+                    studentParts.push(...await pageTagger.tagPdf(file).catch(async (e) => {
+                        console.warn(`Gagal memecah PDF '${file.name}' per halaman, dikirim utuh:`, e);
+                        return [{ inlineData: { data: await fileToBase64(file), mimeType: file.type } }];
+                    }));
+                } else {
+                    const base64 = await fileToBase64(file);
+                    studentParts.push({ inlineData: { data: base64, mimeType: file.type } });
+                }
             }
 
-            // 2. Siapkan Jawaban Siswa
-            const studentParts = await Promise.all(
-                studentFiles.map(async (file) => {
-                     const officeMimeTypes = [
-                        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-                        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-                        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-                    ];
-                    if (officeMimeTypes.includes(file.type)) {
-                        const text = await extractTextFromOfficeFile(file).catch(() => `Error processing ${file.name}`);
-                         return { text: `--- Start of file: ${file.name} ---\n${text}\n--- End of file: ${file.name} ---` };
-                    } else {
-                        const base64 = await fileToBase64(file);
-                        return { inlineData: { data: base64, mimeType: file.type } };
-                    }
-                })
-            );
-
             if (abortRef.current) return;
 
             // 3. Panggil Layanan AI
-            const gradingResult = await gradeAnswer(studentParts, lecturerAnswerPayload);
+            const outcome = await gradeAnswer(studentParts, lecturerAnswerPayload, {
+                rubric,
+                signal: abortController.signal,
+                onProgress: (partial) => {
+                    if (!abortRef.current) setPartialFeedback(partial);
+                },
+            });
 
             if (abortRef.current) return;
 
-            if (gradingResult) {
+            if (outcome.ok === true) {
                 // Tambahkan nama file untuk referensi
-                gradingResult.fileName = studentFiles.map(f => f.name).join(', ');
-                setResult(gradingResult);
+                const sourcePages = pageTagger.sourcePages.length > 0 ? pageTagger.sourcePages : undefined;
+                setResult({ ...outcome.result, fileName: studentFiles.map(f => f.name).join(', '), sourcePages });
             } else {
-                setError("Gagal mendapatkan penilaian dari AI. Silakan coba lagi.");
+                // Pesan spesifik per jenis kegagalan (misal API Key salah -> arahkan ke Pengaturan)
+                setError(describeGradingFailure(outcome));
             }
         } catch (err: any) {
             console.error(err);
             setError(`Terjadi kesalahan: ${err.message || 'Unknown error'}`);
         } finally {
+            setPartialFeedback([]);
+            abortControllerRef.current = null;
             if (!abortRef.current) {
                 setIsLoading(false);
             }
         }
     };
 
+    /**
+     * Pipeline dua tahap: menilai ulang dari transkrip yang sudah dikoreksi dosen (tanpa OCR ulang).
+     */
+    const handleRegradeTranscript = async (pages: TranscriptPage[]): Promise<string | null> => {
+        const isLecturerInputMissing = (answerKeyInputMethod === 'file' && lecturerFiles.length === 0) || (answerKeyInputMethod === 'text' && !lecturerAnswerText.trim());
+        if (isLecturerInputMissing) {
+            return "Kunci jawaban dosen sudah dihapus. Berikan kembali kunci jawaban untuk menilai ulang.";
+        }
+        try {
+            // Nilai ulang dengan versi preset yang sama seperti penilaian awal.
+            const preset = result?.preset ? getPreset(result.preset.id, result.preset.version) : null;
+            const outcome = await gradeTranscript(pages, await buildLecturerAnswerPayload(), { rubric, preset });
+            if (outcome.ok === false) return describeGradingFailure(outcome);
+            setResult(prev => ({ ...outcome.result, fileName: prev?.fileName, sourcePages: prev?.sourcePages }));
+            return null;
+        } catch (err: any) {
+            console.error(err);
+            return `Terjadi kesalahan: ${err.message || 'Unknown error'}`;
+        }
+    };
+
+    /**
+     * Surat umpan balik mahasiswa: dibuat (ulang) oleh AI dari hasil saat ini.
+     */
+    const handleGenerateStudentFeedback = async (): Promise<string | null> => {
+        if (!result) return null;
+        const outcome = await writeStudentFeedback(result);
+        if (outcome.ok === false) return describeGradingFailure(outcome);
+        setResult(prev => (prev ? { ...prev, studentFeedback: outcome.letter } : prev));
+        return null;
+    };
+
     const handleResetAll = () => {
         setResult(null);
         setStudentFiles([]);
@@ -261,7 +336,7 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                     <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 space-y-1">
                                         <p className="text-blue-600 dark:text-blue-400 font-medium">Mode Individu: Semua file digabung jadi 1 jawaban.</p>
                                         <p>ZIP akan diekstrak dan isinya digabung (Flatten).</p>
-                                        <p>Format didukung: PDF, Word, Excel, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
+                                        <p>Format didukung: PDF, Word, Excel, PowerPoint, LibreOffice (ODT/ODS/ODP), RTF, TXT/MD, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file (PDF 50MB, dipecah per halaman; foto diperkecil otomatis).</span></p>
                                     </div>
                                 </>
                             ) : (
@@ -316,9 +391,7 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                                         {f.name}
                                                     </td>
                                                     <td className="px-3 py-1.5 text-xs text-right text-gray-500 dark:text-gray-400">
-                                                        <span className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600">
-                                                            {(f.size / 1024).toFixed(0)} KB
-                                                        </span>
+                                                        <FileSizeBadge file={f} className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded border border-gray-200 dark:border-gray-600" />
                                                     </td>
                                                 </tr>
                                             ))}
@@ -353,7 +426,7 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                                 </label>
                                                 <div className="mt-2 text-xs text-gray-400 dark:text-gray-500 space-y-1">
                                                     <p>Semua file (termasuk ZIP) akan digabung jadi satu referensi kunci.</p>
-                                                    <p>Format didukung: PDF, Word, Excel, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
+                                                    <p>Format didukung: PDF, Word, Excel, PowerPoint, LibreOffice (ODT/ODS/ODP), RTF, TXT/MD, Foto (JPG/PNG), atau ZIP. <span className="text-red-500 font-bold">Maks 10MB/file.</span></p>
                                                 </div>
                                             </>
                                         ) : (
@@ -419,6 +492,7 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                             </label>
                         </div>
                     </div>
+                    <RubricEditor rubric={rubric} onChange={setRubric} idPrefix="single" />
                 </div>
 
                 {isLoading ? (
@@ -463,7 +537,33 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                 </div>
                                 <div>
                                     <h3 className="font-bold text-gray-800 dark:text-gray-100 leading-tight">Hasil Analisis AI</h3>
-                                    <p className="text-xs text-gray-500 dark:text-gray-400">Skor / 100</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Skor / 100{result.preset && ` · Preset: ${result.preset.name} (v${result.preset.version})`}
+                                    </p>
+                                    {result.gradeMismatch && (
+                                        <p
+                                            className="text-[10px] font-bold text-orange-600 dark:text-orange-400"
+                                            title="Nilai akhir dihitung ulang dari skor per soal karena total usulan AI tidak konsisten."
+                                        >
+                                            ⚠️ Usulan AI: {result.aiProposedGrade}
+                                        </p>
+                                    )}
+                                    {result.consensus?.highDisagreement && (
+                                        <p
+                                            className="text-[10px] font-bold text-red-600 dark:text-red-400"
+                                            title={`Skor antar ${result.consensus.samples} sampel berbeda hingga ${result.consensus.maxSpread} poin.`}
+                                        >
+                                            ⚖ Sampel tidak sepakat (±{result.consensus.maxSpread})
+                                        </p>
+                                    )}
+                                    {result.fallbackFrom && (
+                                        <p
+                                            className="text-[10px] font-bold text-sky-600 dark:text-sky-400"
+                                            title={`Model utama ${result.fallbackFrom} terus menolak (kuota/server sibuk).`}
+                                        >
+                                            ↪ Dinilai model cadangan {result.model}
+                                        </p>
+                                    )}
                                 </div>
                             </div>
                             <button 
@@ -491,11 +591,25 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                 subStatus="Membaca dokumen, menganalisis jawaban, dan mencocokkan dengan kunci..."
                                 elapsedTime={elapsedTime}
                             />
+                            {partialFeedback.length > 0 && <LiveFeedbackList feedback={partialFeedback} />}
                         </div>
                     )}
                     {/* Rest of the component code (Result display) remains unchanged... */}
                     {result && (
                         <div className="space-y-6">
+                            {/* Peringatan Validasi Respons AI */}
+                            {result.validationWarnings && result.validationWarnings.length > 0 && (
+                                <div className="p-3 rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300">
+                                    <p className="font-bold mb-1">⚠️ Peringatan Validasi ({result.validationWarnings.length})</p>
+                                    <ul className="list-disc list-inside space-y-0.5">
+                                        {result.validationWarnings.map((w, i) => <li key={i}>{w}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {/* Temuan Integritas (upaya manipulasi penilai) */}
+                            {hasIntegrityFlags(result) && <IntegrityFlagList flags={result.integrityFlags!} />}
+
                             {/* Transkripsi OCR Global */}
                             {result.studentText && (
                                 <div className="bg-white dark:bg-gray-800 border border-blue-200 dark:border-gray-600 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow">
@@ -515,7 +629,12 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                             {showOcr ? 'Sembunyikan Teks' : 'Tampilkan Teks'}
                                         </span>
                                     </button>
-                                    {showOcr && (
+                                    {showOcr && result.transcript && (
+                                        <div className="p-5 bg-white dark:bg-gray-800 border-t border-blue-100 dark:border-gray-600">
+                                            <TranscriptEditor transcript={result.transcript} onRegrade={handleRegradeTranscript} />
+                                        </div>
+                                    )}
+                                    {showOcr && !result.transcript && (
                                         <div className="p-5 bg-white dark:bg-gray-800 border-t border-blue-100 dark:border-gray-600">
                                             <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded border border-yellow-100 dark:border-yellow-900/30">
                                                 <strong>Info:</strong> Ini adalah teks mentah yang diekstrak AI. Jika ada kesalahan penilaian, cek apakah tulisan di sini sesuai dengan dokumen asli.
@@ -539,6 +658,7 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                 <div className="space-y-6">
                                     {result.detailedFeedback.map((item, idx) => {
                                         const isEmptyAnswer = item.studentAnswer?.includes('[TIDAK DIKERJAKAN]');
+                                        const sourcePage = findSourcePage(result.sourcePages, item.page);
 
                                         return (
                                             <div 
@@ -552,7 +672,24 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                                             <span className="text-xs font-bold px-2 py-1 bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded uppercase tracking-wide">KOSONG</span>
                                                         ) : (
                                                             <span className={`text-xl font-bold ${getGradeColor(item.score)}`}>
-                                                                {item.score}/100
+                                                                {item.maxPoints !== undefined ? `${item.points ?? 0}/${item.maxPoints} poin` : `${item.score}/100`}
+                                                            </span>
+                                                        )}
+                                                        {item.consensus && (
+                                                            <span className={`block text-[10px] mt-1 ${item.consensus.spread > CONSENSUS_SPREAD_THRESHOLD ? 'font-bold text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                                                                Sampel: {item.consensus.scores.join(' · ')} (rentang {item.consensus.spread})
+                                                            </span>
+                                                        )}
+                                                        {(item.confidence !== undefined || (item.legibility && item.legibility !== 'clear')) && (
+                                                            <span className="flex justify-end gap-1.5 mt-1 text-[10px]">
+                                                                {item.legibility && item.legibility !== 'clear' && (
+                                                                    <span className="font-bold text-purple-700 dark:text-purple-300">{LEGIBILITY_LABELS[item.legibility]}</span>
+                                                                )}
+                                                                {item.confidence !== undefined && (
+                                                                    <span className={item.confidence < REVIEW_CONFIDENCE_THRESHOLD ? 'font-bold text-purple-700 dark:text-purple-300' : 'text-gray-500 dark:text-gray-400'}>
+                                                                        Keyakinan AI {item.confidence}%
+                                                                    </span>
+                                                                )}
                                                             </span>
                                                         )}
                                                     </div>
@@ -583,6 +720,16 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                                     <div className="mb-4">
                                                         <div className="flex justify-between items-center mb-1">
                                                             <span className="text-[10px] font-bold text-gray-500 dark:text-gray-400 uppercase tracking-widest">Jawaban Mahasiswa (Terbaca)</span>
+                                                            {sourcePage && (
+                                                                <button
+                                                                    onClick={() => setViewerPage(sourcePage)}
+                                                                    disabled={!findStudentFile(sourcePage)}
+                                                                    className="text-[10px] font-bold text-sky-700 dark:text-sky-300 bg-sky-50 dark:bg-sky-900/30 border border-sky-200 dark:border-sky-800 px-2 py-0.5 rounded hover:bg-sky-100 dark:hover:bg-sky-900/50 disabled:opacity-60 disabled:cursor-default transition-colors"
+                                                                    title={findStudentFile(sourcePage) ? 'Buka halaman ini di penampil PDF' : 'File asli sudah dihapus dari daftar unggahan.'}
+                                                                >
+                                                                    📄 Hal. {sourcePage.filePage} · {sourcePage.fileName}
+                                                                </button>
+                                                            )}
                                                             {!isEmptyAnswer && <span className="text-[10px] text-gray-400 dark:text-gray-500 bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded">Salinan Lengkap</span>}
                                                         </div>
                                                         {isEmptyAnswer ? (
@@ -602,6 +749,21 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                                     <span className="text-[10px] font-bold text-purple-600 dark:text-purple-400 uppercase tracking-widest mb-1 block">Analisis & Umpan Balik AI</span>
                                                     <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">{item.feedback}</p>
                                                 </div>
+
+                                                {/* Rincian Poin per Kriteria Rubrik */}
+                                                {item.criteriaScores && item.criteriaScores.length > 0 && (
+                                                    <div className="mt-4 pt-3 border-t border-gray-100 dark:border-gray-700">
+                                                        <span className="text-[10px] font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-widest mb-1 block">Poin per Kriteria</span>
+                                                        <ul className="space-y-1">
+                                                            {item.criteriaScores.map((cs, csIdx) => (
+                                                                <li key={csIdx} className="flex justify-between text-xs text-gray-700 dark:text-gray-300 bg-indigo-50 dark:bg-indigo-900/20 px-2 py-1 rounded">
+                                                                    <span>{cs.criterionName || cs.criterionId}{cs.level ? ` — ${cs.level}` : ''}</span>
+                                                                    <span className="font-mono font-bold">{cs.points}/{cs.maxPoints}</span>
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     })}
@@ -616,10 +778,22 @@ const SingleStudentGrader: React.FC<SingleStudentGraderProps> = ({ onDataDirty }
                                     {result.improvements}
                                 </p>
                             </div>
+
+                            <StudentFeedbackLetter
+                                letter={result.studentFeedback}
+                                onGenerate={handleGenerateStudentFeedback}
+                                onSave={(letter) => setResult(prev => (prev ? { ...prev, studentFeedback: letter || undefined } : prev))}
+                            />
+
+                            {result.provenance && <ProvenanceDetails provenance={result.provenance} />}
                         </div>
                     )}
                 </div>
             </div>
+
+            {viewerPage && findStudentFile(viewerPage) && (
+                <PdfPageViewer file={findStudentFile(viewerPage)!} page={viewerPage.filePage} onClose={() => setViewerPage(null)} />
+            )}
         </div>
     );
 };
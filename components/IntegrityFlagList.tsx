@@ -0,0 +1,41 @@
+import React from 'react';
+import { IntegrityFlag } from '../types';
+import { INTEGRITY_FLAG_LABELS } from '../utils/integrityUtils';
+
+interface IntegrityFlagListProps {
+    /** Temuan dari `GradeResult.integrityFlags`. */
+    flags: IntegrityFlag[];
+}
+
+const SOURCE_LABELS: Record<IntegrityFlag['source'], string> = {
+    'ai': 'Dilaporkan AI',
+    'pre-scan': 'Pemindaian Lokal',
+};
+
+/**
+ * @component IntegrityFlagList
+ * @description Daftar temuan upaya manipulasi penilai (prompt injection) beserta kutipan buktinya,
+ * agar dosen dapat memverifikasi langsung sebelum mengambil tindakan.
+ */
+const IntegrityFlagList: React.FC<IntegrityFlagListProps> = ({ flags }) => (
+    <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50/60 dark:bg-red-900/20 p-4">
+        <p className="font-bold text-red-900 dark:text-red-200 mb-1">🛡 Temuan Integritas ({flags.length})</p>
+        <p className="text-xs text-red-700 dark:text-red-300 mb-3">
+            Teks berikut tampak mencoba memanipulasi penilai. Periksa dokumen asli sebelum mengambil tindakan.
+        </p>
+        <ul className="space-y-2">
+            {flags.map((flag, idx) => (
+                <li key={idx} className="text-sm px-3 py-2 rounded-lg bg-white dark:bg-gray-800 border border-red-100 dark:border-red-900/40">
+                    <div className="flex flex-wrap items-center gap-2 mb-1 text-xs">
+                        <span className="font-bold text-red-700 dark:text-red-300">{INTEGRITY_FLAG_LABELS[flag.type]}</span>
+                        {flag.questionNumber && <span className="text-gray-600 dark:text-gray-300">Soal #{flag.questionNumber}</span>}
+                        <span className="text-gray-400 dark:text-gray-500">· {SOURCE_LABELS[flag.source]}</span>
+                    </div>
+                    <q className="block text-gray-800 dark:text-gray-200 font-mono text-xs whitespace-pre-wrap">{flag.evidence}</q>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+export default IntegrityFlagList;
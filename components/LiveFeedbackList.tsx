@@ -0,0 +1,60 @@
+import React from 'react';
+import { FeedbackDetail } from '../types';
+
+interface LiveFeedbackListProps {
+    /** Soal yang sudah lengkap dari respons streaming (hasil sementara, belum divalidasi penuh). */
+    feedback: FeedbackDetail[];
+    /** Tampilan ringkas (satu baris per soal) untuk daftar pekerjaan aktif Mode Kelas. */
+    compact?: boolean;
+}
+
+// Aturan Warna sama dengan kedua mode: Hijau >= 80, Kuning 60-79, Merah < 60
+const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-green-600 dark:text-green-400';
+    if (score >= 60) return 'text-yellow-600 dark:text-yellow-400';
+    return 'text-red-600 dark:text-red-400';
+};
+
+/**
+ * @component LiveFeedbackList
+ * @description Progres penilaian per soal selama respons AI masih mengalir (streaming).
+ * Dosen dapat melihat bacaan AI atas jawaban mahasiswa sejak soal pertama selesai,
+ * lalu membatalkan lebih awal jika OCR jelas keliru (misal foto terbalik atau berkas salah).
+ */
+const LiveFeedbackList: React.FC<LiveFeedbackListProps> = ({ feedback, compact = false }) => {
+    if (compact) {
+        return (
+            <ul className="space-y-0.5">
+                {feedback.map((item, idx) => (
+                    <li key={idx} className="flex gap-2 text-[10px] text-gray-600 dark:text-gray-300">
+                        <span className="font-bold whitespace-nowrap">#{item.questionNumber}</span>
+                        <span className={`font-bold ${getScoreColor(item.score)}`}>{item.score}</span>
+                        <span className="truncate italic" title={item.studentAnswer}>{item.studentAnswer || '-'}</span>
+                    </li>
+                ))}
+            </ul>
+        );
+    }
+
+    return (
+        <div className="w-full space-y-2 animate-fade-in">
+            <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                Hasil Sementara ({feedback.length} soal)
+            </p>
+            {feedback.map((item, idx) => (
+                <div key={idx} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 animate-fade-in">
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-black text-gray-700 dark:text-gray-200">Soal #{item.questionNumber}</span>
+                        <span className={`text-sm font-bold ${getScoreColor(item.score)}`}>{item.score}/100</span>
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-300 font-mono line-clamp-3 whitespace-pre-wrap">{item.studentAnswer || '-'}</p>
+                </div>
+            ))}
+            <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                Jika bacaan AI di atas jelas keliru, batalkan proses dan periksa dokumen mahasiswa.
+            </p>
+        </div>
+    );
+};
+
+export default LiveFeedbackList;
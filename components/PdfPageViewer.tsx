@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon } from './icons';
+
+interface PdfPageViewerProps {
+    /** File PDF asli yang diunggah (bukan hasil pemecahan per halaman). */
+    file: File;
+    /** Nomor halaman di dalam file (mulai 1). */
+    page: number;
+    onClose: () => void;
+}
+
+/**
+ * @component PdfPageViewer
+ * @description Menampilkan PDF mahasiswa langsung pada halaman yang dikutip `FeedbackDetail.page`,
+ * memakai penampil PDF bawaan browser (fragmen `#page=N`). File tidak dikirim ke mana pun.
+ */
+const PdfPageViewer: React.FC<PdfPageViewerProps> = ({ file, page, onClose }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    // Object URL dibuat per file dan dilepas saat viewer ditutup agar memori tidak bocor.
+    useEffect(() => {
+        const objectUrl = URL.createObjectURL(file);
+        setUrl(objectUrl);
+        return () => URL.revokeObjectURL(objectUrl);
+    }, [file]);
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white dark:bg-gray-800 w-full max-w-5xl h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden border border-gray-200 dark:border-gray-700 animate-scale-in">
+                <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 shrink-0">
+                    <div className="overflow-hidden">
+                        <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 truncate pr-4">📄 {file.name}</h3>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Halaman {page}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 transition-colors bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm"
+                    >
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                {url && (
+                    // `key` memaksa iframe dimuat ulang saat halaman berganti (fragmen saja tidak selalu memicu lompat halaman).
+                    <iframe key={`${url}#${page}`} src={`${url}#page=${page}`} title={`${file.name} halaman ${page}`} className="flex-1 w-full bg-gray-100 dark:bg-gray-900" />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PdfPageViewer;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { GradingPreset, PresetStrictness, PresetTone } from '../types';
+import { PRESET_STRICTNESS_LABELS, PRESET_TONE_LABELS, createPresetId, getPresetHistory, getPresets, savePresetVersion } from '../services/promptPresets';
+
+interface PresetEditorProps {
+    /** ID preset aktif (disimpan ke localStorage oleh SettingsModal saat tombol Simpan ditekan). */
+    activePresetId: string;
+    onActivePresetChange: (id: string) => void;
+}
+
+/**
+ * @component PresetEditor
+ * @description Pemilihan & penyuntingan preset prompt penilaian di menu Pengaturan.
+ * Setiap penyimpanan membuat VERSI BARU (versi lama tetap tersimpan) sehingga nilai yang sudah
+ * dihasilkan tetap merujuk ke instruksi yang benar-benar dipakai.
+ */
+const PresetEditor: React.FC<PresetEditorProps> = ({ activePresetId, onActivePresetChange }) => {
+    const [presets, setPresets] = useState<GradingPreset[]>(getPresets);
+    const [draft, setDraft] = useState<GradingPreset | null>(null);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+    const activePreset = presets.find(p => p.id === activePresetId) || presets[0];
+
+    // Draf mengikuti preset yang dipilih.
+    useEffect(() => {
+        setDraft(activePreset ? { ...activePreset } : null);
+    }, [activePreset?.id, activePreset?.version]);
+
+    if (!draft || !activePreset) return null;
+
+    const isDirty = draft.name !== activePreset.name
+        || draft.strictness !== activePreset.strictness
+        || draft.tone !== activePreset.tone
+        || draft.extraInstructions !== activePreset.extraInstructions;
+
+    const handleSaveVersion = () => {
+        const saved = savePresetVersion(draft);
+        setPresets(getPresets());
+        setSavedMessage(`Tersimpan sebagai versi ${saved.version}.`);
+    };
+
+    const handleCreate = () => {
+        const saved = savePresetVersion({
+            id: createPresetId(),
+            name: `${activePreset.name} (Salinan)`,
+            strictness: draft.strictness,
+            tone: draft.tone,
+            extraInstructions: draft.extraInstructions,
+        });
+        setPresets(getPresets());
+        onActivePresetChange(saved.id);
+    };
+
+    const inputClass = "w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm";
+    const history = getPresetHistory(activePreset.id);
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2">
+                <select
+                    value={activePreset.id}
+                    onChange={(e) => { setSavedMessage(null); onActivePresetChange(e.target.value); }}
+                    className={inputClass}
+                >
+                    {presets.map(p => (
+                        <option key={p.id} value={p.id}>{p.name} (v{p.version})</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleCreate}
+                    className="px-3 text-xs font-medium text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/30 rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/50 whitespace-nowrap"
+                    title="Buat preset baru dari isi preset ini"
+                >
+                    + Salin
+                </button>
+            </div>
+
+            <div className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 space-y-2">
+                <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClass}
+                    placeholder="Nama preset"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                        Ketegasan
+                        <select
+                            value={draft.strictness}
+                            onChange={(e) => setDraft({ ...draft, strictness: e.target.value as PresetStrictness })}
+                            className={`${inputClass} mt-1`}
+                        >
+                            {(Object.keys(PRESET_STRICTNESS_LABELS) as PresetStrictness[]).map(key => (
+                                <option key={key} value={key}>{PRESET_STRICTNESS_LABELS[key]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                        Nada Umpan Balik
+                        <select
+                            value={draft.tone}
+                            onChange={(e) => setDraft({ ...draft, tone: e.target.value as PresetTone })}
+                            className={`${inputClass} mt-1`}
+                        >
+                            {(Object.keys(PRESET_TONE_LABELS) as PresetTone[]).map(key => (
+                                <option key={key} value={key}>{PRESET_TONE_LABELS[key]}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+                <textarea
+                    rows={4}
+                    value={draft.extraInstructions}
+                    onChange={(e) => setDraft({ ...draft, extraInstructions: e.target.value })}
+                    className={`${inputClass} resize-y text-xs`}
+                    placeholder="Instruksi tambahan (opsional), misal: abaikan kesalahan ejaan, wajib menyertakan satuan..."
+                />
+                <div className="flex justify-between items-center">
+                    <span className="text-[11px] text-gray-500 dark:text-gray-400">
+                        Versi {activePreset.version}
+                        {history.length > 1 && ` · ${history.length} versi tersimpan`}
+                        {activePreset.savedAt && ` · ${new Date(activePreset.savedAt).toLocaleString('id-ID')}`}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setDraft({ ...activePreset })}
+                            disabled={!isDirty}
+                            className="px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Batal
+                        </button>
+                        <button
+                            onClick={handleSaveVersion}
+                            disabled={!isDirty}
+                            className="px-2 py-1 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Simpan Versi Baru
+                        </button>
+                    </div>
+                </div>
+                {savedMessage && <p className="text-[11px] text-green-600 dark:text-green-400">{savedMessage}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default PresetEditor;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { GradeProvenance } from '../types';
+import { describeProvenance } from '../utils/provenanceUtils';
+
+interface ProvenanceDetailsProps {
+    /** Dari `GradeResult.provenance`. */
+    provenance: GradeProvenance;
+}
+
+/**
+ * @component ProvenanceDetails
+ * @description Metadata penilaian yang dapat dibuka-tutup (model, preset, waktu, percobaan, latensi,
+ * token, hash kunci jawaban), sebagai rujukan bila mahasiswa mengajukan keberatan nilai.
+ */
+const ProvenanceDetails: React.FC<ProvenanceDetailsProps> = ({ provenance }) => (
+    <details className="rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 p-4 text-sm">
+        <summary className="cursor-pointer font-bold text-gray-700 dark:text-gray-300">🧾 Metadata Penilaian</summary>
+        <dl className="mt-3 grid grid-cols-1 sm:grid-cols-[14rem_1fr] gap-x-4 gap-y-1.5">
+            {describeProvenance(provenance).map(field => (
+                <React.Fragment key={field.label}>
+                    <dt className="text-xs text-gray-500 dark:text-gray-400">{field.label}</dt>
+                    <dd className="text-xs font-mono text-gray-800 dark:text-gray-200 break-all">{field.value}</dd>
+                </React.Fragment>
+            ))}
+        </dl>
+    </details>
+);
+
+export default ProvenanceDetails;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Rubric, RubricCriterion, RubricLevel, RubricQuestion } from '../types';
+import { createRubricCriterion, getCriterionMaxPoints, getRubricTotalPoints } from '../utils/rubricUtils';
+
+interface RubricEditorProps {
+    /** Rubrik aktif. `null` berarti penilaian tanpa rubrik (skala 0-100 per soal). */
+    rubric: Rubric | null;
+    onChange: (rubric: Rubric | null) => void;
+    /** Prefix id elemen agar unik jika editor dipakai di dua mode sekaligus. */
+    idPrefix: string;
+}
+
+/**
+ * @component RubricEditor
+ * @description Editor rubrik terstruktur (opsional) untuk Langkah 2.
+ * Dosen menentukan poin maksimal per soal (misal "Soal 1 (20 poin)"), kriteria berbobot,
+ * serta deskriptor level untuk setiap kriteria. Rubrik ini dikirim ke `gradeAnswer`.
+ */
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onChange, idPrefix }) => {
+    const [expandedQuestion, setExpandedQuestion] = useState<number | null>(0);
+
+    const handleToggle = (enabled: boolean) => {
+        if (enabled) {
+            onChange({ questions: [{ questionNumber: '1', maxPoints: 20, criteria: [] }] });
+            setExpandedQuestion(0);
+        } else {
+            onChange(null);
+        }
+    };
+
+    if (!rubric) {
+        return (
+            <div className="flex items-center pt-3">
+                <input
+                    id={`${idPrefix}-use-rubric`}
+                    type="checkbox"
+                    checked={false}
+                    onChange={(e) => handleToggle(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 dark:text-blue-400 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                />
+                <label htmlFor={`${idPrefix}-use-rubric`} className="ml-2 block text-sm text-gray-600 dark:text-gray-400">
+                    Gunakan rubrik terstruktur (poin per soal & kriteria berbobot)
+                </label>
+            </div>
+        );
+    }
+
+    const updateQuestion = (qIdx: number, patch: Partial<RubricQuestion>) => {
+        onChange({
+            questions: rubric.questions.map((q, i) => (i === qIdx ? { ...q, ...patch } : q)),
+        });
+    };
+
+    const updateCriterion = (qIdx: number, cIdx: number, patch: Partial<RubricCriterion>) => {
+        const question = rubric.questions[qIdx];
+        updateQuestion(qIdx, {
+            criteria: question.criteria.map((c, i) => (i === cIdx ? { ...c, ...patch } : c)),
+        });
+    };
+
+    const updateLevel = (qIdx: number, cIdx: number, lIdx: number, patch: Partial<RubricLevel>) => {
+        const criterion = rubric.questions[qIdx].criteria[cIdx];
+        updateCriterion(qIdx, cIdx, {
+            levels: criterion.levels.map((l, i) => (i === lIdx ? { ...l, ...patch } : l)),
+        });
+    };
+
+    const addQuestion = () => {
+        const nextNumber = String(rubric.questions.length + 1);
+        onChange({ questions: [...rubric.questions, { questionNumber: nextNumber, maxPoints: 10, criteria: [] }] });
+        setExpandedQuestion(rubric.questions.length);
+    };
+
+    const removeQuestion = (qIdx: number) => {
+        const questions = rubric.questions.filter((_, i) => i !== qIdx);
+        onChange(questions.length > 0 ? { questions } : null);
+        setExpandedQuestion(null);
+    };
+
+    const addCriterion = (qIdx: number) => {
+        const question = rubric.questions[qIdx];
+        updateQuestion(qIdx, { criteria: [...question.criteria, createRubricCriterion(question)] });
+    };
+
+    const removeCriterion = (qIdx: number, cIdx: number) => {
+        const question = rubric.questions[qIdx];
+        updateQuestion(qIdx, { criteria: question.criteria.filter((_, i) => i !== cIdx) });
+    };
+
+    const inputClass = "p-1.5 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500";
+
+    return (
+        <div className="mt-3 rounded-lg border border-indigo-200 dark:border-indigo-800 bg-indigo-50/40 dark:bg-indigo-900/10 p-3 animate-fade-in">
+            <div className="flex justify-between items-center mb-3">
+                <span className="text-sm font-bold text-indigo-800 dark:text-indigo-300">
+                    📐 Rubrik Penilaian <span className="font-normal text-xs">(Total {getRubricTotalPoints(rubric)} poin)</span>
+                </span>
+                <button
+                    onClick={() => handleToggle(false)}
+                    className="text-xs font-medium text-red-600 dark:text-red-300 hover:underline"
+                >
+                    Nonaktifkan
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                {rubric.questions.map((question, qIdx) => (
+                    <div key={qIdx} className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                        <div className="flex items-center gap-2 p-2">
+                            <button
+                                onClick={() => setExpandedQuestion(expandedQuestion === qIdx ? null : qIdx)}
+                                className={`text-[10px] text-gray-400 transform transition-transform ${expandedQuestion === qIdx ? 'rotate-90' : ''}`}
+                            >
+                                ▶
+                            </button>
+                            <span className="text-xs font-bold text-gray-600 dark:text-gray-300">Soal</span>
+                            <input
+                                type="text"
+                                value={question.questionNumber}
+                                onChange={(e) => updateQuestion(qIdx, { questionNumber: e.target.value })}
+                                className={`${inputClass} w-14`}
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                value={question.maxPoints}
+                                onChange={(e) => updateQuestion(qIdx, { maxPoints: Math.max(0, Number(e.target.value) || 0) })}
+                                className={`${inputClass} w-16`}
+                            />
+                            <span className="text-xs text-gray-500 dark:text-gray-400">poin</span>
+                            <span className="text-[10px] text-gray-400 ml-auto">{question.criteria.length} kriteria</span>
+                            <button
+                                onClick={() => removeQuestion(qIdx)}
+                                className="text-xs text-red-500 hover:text-red-700 font-bold px-1"
+                                title="Hapus soal"
+                            >
+                                &times;
+                            </button>
+                        </div>
+
+                        {expandedQuestion === qIdx && (
+                            <div className="border-t border-gray-100 dark:border-gray-700 p-2 space-y-3">
+                                {question.criteria.length === 0 && (
+                                    <p className="text-[11px] text-gray-500 dark:text-gray-400 italic">
+                                        Tanpa kriteria: soal dinilai holistik pada skala {question.maxPoints} poin.
+                                    </p>
+                                )}
+                                {question.criteria.map((criterion, cIdx) => (
+                                    <div key={criterion.id} className="rounded border border-gray-200 dark:border-gray-700 p-2 bg-gray-50 dark:bg-gray-900/40">
+                                        <div className="flex items-center gap-2 mb-2">
+                                            <input
+                                                type="text"
+                                                value={criterion.name}
+                                                onChange={(e) => updateCriterion(qIdx, cIdx, { name: e.target.value })}
+                                                className={`${inputClass} flex-1`}
+                                                placeholder="Nama kriteria"
+                                            />
+                                            <span className="text-[10px] text-gray-500 dark:text-gray-400">Bobot</span>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={criterion.weight}
+                                                onChange={(e) => updateCriterion(qIdx, cIdx, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                                                className={`${inputClass} w-14`}
+                                            />
+                                            <span className="text-[10px] font-mono text-indigo-600 dark:text-indigo-400 w-16 text-right">
+                                                = {getCriterionMaxPoints(question, criterion)} poin
+                                            </span>
+                                            <button
+                                                onClick={() => removeCriterion(qIdx, cIdx)}
+                                                className="text-xs text-red-500 hover:text-red-700 font-bold px-1"
+                                                title="Hapus kriteria"
+                                            >
+                                                &times;
+                                            </button>
+                                        </div>
+                                        <div className="space-y-1">
+                                            {criterion.levels.map((level, lIdx) => (
+                                                <div key={lIdx} className="flex items-center gap-1">
+                                                    <input
+                                                        type="text"
+                                                        value={level.label}
+                                                        onChange={(e) => updateLevel(qIdx, cIdx, lIdx, { label: e.target.value })}
+                                                        className={`${inputClass} w-24`}
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min={0}
+                                                        max={100}
+                                                        value={level.percent}
+                                                        onChange={(e) => updateLevel(qIdx, cIdx, lIdx, { percent: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+                                                        className={`${inputClass} w-14`}
+                                                    />
+                                                    <span className="text-[10px] text-gray-400">%</span>
+                                                    <input
+                                                        type="text"
+                                                        value={level.description}
+                                                        onChange={(e) => updateLevel(qIdx, cIdx, lIdx, { description: e.target.value })}
+                                                        className={`${inputClass} flex-1`}
+                                                        placeholder="Deskriptor level"
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={() => addCriterion(qIdx)}
+                                    className="text-xs font-medium text-indigo-600 dark:text-indigo-300 hover:underline"
+                                >
+                                    + Tambah Kriteria
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={addQuestion}
+                className="mt-3 w-full text-xs font-medium text-indigo-700 dark:text-indigo-300 bg-indigo-100 dark:bg-indigo-900/40 px-3 py-1.5 rounded hover:bg-indigo-200 dark:hover:bg-indigo-900/60 transition-colors"
+            >
+                + Tambah Soal
+            </button>
+            <p className="mt-2 text-[10px] text-gray-500 dark:text-gray-400">
+                Nomor soal harus sama dengan penomoran di kunci jawaban. Poin kriteria dihitung otomatis dari bobot.
+            </p>
+        </div>
+    );
+};
+
+export default RubricEditor;
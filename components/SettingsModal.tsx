@@ -2,6 +2,13 @@
 import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { XIcon, CheckIcon } from './icons';
+import { PROVIDER_STORAGE_KEY, PIPELINE_STORAGE_KEY, CONSENSUS_SAMPLES_STORAGE_KEY, CONSENSUS_MODELS_STORAGE_KEY, FALLBACK_MODELS_STORAGE_KEY, STUDENT_FEEDBACK_STORAGE_KEY, MAX_CONSENSUS_SAMPLES, GradingPipelineMode, GradingProviderId, getFallbackModels, getPipelineMode, getSelectedProviderId, isStudentFeedbackEnabled } from '../services/gradingProvider';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../services/openaiCompatibleService';
+import { getDefaultRateLimit, getRateLimit, saveRateLimit } from '../services/rateLimiter';
+import { ModelPrice } from '../services/costEstimator';
+import { ACTIVE_PRESET_STORAGE_KEY, getActivePreset } from '../services/promptPresets';
+import { IMAGE_PREPROCESS_STORAGE_KEY, ImagePreprocessSettings, DEFAULT_IMAGE_PREPROCESS_SETTINGS, getImagePreprocessSettings } from '../utils/imageUtils';
+import PresetEditor from './PresetEditor';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -26,20 +33,67 @@ export const AVAILABLE_MODELS = [
     }
 ];
 
+/**
+ * Harga per 1 juta token (USD, tarif berbayar standar Gemini API) untuk estimasi biaya Mode Kelas.
+ * Perbarui tabel ini bersama `AVAILABLE_MODELS` jika Google mengubah harga.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro-preview': { inputPerMillion: 2.0, outputPerMillion: 12.0 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+};
+
+export const AVAILABLE_PROVIDERS: { id: GradingProviderId; name: string; desc: string }[] = [
+    {
+        id: 'gemini',
+        name: 'Google Gemini',
+        desc: 'Layanan cloud Google. Akurasi OCR tulisan tangan terbaik.'
+    },
+    {
+        id: 'openai',
+        name: 'Server Lokal (OpenAI-Compatible)',
+        desc: 'Ollama, vLLM, atau server kampus lain. Data mahasiswa tidak dikirim ke Google.'
+    },
+    {
+        id: 'mock',
+        name: 'Mode Demo (Offline)',
+        desc: 'Penilai tiruan lokal tanpa API Key dan tanpa internet. Nilai BUKAN hasil analisis AI.'
+    }
+];
+
 /**
  * @component SettingsModal
  * @description Modal konfigurasi pengguna untuk mengelola preferensi API Key dan Model AI.
  * 
  * FUNGSI UTAMA:
  * 1. Manajemen API Key (BYOK): Menyimpan kunci pengguna di LocalStorage.
- * 2. Pemilihan Model: Mengizinkan pengguna beralih antara model sesuai kebutuhan.
- * 3. Kontrol Konkurensi (Advanced): Pengaturan batas worker pool.
+ * 2. Pemilihan Provider: Gemini, server OpenAI-compatible (Ollama/vLLM), atau Mode Demo offline.
+ * 3. Pemilihan Model: Mengizinkan pengguna beralih antara model sesuai kebutuhan.
+ * 4. Kontrol Konkurensi (Advanced): Pengaturan batas worker pool.
+ * 5. Batas Laju (Advanced): RPM/TPM model aktif untuk rate limiter bersama (services/rateLimiter.ts).
+ * 6. Preset Prompt Penilaian: ketegasan, nada, dan instruksi tambahan berversi (services/promptPresets.ts).
+ * 7. Surat Umpan Balik Mahasiswa: pembuatan otomatis surat orang kedua setelah setiap penilaian.
+ * 8. Model Cadangan: urutan model pengganti jika model utama terus menolak (429/503).
+ * 9. Praproses Gambar (Advanced): ukuran, kualitas JPEG, grayscale & kontras foto jawaban (utils/imageUtils.ts).
  */
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
     const [apiKey, setApiKey] = useState('');
     const [selectedModel, setSelectedModel] = useState('gemini-3-pro-preview');
     const [concurrencyLimit, setConcurrencyLimit] = useState<number>(2);
     const [showAdvanced, setShowAdvanced] = useState(false);
+    const [provider, setProvider] = useState<GradingProviderId>('gemini');
+    const [openaiBaseUrl, setOpenaiBaseUrl] = useState('');
+    const [openaiApiKey, setOpenaiApiKey] = useState('');
+    const [openaiModel, setOpenaiModel] = useState('');
+    const [rpmLimit, setRpmLimit] = useState<number>(0);
+    const [tpmLimit, setTpmLimit] = useState<number>(0);
+    const [pipelineMode, setPipelineMode] = useState<GradingPipelineMode>('single');
+    const [consensusSamples, setConsensusSamples] = useState<number>(1);
+    const [consensusModels, setConsensusModels] = useState<string[]>([]);
+    const [fallbackModels, setFallbackModels] = useState<string[]>([]);
+    const [activePresetId, setActivePresetId] = useState<string>('');
+    const [studentFeedbackEnabled, setStudentFeedbackEnabled] = useState(false);
+    const [imagePreprocess, setImagePreprocess] = useState<ImagePreprocessSettings>(DEFAULT_IMAGE_PREPROCESS_SETTINGS);
     
     const [isSaved, setIsSaved] = useState(false);
 
@@ -52,11 +106,37 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             setApiKey(savedKey);
             setSelectedModel(savedModel);
             setConcurrencyLimit(savedConcurrency);
+            setProvider(getSelectedProviderId());
+            setPipelineMode(getPipelineMode());
+            setActivePresetId(getActivePreset().id);
+            setStudentFeedbackEnabled(isStudentFeedbackEnabled());
+            setConsensusSamples(parseInt(localStorage.getItem(CONSENSUS_SAMPLES_STORAGE_KEY) || '1', 10) || 1);
+            try {
+                const savedModels = JSON.parse(localStorage.getItem(CONSENSUS_MODELS_STORAGE_KEY) || '[]');
+                setConsensusModels(Array.isArray(savedModels) ? savedModels : []);
+            } catch {
+                setConsensusModels([]);
+            }
+            setFallbackModels(getFallbackModels());
+            setImagePreprocess(getImagePreprocessSettings());
+            setOpenaiBaseUrl(localStorage.getItem('USER_OPENAI_BASE_URL') || DEFAULT_OPENAI_BASE_URL);
+            setOpenaiApiKey(localStorage.getItem('USER_OPENAI_API_KEY') || '');
+            setOpenaiModel(localStorage.getItem('USER_OPENAI_MODEL') || DEFAULT_OPENAI_MODEL);
             setIsSaved(false);
             setShowAdvanced(false);
         }
     }, [isOpen]);
 
+    // Batas laju berlaku per model: muat ulang saat model aktif berganti.
+    const rateLimitModel = provider === 'openai' ? (openaiModel.trim() || DEFAULT_OPENAI_MODEL) : selectedModel;
+    useEffect(() => {
+        if (isOpen) {
+            const limit = getRateLimit(rateLimitModel);
+            setRpmLimit(limit.rpm);
+            setTpmLimit(limit.tpm);
+        }
+    }, [isOpen, rateLimitModel]);
+
     const handleSave = () => {
         if (apiKey.trim()) {
             localStorage.setItem('USER_GEMINI_API_KEY', apiKey.trim());
@@ -66,6 +146,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         
         localStorage.setItem('USER_GEMINI_MODEL', selectedModel);
         localStorage.setItem('USER_CONCURRENCY_LIMIT', concurrencyLimit.toString());
+        localStorage.setItem(PROVIDER_STORAGE_KEY, provider);
+        localStorage.setItem(PIPELINE_STORAGE_KEY, pipelineMode);
+        localStorage.setItem(ACTIVE_PRESET_STORAGE_KEY, activePresetId);
+        localStorage.setItem(STUDENT_FEEDBACK_STORAGE_KEY, String(studentFeedbackEnabled));
+        localStorage.setItem(CONSENSUS_SAMPLES_STORAGE_KEY, consensusSamples.toString());
+        localStorage.setItem(CONSENSUS_MODELS_STORAGE_KEY, JSON.stringify(consensusModels));
+        localStorage.setItem(FALLBACK_MODELS_STORAGE_KEY, JSON.stringify(fallbackModels.filter(m => m !== selectedModel)));
+        localStorage.setItem(IMAGE_PREPROCESS_STORAGE_KEY, JSON.stringify({
+            ...imagePreprocess,
+            maxLongEdge: Math.min(8192, Math.max(512, imagePreprocess.maxLongEdge || DEFAULT_IMAGE_PREPROCESS_SETTINGS.maxLongEdge)),
+        }));
+        if (provider !== 'mock') {
+            saveRateLimit(rateLimitModel, { rpm: rpmLimit, tpm: tpmLimit });
+        }
+
+        localStorage.setItem('USER_OPENAI_BASE_URL', openaiBaseUrl.trim() || DEFAULT_OPENAI_BASE_URL);
+        localStorage.setItem('USER_OPENAI_MODEL', openaiModel.trim() || DEFAULT_OPENAI_MODEL);
+        if (openaiApiKey.trim()) {
+            localStorage.setItem('USER_OPENAI_API_KEY', openaiApiKey.trim());
+        } else {
+            localStorage.removeItem('USER_OPENAI_API_KEY');
+        }
         
         setIsSaved(true);
         setTimeout(() => {
@@ -79,6 +181,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
         localStorage.removeItem('USER_GEMINI_API_KEY');
     };
 
+    const toggleConsensusModel = (modelId: string, enabled: boolean) => {
+        setConsensusModels(prev => enabled ? [...prev, modelId] : prev.filter(m => m !== modelId));
+    };
+
+    // Menggeser model cadangan satu posisi ke atas (-1) atau ke bawah (+1) dalam urutan.
+    const moveFallbackModel = (index: number, direction: -1 | 1) => {
+        setFallbackModels(prev => {
+            const target = index + direction;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
     if (!isOpen) return null;
 
     const showConcurrencyWarning = !apiKey && concurrencyLimit > 2;
@@ -100,73 +217,203 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                 {/* Content */}
                 <div className="p-6 space-y-6 overflow-y-auto max-h-[70vh] custom-scrollbar">
                     
-                    {/* API Key Section */}
+                    {/* Provider Selection Section */}
                     <div>
                         <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
-                            Gemini API Key (Opsional)
+                            Penyedia AI (Provider)
                         </label>
-                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 leading-relaxed">
-                            Gunakan API Key pribadi untuk melewati batasan kuota server default dan meningkatkan stabilitas.
+                        <select
+                            value={provider}
+                            onChange={(e) => setProvider(e.target.value as GradingProviderId)}
+                            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all text-sm"
+                        >
+                            {AVAILABLE_PROVIDERS.map((p) => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 leading-relaxed">
+                            {AVAILABLE_PROVIDERS.find(p => p.id === provider)?.desc}
                         </p>
-                        <div className="relative">
-                            <input
-                                type="password"
-                                value={apiKey}
-                                onChange={(e) => setApiKey(e.target.value)}
-                                placeholder="Tempel API Key (AIza...)"
-                                className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
-                            />
-                            {apiKey && (
-                                <button 
-                                    onClick={handleClearKey}
-                                    className="absolute right-3 top-3 text-xs text-red-500 hover:text-red-700 font-bold"
-                                >
-                                    Hapus
-                                </button>
-                            )}
-                        </div>
-                        <div className="mt-2 text-right">
-                            <a 
-                                href="https://aistudio.google.com/app/apikey" 
-                                target="_blank" 
-                                rel="noreferrer"
-                                className="text-xs text-blue-600 dark:text-blue-400 underline hover:text-blue-800"
-                            >
-                                Dapatkan API Key &rarr;
-                            </a>
-                        </div>
                     </div>
 
-                    {/* Model Selection Section */}
+                    {provider === 'openai' && (
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                                    Base URL Server
+                                </label>
+                                <input
+                                    type="text"
+                                    value={openaiBaseUrl}
+                                    onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                                    placeholder={DEFAULT_OPENAI_BASE_URL}
+                                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 leading-relaxed">
+                                    Alamat endpoint yang menyediakan <code>/chat/completions</code>. Pastikan server mengizinkan CORS dari aplikasi ini.
+                                </p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                                    Nama Model
+                                </label>
+                                <input
+                                    type="text"
+                                    value={openaiModel}
+                                    onChange={(e) => setOpenaiModel(e.target.value)}
+                                    placeholder={DEFAULT_OPENAI_MODEL}
+                                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 leading-relaxed">
+                                    Gunakan model vision (misal <code>llama3.2-vision</code>) agar foto jawaban tulisan tangan dapat dibaca.
+                                </p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                                    API Key Server (Opsional)
+                                </label>
+                                <input
+                                    type="password"
+                                    value={openaiApiKey}
+                                    onChange={(e) => setOpenaiApiKey(e.target.value)}
+                                    placeholder="Kosongkan untuk Ollama lokal"
+                                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {provider === 'gemini' && (
+                        <>
+                            {/* API Key Section */}
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                                    Gemini API Key (Opsional)
+                                </label>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 leading-relaxed">
+                                    Gunakan API Key pribadi untuk melewati batasan kuota server default dan meningkatkan stabilitas.
+                                </p>
+                                <div className="relative">
+                                    <input
+                                        type="password"
+                                        value={apiKey}
+                                        onChange={(e) => setApiKey(e.target.value)}
+                                        placeholder="Tempel API Key (AIza...)"
+                                        className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all font-mono text-sm"
+                                    />
+                                    {apiKey && (
+                                        <button 
+                                            onClick={handleClearKey}
+                                            className="absolute right-3 top-3 text-xs text-red-500 hover:text-red-700 font-bold"
+                                        >
+                                            Hapus
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="mt-2 text-right">
+                                    <a 
+                                        href="https://aistudio.google.com/app/apikey" 
+                                        target="_blank" 
+                                        rel="noreferrer"
+                                        className="text-xs text-blue-600 dark:text-blue-400 underline hover:text-blue-800"
+                                    >
+                                        Dapatkan API Key &rarr;
+                                    </a>
+                                </div>
+                            </div>
+
+                            {/* Model Selection Section */}
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
+                                    Pilih Model AI
+                                </label>
+                                <div className="space-y-3">
+                                    {AVAILABLE_MODELS.map((model) => (
+                                        <label 
+                                            key={model.id}
+                                            className={`flex items-start p-3 border rounded-xl cursor-pointer transition-all ${selectedModel === model.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                                        >
+                                            <input 
+                                                type="radio" 
+                                                name="ai_model"
+                                                value={model.id}
+                                                checked={selectedModel === model.id}
+                                                onChange={(e) => setSelectedModel(e.target.value)}
+                                                className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                                            />
+                                            <div className="ml-3">
+                                                <span className={`block text-sm font-bold ${selectedModel === model.id ? 'text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300'}`}>
+                                                    {model.name}
+                                                </span>
+                                                <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1 leading-relaxed">
+                                                    {model.desc}
+                                                </span>
+                                            </div>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Model Cadangan */}
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">
+                                    Model Cadangan
+                                </label>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 leading-relaxed">
+                                    Jika model utama terus menolak (kuota habis / server sibuk) hingga batas percobaan ulang, penilaian dilanjutkan dengan model berikut sesuai urutan. Mahasiswa yang dinilai model cadangan ditandai di tabel hasil.
+                                </p>
+                                {fallbackModels.filter(m => m !== selectedModel).length > 0 && (
+                                    <ol className="space-y-2 mb-3">
+                                        {fallbackModels.map((modelId, index) => modelId === selectedModel ? null : (
+                                            <li key={modelId} className="flex items-center gap-2 p-2 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                                                <span className="font-mono text-xs text-gray-400 w-5 text-right">{index + 1}.</span>
+                                                <span className="flex-1">{AVAILABLE_MODELS.find(m => m.id === modelId)?.name || modelId}</span>
+                                                <button type="button" onClick={() => moveFallbackModel(index, -1)} disabled={index === 0} className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30" title="Naikkan">↑</button>
+                                                <button type="button" onClick={() => moveFallbackModel(index, 1)} disabled={index === fallbackModels.length - 1} className="px-2 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30" title="Turunkan">↓</button>
+                                                <button type="button" onClick={() => setFallbackModels(prev => prev.filter(m => m !== modelId))} className="px-2 py-0.5 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="Hapus">✕</button>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                                {AVAILABLE_MODELS.some(m => m.id !== selectedModel && !fallbackModels.includes(m.id)) && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => e.target.value && setFallbackModels(prev => [...prev, e.target.value])}
+                                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm"
+                                    >
+                                        <option value="">+ Tambah model cadangan...</option>
+                                        {AVAILABLE_MODELS.filter(m => m.id !== selectedModel && !fallbackModels.includes(m.id)).map(model => (
+                                            <option key={model.id} value={model.id}>{model.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {/* Preset Prompt Penilaian */}
                     <div>
                         <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-2">
-                            Pilih Model AI
+                            Preset Prompt Penilaian
+                        </label>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-3 leading-relaxed">
+                            Mengatur ketegasan, nada umpan balik, dan instruksi tambahan untuk AI. Preset & versinya dicatat pada setiap hasil penilaian.
+                        </p>
+                        <PresetEditor activePresetId={activePresetId} onActivePresetChange={setActivePresetId} />
+                        <label className="flex items-start gap-2 cursor-pointer mt-4">
+                            <input
+                                type="checkbox"
+                                checked={studentFeedbackEnabled}
+                                onChange={(e) => setStudentFeedbackEnabled(e.target.checked)}
+                                className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                            />
+                            <span>
+                                <span className="block text-sm font-bold text-gray-700 dark:text-gray-300">Buat Surat Umpan Balik Mahasiswa Otomatis</span>
+                                <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                    Setelah dinilai, AI menulis surat yang menyapa mahasiswa langsung ("Anda") dari hasil penilaian, dan surat ikut diekspor ke Excel. Memakai satu request tambahan per mahasiswa.
+                                </span>
+                            </span>
                         </label>
-                        <div className="space-y-3">
-                            {AVAILABLE_MODELS.map((model) => (
-                                <label 
-                                    key={model.id}
-                                    className={`flex items-start p-3 border rounded-xl cursor-pointer transition-all ${selectedModel === model.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 ring-1 ring-blue-500' : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'}`}
-                                >
-                                    <input 
-                                        type="radio" 
-                                        name="ai_model"
-                                        value={model.id}
-                                        checked={selectedModel === model.id}
-                                        onChange={(e) => setSelectedModel(e.target.value)}
-                                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
-                                    />
-                                    <div className="ml-3">
-                                        <span className={`block text-sm font-bold ${selectedModel === model.id ? 'text-blue-700 dark:text-blue-300' : 'text-gray-700 dark:text-gray-300'}`}>
-                                            {model.name}
-                                        </span>
-                                        <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1 leading-relaxed">
-                                            {model.desc}
-                                        </span>
-                                    </div>
-                                </label>
-                            ))}
-                        </div>
                     </div>
 
                     {/* Advanced Settings Toggle */}
@@ -207,6 +454,159 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
                                         <strong>⚠️ Peringatan:</strong> Konkurensi &gt; 2 berisiko menyebabkan error "Too Many Requests" pada akun gratis.
                                     </div>
                                 )}
+
+                                <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
+                                    <label className="flex items-start gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={pipelineMode === 'two-pass'}
+                                            onChange={(e) => setPipelineMode(e.target.checked ? 'two-pass' : 'single')}
+                                            className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                                        />
+                                        <span>
+                                            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300">Penilaian Dua Tahap (Transkripsi &rarr; Penilaian)</span>
+                                            <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                                AI menyalin jawaban per halaman terlebih dahulu, lalu menilai dari teks tersebut. Transkrip dapat dikoreksi dan dinilai ulang tanpa OCR ulang. Memakai dua request per mahasiswa.
+                                            </span>
+                                        </span>
+                                    </label>
+                                </div>
+
+                                <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
+                                    <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">
+                                        Penilaian Konsensus
+                                    </label>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-xs text-gray-500 dark:text-gray-400">Nilai setiap mahasiswa</span>
+                                        <select
+                                            value={consensusSamples}
+                                            onChange={(e) => setConsensusSamples(parseInt(e.target.value, 10))}
+                                            disabled={provider === 'gemini' && consensusModels.length >= 2}
+                                            className="p-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm disabled:opacity-50"
+                                        >
+                                            {Array.from({ length: MAX_CONSENSUS_SAMPLES }, (_, i) => i + 1).map(n => (
+                                                <option key={n} value={n}>{n === 1 ? '1x (nonaktif)' : `${n}x`}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {provider === 'gemini' && (
+                                        <div className="mt-3 space-y-1">
+                                            <span className="block text-xs text-gray-500 dark:text-gray-400">Atau satu sampel per model (pilih minimal 2):</span>
+                                            {AVAILABLE_MODELS.map(model => (
+                                                <label key={model.id} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={consensusModels.includes(model.id)}
+                                                        onChange={(e) => toggleConsensusModel(model.id, e.target.checked)}
+                                                        className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                                                    />
+                                                    {model.name}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                        Skor per soal diambil dari median semua sampel; mahasiswa dengan selisih skor besar ditandai untuk ditinjau. Biaya & kuota berlipat sesuai jumlah sampel.
+                                    </p>
+                                </div>
+
+                                {provider !== 'mock' && (
+                                    <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
+                                        <label className="block text-sm font-bold text-gray-700 dark:text-gray-300 mb-1">
+                                            Batas Laju Model <span className="font-mono font-normal text-xs">{rateLimitModel}</span>
+                                        </label>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <div>
+                                                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Request / menit (RPM)</span>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    value={rpmLimit}
+                                                    onChange={(e) => setRpmLimit(Math.max(0, parseInt(e.target.value) || 0))}
+                                                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm font-mono"
+                                                />
+                                            </div>
+                                            <div>
+                                                <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Token / menit (TPM)</span>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    value={tpmLimit}
+                                                    onChange={(e) => setTpmLimit(Math.max(0, parseInt(e.target.value) || 0))}
+                                                    className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm font-mono"
+                                                />
+                                            </div>
+                                        </div>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                            Dipakai bersama oleh Mode Individu & Mode Kelas. Bawaan: {getDefaultRateLimit(rateLimitModel).rpm} RPM / {getDefaultRateLimit(rateLimitModel).tpm.toLocaleString('id-ID')} TPM. Naikkan jika akun Anda berbayar.
+                                        </p>
+                                    </div>
+                                )}
+
+                                <div className="mt-5 pt-4 border-t border-gray-200 dark:border-gray-700">
+                                    <label className="flex items-start gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={imagePreprocess.enabled}
+                                            onChange={(e) => setImagePreprocess(prev => ({ ...prev, enabled: e.target.checked }))}
+                                            className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700"
+                                        />
+                                        <span>
+                                            <span className="block text-sm font-bold text-gray-700 dark:text-gray-300">Praproses Foto Jawaban</span>
+                                            <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                                Foto diputar sesuai EXIF, diperkecil, dan dikompres ulang ke JPEG di browser sebelum dikirim. Menghemat token dan memungkinkan foto ponsel hingga 40MB. Foto HEIC selalu dikonversi ke JPEG.
+                                            </span>
+                                        </span>
+                                    </label>
+                                    {imagePreprocess.enabled && (
+                                        <div className="mt-3 pl-6 space-y-3">
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Sisi terpanjang (px)</span>
+                                                    <input
+                                                        type="number"
+                                                        min={512}
+                                                        max={8192}
+                                                        step={128}
+                                                        value={imagePreprocess.maxLongEdge}
+                                                        onChange={(e) => setImagePreprocess(prev => ({ ...prev, maxLongEdge: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-800 dark:text-gray-200 text-sm font-mono"
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Kualitas JPEG: {Math.round(imagePreprocess.quality * 100)}%</span>
+                                                    <input
+                                                        type="range"
+                                                        min="0.5"
+                                                        max="0.95"
+                                                        step="0.05"
+                                                        value={imagePreprocess.quality}
+                                                        onChange={(e) => setImagePreprocess(prev => ({ ...prev, quality: parseFloat(e.target.value) }))}
+                                                        className="w-full h-2 mt-3 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 accent-blue-600"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={imagePreprocess.grayscale}
+                                                    onChange={(e) => setImagePreprocess(prev => ({ ...prev, grayscale: e.target.checked }))}
+                                                    className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                                                />
+                                                Grayscale (hitam-putih)
+                                            </label>
+                                            <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={imagePreprocess.contrastBoost}
+                                                    onChange={(e) => setImagePreprocess(prev => ({ ...prev, contrastBoost: e.target.checked }))}
+                                                    className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 dark:border-gray-600 rounded"
+                                                />
+                                                Tingkatkan kontras (tulisan pensil / tinta pudar)
+                                            </label>
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         )}
                     </div>
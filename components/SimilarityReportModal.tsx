@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon } from './icons';
+import { SimilarityPair, SimilarityReport, formatQuestionLabel, markSharedSegments } from '../utils/similarityUtils';
+
+interface SimilarityReportModalProps {
+    report: SimilarityReport;
+    onClose: () => void;
+}
+
+const formatPercent = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+/**
+ * Satu kolom pada perbandingan berdampingan; frasa yang juga muncul di jawaban pasangannya disorot.
+ */
+const HighlightedAnswer: React.FC<{ student: string; text: string; other: string }> = ({ student, text, other }) => (
+    <div className="flex flex-col min-h-0">
+        <p className="text-sm font-bold text-gray-800 dark:text-gray-100 mb-2 truncate">{student}</p>
+        <div className="flex-1 overflow-y-auto p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 text-sm leading-relaxed text-gray-700 dark:text-gray-300 whitespace-pre-wrap custom-scrollbar">
+            {markSharedSegments(text, other).map((segment, i) => segment.shared
+                ? <mark key={i} className="bg-rose-200 dark:bg-rose-900/60 text-inherit rounded-sm">{segment.text}</mark>
+                : <React.Fragment key={i}>{segment.text}</React.Fragment>
+            )}
+        </div>
+    </div>
+);
+
+/**
+ * @component SimilarityReportModal
+ * @description Laporan kemiripan jawaban antar mahasiswa dalam satu batch: daftar klaster di kiri,
+ * perbandingan berdampingan pasangan terpilih di kanan. Kemiripan tinggi adalah INDIKASI, bukan bukti;
+ * keputusan tetap pada dosen.
+ */
+const SimilarityReportModal: React.FC<SimilarityReportModalProps> = ({ report, onClose }) => {
+    const [selectedPair, setSelectedPair] = useState<SimilarityPair | null>(report.clusters[0]?.pairs[0] ?? null);
+
+    // Laporan dihitung ulang (misal setelah penilaian ulang): pilih ulang pasangan teratas.
+    useEffect(() => {
+        setSelectedPair(report.clusters[0]?.pairs[0] ?? null);
+    }, [report]);
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white dark:bg-gray-800 w-full max-w-[95vw] lg:max-w-[90vw] h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden border border-gray-200 dark:border-gray-700 animate-scale-in">
+                <div className="flex justify-between items-center p-5 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 shrink-0">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">🔗 Kemiripan Jawaban Antar Mahasiswa</h3>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {report.clusters.length} kelompok dengan kemiripan ≥ {formatPercent(report.threshold)}. Kemiripan tinggi adalah indikasi, bukan bukti—periksa jawaban sebelum mengambil tindakan.
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-500 dark:text-gray-400 transition-colors bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-sm"
+                    >
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {report.clusters.length === 0 ? (
+                    <div className="flex-1 flex items-center justify-center p-8 text-center text-gray-500 dark:text-gray-400">
+                        Tidak ditemukan jawaban yang mirip secara mencurigakan dalam batch ini.
+                    </div>
+                ) : (
+                    <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[20rem_1fr]">
+                        {/* Daftar Klaster */}
+                        <div className="overflow-y-auto border-b lg:border-b-0 lg:border-r border-gray-200 dark:border-gray-700 p-4 space-y-3 custom-scrollbar">
+                            {report.clusters.map(cluster => (
+                                <div key={cluster.id} className="rounded-xl border border-rose-200 dark:border-rose-900/50 bg-rose-50/60 dark:bg-rose-900/10 p-3">
+                                    <div className="flex justify-between items-center mb-2 text-xs">
+                                        <span className="font-bold text-rose-800 dark:text-rose-300">Kelompok {cluster.id} · {formatQuestionLabel(cluster.questionNumber)}</span>
+                                        <span className="font-mono text-rose-700 dark:text-rose-300">maks {formatPercent(cluster.maxSimilarity)}</span>
+                                    </div>
+                                    <ul className="space-y-1">
+                                        {cluster.pairs.map((pair, i) => (
+                                            <li key={i}>
+                                                <button
+                                                    onClick={() => setSelectedPair(pair)}
+                                                    className={`w-full flex justify-between gap-2 text-left text-xs px-2 py-1.5 rounded-lg transition-colors ${selectedPair === pair ? 'bg-rose-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 hover:bg-rose-100 dark:hover:bg-rose-900/30'}`}
+                                                >
+                                                    <span className="truncate">{pair.studentA} ↔ {pair.studentB}</span>
+                                                    <span className="font-mono shrink-0">{formatPercent(pair.similarity)}</span>
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Perbandingan Berdampingan */}
+                        {selectedPair && (
+                            <div className="min-h-0 flex flex-col p-4 gap-3">
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {formatQuestionLabel(selectedPair.questionNumber)} · Kemiripan <strong className="text-rose-700 dark:text-rose-300">{formatPercent(selectedPair.similarity)}</strong> · Frasa yang sama disorot.
+                                </p>
+                                <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <HighlightedAnswer student={selectedPair.studentA} text={selectedPair.textA} other={selectedPair.textB} />
+                                    <HighlightedAnswer student={selectedPair.studentB} text={selectedPair.textB} other={selectedPair.textA} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SimilarityReportModal;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+
+interface StudentFeedbackLetterProps {
+    /** Surat yang tersimpan di `GradeResult.studentFeedback` (kosong jika belum dibuat). */
+    letter?: string;
+    /**
+     * Membuat (ulang) surat dari hasil penilaian saat ini.
+     * @returns Pesan kesalahan untuk ditampilkan, atau `null` jika berhasil.
+     */
+    onGenerate: () => Promise<string | null>;
+    /** Menyimpan surat hasil suntingan dosen (ikut diekspor). */
+    onSave: (letter: string) => void;
+}
+
+/**
+ * @component StudentFeedbackLetter
+ * @description Surat umpan balik untuk mahasiswa (sudut pandang orang kedua), terpisah dari analisis
+ * untuk Dosen. Dosen dapat membuat, menyunting, dan menyalin surat sebelum dibagikan ke mahasiswa.
+ */
+const StudentFeedbackLetter: React.FC<StudentFeedbackLetterProps> = ({ letter, onGenerate, onSave }) => {
+    const [draft, setDraft] = useState(letter || '');
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+
+    // Surat baru (dibuat ulang / hasil dinilai ulang) menggantikan draf.
+    useEffect(() => {
+        setDraft(letter || '');
+        setError(null);
+    }, [letter]);
+
+    const isDirty = draft !== (letter || '');
+
+    const handleGenerate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        const message = await onGenerate();
+        setError(message);
+        setIsGenerating(false);
+    };
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(draft);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy student feedback: ', err);
+            setError('Gagal menyalin ke clipboard. Pastikan izin browser diberikan.');
+        }
+    };
+
+    return (
+        <div className="p-6 rounded-2xl bg-teal-50 dark:bg-teal-900/20 border border-teal-200 dark:border-teal-900/50 shadow-sm">
+            <div className="flex justify-between items-start gap-3 mb-3">
+                <div>
+                    <h4 className="font-bold text-teal-800 dark:text-teal-300 flex items-center gap-2 text-lg">
+                        <span className="text-2xl">✉️</span> Surat untuk Mahasiswa
+                    </h4>
+                    <p className="text-xs text-teal-700 dark:text-teal-400 mt-1">
+                        Ditulis langsung kepada mahasiswa dari hasil penilaian di atas. Periksa dan sunting sebelum dibagikan.
+                    </p>
+                </div>
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating}
+                    className="px-3 py-1.5 text-xs font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isGenerating ? 'Menulis Surat...' : letter ? 'Buat Ulang' : 'Buat Surat'}
+                </button>
+            </div>
+
+            {(letter || isDirty) && (
+                <>
+                    <textarea
+                        rows={Math.min(16, Math.max(6, draft.split('\n').length + 1))}
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        className="w-full p-4 border border-teal-200 dark:border-teal-800 rounded-xl bg-white dark:bg-gray-900 text-sm text-gray-800 dark:text-gray-200 leading-relaxed resize-y focus:ring-1 focus:ring-teal-500 focus:border-teal-500"
+                    />
+                    <div className="flex justify-end gap-2 mt-2">
+                        <button
+                            onClick={handleCopy}
+                            disabled={!draft.trim()}
+                            className="px-3 py-1.5 text-xs font-medium text-teal-700 dark:text-teal-300 hover:bg-teal-100 dark:hover:bg-teal-900/40 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isCopied ? 'Tersalin ✓' : 'Salin'}
+                        </button>
+                        <button
+                            onClick={() => setDraft(letter || '')}
+                            disabled={!isDirty}
+                            className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Batalkan Suntingan
+                        </button>
+                        <button
+                            onClick={() => onSave(draft.trim())}
+                            disabled={!isDirty}
+                            className="px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Simpan Suntingan
+                        </button>
+                    </div>
+                </>
+            )}
+            {!letter && !isDirty && !isGenerating && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 italic">
+                    Belum ada surat. Klik <strong>Buat Surat</strong>, atau aktifkan pembuatan otomatis di menu Pengaturan.
+                </p>
+            )}
+            {error && <p className="text-xs text-red-600 dark:text-red-400 mt-2">{error}</p>}
+        </div>
+    );
+};
+
+export default StudentFeedbackLetter;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { TranscriptPage } from '../types';
+
+interface TranscriptEditorProps {
+    /** Transkrip per halaman yang tersimpan di `GradeResult.transcript`. */
+    transcript: TranscriptPage[];
+    /**
+     * Menilai ulang dari transkrip yang sudah dikoreksi (tanpa tahap vision).
+     * @returns Pesan kesalahan untuk ditampilkan, atau `null` jika berhasil.
+     */
+    onRegrade: (pages: TranscriptPage[]) => Promise<string | null>;
+}
+
+/**
+ * @component TranscriptEditor
+ * @description Transkrip per halaman dari pipeline dua tahap. Dosen dapat mengoreksi hasil bacaan AI
+ * (misal tulisan tangan yang salah dibaca) lalu menilai ulang hanya dari teks, tanpa mengulang OCR.
+ */
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ transcript, onRegrade }) => {
+    const [draft, setDraft] = useState<TranscriptPage[]>(transcript);
+    const [isRegrading, setIsRegrading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Hasil baru (misal setelah dinilai ulang) menggantikan draf.
+    useEffect(() => {
+        setDraft(transcript);
+        setError(null);
+    }, [transcript]);
+
+    const isDirty = draft.some((page, i) => page.text !== transcript[i]?.text);
+
+    const handleRegrade = async () => {
+        setIsRegrading(true);
+        setError(null);
+        const message = await onRegrade(draft);
+        setError(message);
+        setIsRegrading(false);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400 bg-yellow-50 dark:bg-yellow-900/20 p-2 rounded border border-yellow-100 dark:border-yellow-900/30">
+                <strong>Info:</strong> Transkrip ini dinilai terpisah dari tahap pembacaan. Jika ada tulisan yang salah dibaca,
+                koreksi di bawah lalu klik <strong>Nilai Ulang dari Transkrip</strong> (tanpa mengulang OCR).
+            </p>
+            <div className="space-y-3 max-h-96 overflow-y-auto custom-scrollbar pr-1">
+                {draft.map((page, i) => (
+                    <div key={page.page}>
+                        <span className="block text-[10px] font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                            Halaman {page.page}
+                            {page.text !== transcript[i]?.text && <span className="ml-2 text-amber-600 dark:text-amber-400">(diubah)</span>}
+                        </span>
+                        <textarea
+                            rows={Math.min(12, Math.max(3, page.text.split('\n').length))}
+                            value={page.text}
+                            onChange={(e) => setDraft(prev => prev.map((p, j) => (j === i ? { ...p, text: e.target.value } : p)))}
+                            className="w-full p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900 text-sm text-gray-700 dark:text-gray-300 font-mono leading-relaxed resize-y focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                    </div>
+                ))}
+            </div>
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={() => setDraft(transcript)}
+                    disabled={!isDirty || isRegrading}
+                    className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Batalkan Koreksi
+                </button>
+                <button
+                    onClick={handleRegrade}
+                    disabled={!isDirty || isRegrading}
+                    className="px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isRegrading ? 'Menilai Ulang...' : 'Nilai Ulang dari Transkrip'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default TranscriptEditor;
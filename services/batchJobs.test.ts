@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchGradingRequest, createLocalBatchBackend, loadPendingBatchJob, mapResponsesToKeys, PENDING_BATCH_STORAGE_KEY } from './batchJobs';
+import { GradingProvider, PROVIDER_STORAGE_KEY } from './gradingProvider';
+
+// localStorage di memori: status job lokal dan pending batch disimpan di sana seperti di browser.
+const createMemoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, String(value)),
+        removeItem: (key: string) => void items.delete(key),
+        clear: () => items.clear(),
+    };
+};
+
+const LECTURER_ANSWER = { text: '1. Jelaskan fotosintesis.\n2. Sebutkan organel sel tumbuhan.' };
+
+const REQUESTS: BatchGradingRequest[] = [
+    { key: 'Andi', parts: [{ text: 'Jawaban Andi' }] },
+    { key: 'Budi', parts: [{ text: 'Jawaban Budi' }] },
+];
+
+// Penilai tiruan yang langsung selesai; jawaban Budi selalu gagal agar pemetaan hasil per mahasiswa dapat diperiksa.
+const fakeGrade: GradingProvider['grade'] = async parts => {
+    const text = 'text' in parts[0] ? parts[0].text : '';
+    if (text.includes('Budi')) return { ok: false, kind: 'safety', detail: 'Respons diblokir (SAFETY).' };
+    return {
+        ok: true,
+        result: {
+            grade: 75,
+            studentText: text,
+            improvements: '-',
+            detailedFeedback: [{ questionNumber: '1', studentAnswer: text, score: 75, feedback: 'Cukup.' }],
+        },
+    };
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.resetModules();
+});
+
+describe('mapResponsesToKeys', () => {
+    it('memakai key dari metadata respons meskipun urutannya berbeda', () => {
+        const byKey = mapResponsesToKeys([{ key: 'Budi', text: 'b' }, { key: 'Andi', text: 'a' }], ['Andi', 'Budi']);
+        expect(byKey.get('Andi')?.text).toBe('a');
+        expect(byKey.get('Budi')?.text).toBe('b');
+    });
+
+    it('memetakan berdasarkan urutan saat server tidak mengembalikan metadata', () => {
+        const byKey = mapResponsesToKeys([{ text: 'a' }, { text: 'b' }], ['Andi', 'Budi']);
+        expect(byKey.get('Andi')?.text).toBe('a');
+        expect(byKey.get('Budi')?.text).toBe('b');
+    });
+});
+
+describe('createLocalBatchBackend', () => {
+    it('kirim -> poll -> ambil respons sesuai urutan request', async () => {
+        const backend = createLocalBatchBackend(fakeGrade, 'TEST_BATCH_JOBS');
+        const name = await backend.create(REQUESTS, LECTURER_ANSWER, { model: 'mock' });
+
+        expect((await backend.get(name)).state).toBe('pending');
+
+        await vi.advanceTimersByTimeAsync(2000);
+        const status = await backend.get(name);
+        expect(status.state).toBe('succeeded');
+
+        const byKey = mapResponsesToKeys(status.responses!, REQUESTS.map(r => r.key));
+        expect(JSON.parse(byKey.get('Andi')!.text!).grade).toBe(75);
+        expect(byKey.get('Budi')!.failure).toEqual({ kind: 'safety', detail: 'Respons diblokir (SAFETY).' });
+    });
+
+    it('job yang belum selesai saat halaman dimuat ulang dilaporkan gagal, job selesai tetap dapat diambil', async () => {
+        const before = createLocalBatchBackend(fakeGrade, 'TEST_BATCH_JOBS');
+        const finished = await before.create(REQUESTS, LECTURER_ANSWER, { model: 'mock' });
+        await vi.advanceTimersByTimeAsync(2000);
+        const interrupted = await before.create(REQUESTS, LECTURER_ANSWER, { model: 'mock' });
+
+        // Instance baru dengan storage yang sama = halaman dimuat ulang.
+        const after = createLocalBatchBackend(fakeGrade, 'TEST_BATCH_JOBS');
+        expect((await after.get(finished)).state).toBe('succeeded');
+        expect((await after.get(interrupted)).state).toBe('failed');
+    });
+
+    it('job yang dibatalkan tidak diproses lagi', async () => {
+        const backend = createLocalBatchBackend(fakeGrade, 'TEST_BATCH_JOBS');
+        const name = await backend.create(REQUESTS, LECTURER_ANSWER, { model: 'mock' });
+        await backend.cancel(name);
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect((await backend.get(name)).state).toBe('cancelled');
+        expect(backend.readJobs()[name].responses).toEqual([]);
+    });
+});
+
+describe('submitBatchGrading / collectBatchGrading (Mode Demo)', () => {
+    beforeEach(() => {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, 'mock');
+    });
+
+    it('kirim -> poll -> ambil hasil per nama mahasiswa', async () => {
+        const { submitBatchGrading, collectBatchGrading } = await import('./geminiService');
+
+        const submitted = await submitBatchGrading(REQUESTS, LECTURER_ANSWER);
+        expect(submitted.ok).toBe(true);
+        if (submitted.ok === false) return;
+        expect(submitted.job.jobs[0].keys).toEqual(['Andi', 'Budi']);
+
+        const running = await collectBatchGrading(submitted.job);
+        expect(running).toMatchObject({ ok: true, done: false, finishedJobs: 0, totalJobs: 1 });
+
+        await vi.advanceTimersByTimeAsync(10_000);
+        const collected = await collectBatchGrading(submitted.job);
+        expect(collected.ok === true && collected.done === true).toBe(true);
+        if (collected.ok === false || collected.done === false) return;
+
+        expect(collected.results.map(r => r.key)).toEqual(['Andi', 'Budi']);
+        for (const { outcome } of collected.results) {
+            expect(outcome.ok).toBe(true);
+            if (outcome.ok === true) expect(outcome.result.provenance?.provider).toBe('mock');
+        }
+    });
+
+    it('setelah halaman dimuat ulang, nama job dibaca dari pending batch yang tersimpan', async () => {
+        const first = await import('./geminiService');
+        const submitted = await first.submitBatchGrading(REQUESTS, LECTURER_ANSWER);
+        expect(submitted.ok).toBe(true);
+        await vi.advanceTimersByTimeAsync(10_000);
+
+        // Modul dimuat ulang: tidak ada state di memori, hanya localStorage.
+        vi.resetModules();
+        const reloaded = await import('./geminiService');
+        const pending = loadPendingBatchJob();
+        expect(pending).not.toBeNull();
+        expect(JSON.parse(localStorage.getItem(PENDING_BATCH_STORAGE_KEY)!).jobs).toEqual(pending!.jobs);
+
+        const collected = await reloaded.collectBatchGrading(pending!);
+        expect(collected.ok === true && collected.done === true).toBe(true);
+        if (collected.ok === false || collected.done === false) return;
+        expect(collected.results.every(r => r.outcome.ok === true)).toBe(true);
+    });
+});
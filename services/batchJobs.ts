@@ -0,0 +1,328 @@
+/**
+ * @file batchJobs.ts
+ * @description Mode batch job ASINKRON untuk kelas besar (ratusan mahasiswa).
+ *
+ * LATAR BELAKANG:
+ * Worker pool Mode Kelas menilai langsung dari browser sehingga tab harus tetap terbuka berjam-jam.
+ * Pada mode ini seluruh request penilaian dikemas menjadi batch job yang diproses server secara asinkron;
+ * tab boleh ditutup, dan hasil diambil kemudian berdasarkan nama job yang disimpan di localStorage.
+ *
+ * SIKLUS HIDUP:
+ * `submitBatchGrading` (geminiService) -> `PendingBatchJob` disimpan -> `collectBatchGrading` dipanggil
+ * berkala hingga semua job selesai -> respons dipetakan kembali ke nama `StudentSubmission`.
+ * Backend disembunyikan di balik interface `BatchJobBackend` (pola yang sama dengan contextCache.ts):
+ * - `createGeminiBatchBackend` : `ai.batches` milik SDK Gemini (produksi).
+ * - `createLocalBatchBackend`  : server job tiruan lokal (Mode Demo) untuk menguji alur kirim-poll-ambil
+ *   tanpa jaringan. Status job disimpan di localStorage agar tetap dapat diperiksa setelah halaman dimuat ulang.
+ */
+
+import { GoogleGenAI, JobState } from "@google/genai";
+import { AnswerKeyQuestion, GradingErrorKind, GradingOutcome, IntegrityFlag, PresetReference, Rubric, SourcePage, TokenUsage } from "../types";
+import { ContentPart, GradingOptions, GradingProvider, GradingProviderId, LecturerAnswerPayload } from "./gradingProvider";
+import { buildGradingInstruction, buildGradingParts, getResponseSchema } from "./gradingPrompt";
+import { ExpectedQuestions } from "./resultValidator";
+import { classifyGradingError } from "./gradingErrors";
+
+/**
+ * Satu request dalam batch. `key` = nama `StudentSubmission` (kunci pemetaan respons).
+ */
+export interface BatchGradingRequest {
+    key: string;
+    /** Jawaban mahasiswa saja; kunci jawaban & instruksi ditambahkan backend. */
+    parts: ContentPart[];
+    /** Peta halaman PDF bernomor (lihat utils/pdfUtils.ts), disalin ke `GradeResult.sourcePages`. */
+    sourcePages?: SourcePage[];
+}
+
+export type BatchJobState = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'expired';
+
+export interface BatchJobResponse {
+    /** Nama submission; jika kosong, dipetakan berdasarkan urutan request. */
+    key?: string;
+    /** Teks JSON hasil penilaian (divalidasi ulang saat diambil). */
+    text?: string;
+    failure?: { kind: GradingErrorKind; detail: string };
+    usage?: TokenUsage;
+}
+
+export interface BatchJobStatus {
+    state: BatchJobState;
+    /** Hanya terisi jika `state` = 'succeeded', urutan sama dengan request. */
+    responses?: BatchJobResponse[];
+    /** Alasan job gagal/kedaluwarsa/dibatalkan. */
+    error?: string;
+}
+
+/**
+ * Kontrak server batch job.
+ */
+export interface BatchJobBackend {
+    /** Jeda polling yang wajar untuk backend ini. */
+    pollIntervalMs: number;
+    /** Membuat satu job berisi `requests`. @returns Nama job. */
+    create(requests: BatchGradingRequest[], lecturerAnswer: LecturerAnswerPayload, options: GradingOptions & { model: string }): Promise<string>;
+    get(name: string): Promise<BatchJobStatus>;
+    cancel(name: string): Promise<void>;
+}
+
+/**
+ * Batch yang sedang diproses server, disimpan di localStorage agar hasil dapat diambil setelah tab ditutup.
+ * Kelas besar dipecah menjadi beberapa job (batas ukuran request inline), masing-masing dengan daftar kuncinya.
+ */
+export interface PendingBatchJob {
+    providerId: GradingProviderId;
+    model: string;
+    /** ISO timestamp saat batch dikirim. */
+    createdAt: string;
+    jobs: { name: string; keys: string[] }[];
+    pollIntervalMs: number;
+    /** Konteks penilaian yang dibekukan saat pengiriman, dipakai ulang saat hasil diambil. */
+    expected: ExpectedQuestions;
+    rubric: Rubric | null;
+    structured?: AnswerKeyQuestion[];
+    preset: PresetReference;
+    /** Temuan pemindaian lokal per submission (teks tidak ikut disimpan). */
+    preScanFlags: Record<string, IntegrityFlag[]>;
+    /** SHA-256 kunci jawaban saat pengiriman, untuk `GradeResult.provenance`. */
+    answerKeyHash?: string;
+    /** Peta halaman PDF per submission (hanya yang berisi PDF). */
+    sourcePages?: Record<string, SourcePage[]>;
+}
+
+export type BatchSubmitOutcome =
+    | { ok: true; job: PendingBatchJob }
+    | { ok: false; kind: GradingErrorKind; detail: string };
+
+export type BatchPollOutcome =
+    | { ok: true; done: false; finishedJobs: number; totalJobs: number }
+    | { ok: true; done: true; results: { key: string; outcome: GradingOutcome }[] }
+    | { ok: false; kind: GradingErrorKind; detail: string };
+
+// Kunci localStorage untuk batch yang belum diambil hasilnya (satu batch aktif per browser).
+export const PENDING_BATCH_STORAGE_KEY = 'USER_PENDING_BATCH_JOB';
+
+// Batas ukuran request inline Gemini Batch API adalah 20MB; disisakan ruang untuk metadata & konfigurasi.
+export const MAX_INLINE_BATCH_BYTES = 18 * 1024 * 1024;
+
+// Job Gemini biasanya selesai dalam hitungan menit hingga jam; polling lebih rapat tidak mempercepatnya.
+const GEMINI_POLL_INTERVAL_MS = 60 * 1000;
+
+export const loadPendingBatchJob = (): PendingBatchJob | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const saved = JSON.parse(localStorage.getItem(PENDING_BATCH_STORAGE_KEY) || 'null');
+        return saved && Array.isArray(saved.jobs) ? saved : null;
+    } catch {
+        return null;
+    }
+};
+
+export const savePendingBatchJob = (job: PendingBatchJob) => {
+    localStorage.setItem(PENDING_BATCH_STORAGE_KEY, JSON.stringify(job));
+};
+
+export const clearPendingBatchJob = () => {
+    localStorage.removeItem(PENDING_BATCH_STORAGE_KEY);
+};
+
+// Perkiraan ukuran serialisasi bagian konten (base64 sudah berupa teks).
+export const estimatePartsBytes = (parts: ContentPart[]): number =>
+    parts.reduce((sum, p) => sum + ('text' in p ? p.text.length : p.inlineData.data.length), 0);
+
+/**
+ * Memecah request menjadi beberapa job agar setiap job (termasuk kunci jawaban yang dikirim ulang
+ * per request, `sharedBytes`) tetap di bawah `maxBytes`. Request tunggal yang melebihi batas tetap
+ * dikirim sendirian; server yang akan menolaknya.
+ */
+export const chunkBatchRequests = (requests: BatchGradingRequest[], sharedBytes: number, maxBytes = MAX_INLINE_BATCH_BYTES): BatchGradingRequest[][] => {
+    const chunks: BatchGradingRequest[][] = [];
+    let current: BatchGradingRequest[] = [];
+    let currentBytes = 0;
+    requests.forEach(request => {
+        const bytes = estimatePartsBytes(request.parts) + sharedBytes;
+        if (current.length > 0 && currentBytes + bytes > maxBytes) {
+            chunks.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+        current.push(request);
+        currentBytes += bytes;
+    });
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+};
+
+const GEMINI_JOB_STATES: Partial<Record<JobState, BatchJobState>> = {
+    [JobState.JOB_STATE_RUNNING]: 'running',
+    [JobState.JOB_STATE_CANCELLING]: 'running',
+    [JobState.JOB_STATE_SUCCEEDED]: 'succeeded',
+    [JobState.JOB_STATE_FAILED]: 'failed',
+    [JobState.JOB_STATE_CANCELLED]: 'cancelled',
+    [JobState.JOB_STATE_EXPIRED]: 'expired',
+};
+
+/**
+ * Backend batch Gemini (`ai.batches`, request inline). Setiap request membawa kunci jawaban penuh;
+ * cache konteks tidak dipakai karena job dapat berjalan lebih lama dari TTL cache.
+ */
+export const createGeminiBatchBackend = (ai: GoogleGenAI): BatchJobBackend => ({
+    pollIntervalMs: GEMINI_POLL_INTERVAL_MS,
+    async create(requests, lecturerAnswer, options) {
+        const config = {
+            systemInstruction: buildGradingInstruction(options.preset),
+            responseMimeType: "application/json",
+            responseSchema: getResponseSchema(options.rubric),
+            temperature: 0,
+        };
+        const job = await ai.batches.create({
+            model: options.model,
+            src: requests.map(request => ({
+                contents: [{ role: 'user', parts: buildGradingParts(request.parts, lecturerAnswer, options.rubric) }],
+                metadata: { key: request.key },
+                config,
+            })),
+            config: { displayName: `pipb-class-${new Date().toISOString()}` },
+        });
+        if (!job.name) throw new Error("Batch job dibuat tanpa nama.");
+        return job.name;
+    },
+    async get(name) {
+        const job = await ai.batches.get({ name });
+        const state = (job.state && GEMINI_JOB_STATES[job.state]) || 'pending';
+        if (state !== 'succeeded') return { state, error: job.error?.message };
+
+        return {
+            state,
+            responses: (job.dest?.inlinedResponses || []).map((item): BatchJobResponse => {
+                const key = item.metadata?.key;
+                if (item.error) {
+                    return { key, failure: classifyGradingError({ status: item.error.code, message: item.error.message || 'Request batch gagal.' }) };
+                }
+                const response = item.response;
+                const metadata = response?.usageMetadata;
+                const usage = metadata && {
+                    inputTokens: metadata.promptTokenCount || 0,
+                    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+                };
+                // Respons dari JSON job bukan instance kelas SDK, sehingga getter `.text` tidak selalu ada.
+                const text = (response?.candidates?.[0]?.content?.parts || [])
+                    .filter(part => !part.thought)
+                    .map(part => part.text || '')
+                    .join('');
+                if (!text) {
+                    const reason = response?.promptFeedback?.blockReason || response?.candidates?.[0]?.finishReason;
+                    return { key, usage, failure: { kind: reason ? 'safety' : 'parse', detail: reason ? `Respons diblokir (${reason}).` : 'Respons kosong dari AI.' } };
+                }
+                return { key, text, usage };
+            }),
+        };
+    },
+    async cancel(name) {
+        await ai.batches.cancel({ name });
+    },
+});
+
+interface LocalBatchJobRecord {
+    state: BatchJobState;
+    total: number;
+    responses: BatchJobResponse[];
+    error?: string;
+}
+
+// Waktu antre tiruan sebelum job lokal mulai diproses.
+const LOCAL_QUEUE_DELAY_MS = 1000;
+
+/**
+ * Server batch job tiruan lokal. Request diproses di latar belakang satu per satu memakai `grade`
+ * (misal penilai Mode Demo), dan status tiap job disimpan di localStorage (`storageKey`).
+ *
+ * Job yang masih berjalan saat halaman dimuat ulang dilaporkan GAGAL (prosesnya hilang bersama halaman),
+ * sedangkan job yang sudah selesai tetap dapat diambil, sama seperti hasil job di server sungguhan.
+ */
+export const createLocalBatchBackend = (grade: GradingProvider['grade'], storageKey: string, pollIntervalMs = 2000) => {
+    // Job yang diproses oleh halaman ini; job 'running' lain berarti prosesnya sudah hilang.
+    const activeJobs = new Set<string>();
+
+    const readJobs = (): Record<string, LocalBatchJobRecord> => {
+        try {
+            return JSON.parse(localStorage.getItem(storageKey) || '{}');
+        } catch {
+            return {};
+        }
+    };
+    const updateJob = (name: string, update: (job: LocalBatchJobRecord) => LocalBatchJobRecord) => {
+        const jobs = readJobs();
+        if (!jobs[name]) return;
+        jobs[name] = update(jobs[name]);
+        localStorage.setItem(storageKey, JSON.stringify(jobs));
+    };
+
+    const run = async (name: string, requests: BatchGradingRequest[], lecturerAnswer: LecturerAnswerPayload, options: GradingOptions) => {
+        await new Promise(resolve => setTimeout(resolve, LOCAL_QUEUE_DELAY_MS));
+        for (const request of requests) {
+            if (readJobs()[name]?.state === 'cancelled') break;
+            updateJob(name, job => ({ ...job, state: 'running' }));
+            const outcome = await grade(request.parts, lecturerAnswer, options);
+            const response: BatchJobResponse = outcome.ok === true
+                ? { key: request.key, text: JSON.stringify(outcome.result), usage: outcome.result.usage }
+                : { key: request.key, failure: { kind: outcome.kind, detail: outcome.detail } };
+            updateJob(name, job => ({ ...job, responses: [...job.responses, response] }));
+        }
+        updateJob(name, job => (job.state === 'cancelled' ? job : { ...job, state: 'succeeded' }));
+        activeJobs.delete(name);
+    };
+
+    return {
+        pollIntervalMs,
+        /** Seluruh job tersimpan (untuk pemeriksaan saat pengujian). */
+        readJobs,
+        async create(requests: BatchGradingRequest[], lecturerAnswer: LecturerAnswerPayload, options: GradingOptions & { model: string }): Promise<string> {
+            const name = `batches/local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+            const jobs = readJobs();
+            jobs[name] = { state: 'pending', total: requests.length, responses: [] };
+            localStorage.setItem(storageKey, JSON.stringify(jobs));
+            activeJobs.add(name);
+            run(name, requests, lecturerAnswer, { ...options, onProgress: undefined, signal: undefined }).catch(e => {
+                console.error(`Batch job lokal ${name} gagal:`, e);
+                updateJob(name, job => ({ ...job, state: 'failed', error: String(e?.message || e) }));
+                activeJobs.delete(name);
+            });
+            return name;
+        },
+        async get(name: string): Promise<BatchJobStatus> {
+            const job = readJobs()[name];
+            if (!job) throw Object.assign(new Error(`Batch job ${name} tidak ditemukan.`), { status: 404 });
+            if ((job.state === 'pending' || job.state === 'running') && !activeJobs.has(name)) {
+                return { state: 'failed', error: 'Server batch lokal berhenti sebelum job selesai (halaman dimuat ulang).' };
+            }
+            if (job.state !== 'succeeded') return { state: job.state, error: job.error };
+            return { state: job.state, responses: job.responses };
+        },
+        async cancel(name: string): Promise<void> {
+            updateJob(name, job => (job.state === 'succeeded' ? job : { ...job, state: 'cancelled', error: 'Dibatalkan oleh pengguna.' }));
+        },
+    };
+};
+
+/**
+ * Job sudah tidak berjalan lagi (selesai, gagal, dibatalkan, atau kedaluwarsa).
+ */
+export const isBatchJobFinished = (status: BatchJobStatus): boolean => status.state !== 'pending' && status.state !== 'running';
+
+// Kegagalan seluruh job (bukan per request) diterapkan ke semua mahasiswa di dalamnya.
+export const describeJobFailure = (status: BatchJobStatus): { kind: GradingErrorKind; detail: string } => ({
+    kind: status.state === 'cancelled' ? 'cancelled' : status.state === 'expired' ? 'timeout' : 'network',
+    detail: `Batch job ${status.state === 'expired' ? 'kedaluwarsa' : status.state === 'cancelled' ? 'dibatalkan' : 'gagal'}${status.error ? `: ${status.error}` : '.'}`,
+});
+
+/**
+ * Nama mahasiswa untuk setiap respons: dari metadata respons, atau urutan request jika metadata kosong.
+ */
+export const mapResponsesToKeys = (responses: BatchJobResponse[], keys: string[]): Map<string, BatchJobResponse> => {
+    const byKey = new Map<string, BatchJobResponse>();
+    responses.forEach((response, i) => {
+        const key = response.key ?? keys[i];
+        if (key !== undefined) byKey.set(key, response);
+    });
+    return byKey;
+};
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ANSWER_KEY_CACHE_TTL_SECONDS, CachedContentEntry, NO_ANSWER_KEY_CACHE, createLocalCacheBackend, isCacheMissingError, openAnswerKeyCache } from './contextCache';
+import { geminiProvider } from './geminiService';
+
+// SDK Gemini diganti tiruan: hanya `models.generateContent` yang dipakai jalur penilaian non-streaming.
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+vi.mock('@google/genai', async importOriginal => ({
+    ...(await importOriginal<typeof import('@google/genai')>()),
+    GoogleGenAI: class {
+        models = { generateContent };
+    },
+}));
+
+const ENTRY: CachedContentEntry = {
+    model: 'mock',
+    systemInstruction: 'Instruksi penilaian',
+    parts: [{ text: '1. Jelaskan fotosintesis.' }],
+    ttlSeconds: ANSWER_KEY_CACHE_TTL_SECONDS,
+};
+
+const GRADE_RESPONSE = JSON.stringify({
+    grade: 80,
+    studentText: 'Fotosintesis mengubah cahaya menjadi energi kimia.',
+    improvements: 'Tambahkan persamaan reaksi.',
+    detailedFeedback: [{ questionNumber: '1', studentAnswer: 'Fotosintesis ...', score: 80, feedback: 'Cukup lengkap.' }],
+});
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    generateContent.mockReset();
+});
+
+describe('openAnswerKeyCache', () => {
+    it('membuat entri sekali, dapat direferensikan, lalu dihapus saat release', async () => {
+        const backend = createLocalCacheBackend();
+        const cache = await openAnswerKeyCache(backend, ENTRY);
+
+        expect(cache.name).toBe('cachedContents/local-1');
+        expect(backend.entries.size).toBe(1);
+        expect(backend.has(cache.name!)).toBe(true);
+
+        await cache.release();
+        expect(backend.entries.size).toBe(0);
+        expect(backend.has(cache.name!)).toBe(false);
+    });
+
+    it('release aman dipanggil lebih dari sekali', async () => {
+        const backend = createLocalCacheBackend();
+        const deleteSpy = vi.spyOn(backend, 'delete');
+        const cache = await openAnswerKeyCache(backend, ENTRY);
+
+        await cache.release();
+        await cache.release();
+        expect(deleteSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('entri yang sudah dihapus menghasilkan error cache hilang', async () => {
+        const backend = createLocalCacheBackend();
+        const cache = await openAnswerKeyCache(backend, ENTRY);
+        await cache.release();
+
+        const error = await backend.delete(cache.name!).catch(e => e);
+        expect(isCacheMissingError(error)).toBe(true);
+    });
+
+    it('kegagalan pembuatan tidak menghentikan batch (handle tanpa nama)', async () => {
+        const backend = { create: vi.fn().mockRejectedValue(new Error('Server sibuk')), delete: vi.fn() };
+        const cache = await openAnswerKeyCache(backend, ENTRY);
+
+        expect(cache).toBe(NO_ANSWER_KEY_CACHE);
+        await cache.release();
+        expect(backend.delete).not.toHaveBeenCalled();
+    });
+});
+
+describe('isCacheMissingError', () => {
+    it('mengenali entri cache yang hilang atau kedaluwarsa', () => {
+        expect(isCacheMissingError(Object.assign(new Error('CachedContent not found'), { status: 404 }))).toBe(true);
+        expect(isCacheMissingError(new Error('Cached content has expired'))).toBe(true);
+        expect(isCacheMissingError(Object.assign(new Error('Permission denied on cached content'), { status: 403 }))).toBe(true);
+    });
+
+    it('tidak menganggap error lain sebagai cache hilang', () => {
+        expect(isCacheMissingError(Object.assign(new Error('Model not found'), { status: 404 }))).toBe(false);
+        expect(isCacheMissingError(Object.assign(new Error('Quota exceeded for cached content'), { status: 429 }))).toBe(false);
+    });
+});
+
+describe('gradeWithGemini dengan cache yang hilang', () => {
+    beforeEach(() => {
+        vi.stubEnv('API_KEY', 'test-key');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('mengirim ulang kunci penuh saat entri cache sudah tidak ada', async () => {
+        generateContent
+            .mockRejectedValueOnce(Object.assign(new Error('CachedContent cachedContents/local-1 not found'), { status: 404 }))
+            .mockResolvedValueOnce({ text: GRADE_RESPONSE, usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 50 } });
+
+        const outcome = await geminiProvider.grade(
+            [{ text: 'Fotosintesis ...' }],
+            { text: '1. Jelaskan fotosintesis.' },
+            { cachedContent: 'cachedContents/local-1' }
+        );
+
+        expect(outcome.ok).toBe(true);
+        expect(generateContent).toHaveBeenCalledTimes(2);
+
+        const [cachedRequest, fullRequest] = generateContent.mock.calls.map(([request]) => request);
+        expect(cachedRequest.config.cachedContent).toBe('cachedContents/local-1');
+        expect(cachedRequest.config.systemInstruction).toBeUndefined();
+        expect(fullRequest.config.cachedContent).toBeUndefined();
+        expect(fullRequest.config.systemInstruction).toEqual(expect.any(String));
+        // Payload penuh memuat kunci jawaban, bukan hanya jawaban mahasiswa.
+        expect(fullRequest.contents.parts.length).toBeGreaterThan(cachedRequest.contents.parts.length);
+    });
+});
@@ -0,0 +1,144 @@
+/**
+ * @file contextCache.ts
+ * @description Cache konteks (cached content) untuk kunci jawaban selama satu batch Mode Kelas.
+ *
+ * LATAR BELAKANG:
+ * Dalam satu batch, kunci jawaban + rubrik + instruksi sistem yang SAMA dikirim ulang untuk setiap
+ * mahasiswa (bisa ratusan kali). Dengan context caching, bagian tersebut diunggah SEKALI sebagai
+ * entri cache; setiap penilaian cukup mereferensikan nama entri dan mengirim jawaban mahasiswa saja.
+ *
+ * SIKLUS HIDUP:
+ * `openAnswerKeyCache` (awal batch) -> `GradingOptions.cachedContent` (per mahasiswa) -> `release` (akhir batch).
+ * Backend disembunyikan di balik interface `ContextCacheBackend`:
+ * - `createGeminiCacheBackend` : `ai.caches` milik SDK Gemini (produksi).
+ * - `createLocalCacheBackend`  : pengganti lokal di memori (Mode Demo) untuk memverifikasi siklus hidup
+ *   cache tanpa jaringan, misalnya memastikan entri dihapus setelah batch selesai.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { ContentPart } from "./gradingProvider";
+import { getErrorStatus } from "./gradingErrors";
+
+/**
+ * Isi satu entri cache: konteks yang identik untuk seluruh mahasiswa dalam batch.
+ */
+export interface CachedContentEntry {
+    model: string;
+    systemInstruction: string;
+    /** Kunci jawaban, rubrik, dan instruksi pembuka (lihat `buildAnswerKeyParts`). */
+    parts: ContentPart[];
+    /** Masa berlaku entri; entri tetap dihapus eksplisit saat batch selesai. */
+    ttlSeconds: number;
+}
+
+/**
+ * Kontrak penyimpanan cache konteks.
+ */
+export interface ContextCacheBackend {
+    /** Membuat entri cache. @returns Nama entri untuk direferensikan pada setiap request. */
+    create(entry: CachedContentEntry): Promise<string>;
+    /** Menghapus entri cache. */
+    delete(name: string): Promise<void>;
+}
+
+/**
+ * Handle cache untuk satu batch. `name` bernilai `null` jika cache tidak dipakai
+ * (provider tidak mendukung, kunci terlalu kecil, atau pembuatan gagal): penilaian tetap berjalan
+ * dengan mengirim kunci secara penuh.
+ */
+export interface AnswerKeyCache {
+    name: string | null;
+    /** Menghapus entri cache. Aman dipanggil lebih dari sekali. */
+    release(): Promise<void>;
+}
+
+export const NO_ANSWER_KEY_CACHE: AnswerKeyCache = { name: null, release: async () => {} };
+
+// Cukup untuk batch besar; entri tetap dihapus eksplisit di akhir batch.
+export const ANSWER_KEY_CACHE_TTL_SECONDS = 2 * 60 * 60;
+
+/**
+ * Backend cache Gemini (`ai.caches`).
+ */
+export const createGeminiCacheBackend = (ai: GoogleGenAI): ContextCacheBackend => ({
+    async create(entry) {
+        const cache = await ai.caches.create({
+            model: entry.model,
+            config: {
+                contents: [{ role: 'user', parts: entry.parts }],
+                systemInstruction: entry.systemInstruction,
+                ttl: `${entry.ttlSeconds}s`,
+                displayName: 'pipb-answer-key',
+            },
+        });
+        if (!cache.name) throw new Error("Cached content dibuat tanpa nama.");
+        return cache.name;
+    },
+    async delete(name) {
+        await ai.caches.delete({ name });
+    },
+});
+
+/**
+ * Backend cache lokal di memori. `entries` dapat diperiksa untuk memastikan entri dibuat sekali
+ * per batch dan dihapus setelahnya; entri kedaluwarsa dianggap tidak ada (seperti di server).
+ */
+export const createLocalCacheBackend = () => {
+    const entries = new Map<string, CachedContentEntry & { expiresAt: number }>();
+    let counter = 0;
+
+    return {
+        entries,
+        async create(entry: CachedContentEntry): Promise<string> {
+            const name = `cachedContents/local-${++counter}`;
+            entries.set(name, { ...entry, expiresAt: Date.now() + entry.ttlSeconds * 1000 });
+            return name;
+        },
+        async delete(name: string): Promise<void> {
+            if (!entries.delete(name)) throw Object.assign(new Error(`Cached content ${name} tidak ditemukan.`), { status: 404 });
+        },
+        /** Entri masih ada dan belum kedaluwarsa. */
+        has(name: string): boolean {
+            const entry = entries.get(name);
+            return !!entry && entry.expiresAt > Date.now();
+        },
+    };
+};
+
+/**
+ * Membuat entri cache untuk satu batch. Kegagalan TIDAK menghentikan batch:
+ * handle tanpa nama dikembalikan dan kunci dikirim penuh seperti biasa.
+ */
+export const openAnswerKeyCache = async (backend: ContextCacheBackend, entry: CachedContentEntry): Promise<AnswerKeyCache> => {
+    let name: string;
+    try {
+        name = await backend.create(entry);
+    } catch (e) {
+        console.warn("Gagal membuat cache kunci jawaban, kunci dikirim penuh per mahasiswa:", e);
+        return NO_ANSWER_KEY_CACHE;
+    }
+
+    let released = false;
+    return {
+        name,
+        async release() {
+            if (released) return;
+            released = true;
+            try {
+                await backend.delete(name);
+            } catch (e) {
+                // Entri yang gagal dihapus tetap kedaluwarsa sendiri setelah TTL.
+                console.warn(`Gagal menghapus cache ${name}:`, e);
+            }
+        },
+    };
+};
+
+/**
+ * Error karena entri cache sudah tidak ada (kedaluwarsa/terhapus). Pemanggil sebaiknya
+ * mengulang request dengan kunci penuh alih-alih menganggapnya kegagalan penilaian.
+ */
+export const isCacheMissingError = (error: any): boolean => {
+    const message = String(error?.message ?? '');
+    return /cached ?content/i.test(message) && (getErrorStatus(error) === 404 || getErrorStatus(error) === 403 || /not found|expired|tidak ditemukan/i.test(message));
+};
@@ -0,0 +1,157 @@
+/**
+ * @file costEstimator.ts
+ * @description Estimasi "dry-run" sebelum batch Mode Kelas dimulai: jumlah token, biaya, dan durasi.
+ *
+ * LATAR BELAKANG:
+ * Dosen yang memakai API Key pribadi (BYOK) perlu tahu berapa biaya menilai 120 mahasiswa
+ * SEBELUM kuota/tagihan terpakai. Token dihitung dengan `countTokens` milik SDK (akurat, gratis);
+ * jika tidak tersedia (provider lain, tanpa key, offline) dipakai heuristik lokal `estimatePartsTokens`.
+ */
+
+import { GradingPreset, Rubric, StudentSubmission, TokenUsage } from "../types";
+import { ContentPart, LecturerAnswerPayload, getConsensusConfig, getPipelineMode, isStudentFeedbackEnabled } from "./gradingProvider";
+import { STUDENT_FEEDBACK_INSTRUCTION, buildGradingInstruction, buildGradingParts } from "./gradingPrompt";
+import { countGradingTokens } from "./geminiService";
+import { EXPECTED_OUTPUT_TOKENS, STUDENT_FEEDBACK_OUTPUT_TOKENS, estimatePartsTokens, getRateLimit } from "./rateLimiter";
+
+/**
+ * Harga model dalam USD per 1 juta token. Tabel harga ada di SettingsModal (`MODEL_PRICES`).
+ */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export interface BatchEstimate {
+    model: string;
+    studentCount: number;
+    /** Total token input seluruh batch (kunci + instruksi dikirim ulang untuk setiap mahasiswa & sampel). */
+    inputTokens: number;
+    /** Perkiraan total token output (`EXPECTED_OUTPUT_TOKENS` per request, dua request pada alur dua tahap, plus surat mahasiswa). */
+    outputTokens: number;
+    /** Estimasi biaya per mahasiswa (urutan sama dengan `submissions`), dipakai untuk batas anggaran. */
+    perStudentCostUsd: number[];
+    /** Total biaya, atau `null` jika harga model tidak diketahui (misal server lokal). */
+    costUsd: number | null;
+    /** Perkiraan durasi batch (detik), memperhitungkan konkurensi dan batas RPM/TPM. */
+    durationSec: number;
+    /** `true` jika SEMUA hitungan berasal dari `countTokens` SDK (bukan heuristik). */
+    exact: boolean;
+}
+
+// Rata-rata waktu satu penilaian (OCR + analisis) untuk estimasi durasi.
+const AVERAGE_LATENCY_SEC = 30;
+
+// Jumlah permintaan countTokens paralel saat estimasi (menjaga UI tetap responsif).
+const COUNT_CONCURRENCY = 3;
+
+/**
+ * Menghitung biaya (USD) dari pemakaian token.
+ */
+export const calculateCostUsd = (usage: TokenUsage, price: ModelPrice): number => {
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Format biaya: nominal kecil tetap terlihat (misal $0.0042), nominal besar cukup 2 desimal.
+ */
+export const formatUsd = (value: number): string => {
+    return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+};
+
+/**
+ * Format durasi menjadi teks ringkas ("45 detik", "12 menit", "1 jam 5 menit").
+ */
+export const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.ceil(seconds)} detik`;
+    const minutes = Math.ceil(seconds / 60);
+    if (minutes < 60) return `${minutes} menit`;
+    return `${Math.floor(minutes / 60)} jam ${minutes % 60} menit`;
+};
+
+/**
+ * Menjalankan estimasi dry-run untuk seluruh batch.
+ *
+ * @param toParts - Konversi file mentah ke `ContentPart` (sama dengan yang dipakai saat penilaian).
+ * @param onProgress - Callback progres (jumlah mahasiswa yang sudah dihitung).
+ */
+export const estimateBatch = async (params: {
+    submissions: StudentSubmission[];
+    lecturerAnswer: LecturerAnswerPayload;
+    rubric: Rubric | null;
+    preset: GradingPreset;
+    toParts: (files: File[]) => Promise<ContentPart[]>;
+    model: string;
+    price: ModelPrice | null;
+    concurrency: number;
+    onProgress?: (done: number, total: number) => void;
+}): Promise<BatchEstimate> => {
+    const { submissions, lecturerAnswer, rubric, preset, toParts, model, price, concurrency, onProgress } = params;
+
+    // Hitung dengan SDK; setelah gagal sekali (tanpa key, provider lain, offline) langsung pakai heuristik
+    // agar tidak mengulang request yang pasti gagal untuk setiap mahasiswa.
+    let useSdk = true;
+    const countTokens = async (parts: ContentPart[]): Promise<{ tokens: number; exact: boolean }> => {
+        const counted = useSdk ? await countGradingTokens(parts) : null;
+        if (counted !== null) return { tokens: counted, exact: true };
+        useSdk = false;
+        return { tokens: estimatePartsTokens(parts), exact: false };
+    };
+
+    // Kunci jawaban + rubrik + instruksi dihitung SEKALI, lalu ditambahkan ke setiap mahasiswa.
+    // Instruksi sistem tidak didukung countTokens (Gemini API), jadi selalu memakai heuristik.
+    const shared = await countTokens(buildGradingParts([], lecturerAnswer, rubric));
+    const systemTokens = Math.ceil(buildGradingInstruction(preset).length / 4);
+
+    // Alur dua tahap: satu request transkripsi, lalu penilaian membaca transkrip (± sepanjang output transkripsi).
+    // Konsensus: tahap penilaian diulang per sampel (harga model batch dipakai untuk semua sampel).
+    const isTwoPass = getPipelineMode() === 'two-pass';
+    const gradingSamples = getConsensusConfig().samples;
+    // Surat mahasiswa: satu request teks yang membaca ringkasan hasil (± sepanjang output penilaian).
+    const withLetter = isStudentFeedbackEnabled();
+    const letterInput = withLetter ? Math.ceil(STUDENT_FEEDBACK_INSTRUCTION.length / 4) + EXPECTED_OUTPUT_TOKENS : 0;
+    const requestsPerStudent = gradingSamples + (isTwoPass ? 1 : 0) + (withLetter ? 1 : 0);
+    const outputPerStudent = (gradingSamples + (isTwoPass ? 1 : 0)) * EXPECTED_OUTPUT_TOKENS + (withLetter ? STUDENT_FEEDBACK_OUTPUT_TOKENS : 0);
+    const toStudentInput = (documentTokens: number) => letterInput + (isTwoPass
+        ? documentTokens + gradingSamples * (shared.tokens + systemTokens + EXPECTED_OUTPUT_TOKENS)
+        : gradingSamples * (shared.tokens + systemTokens + documentTokens));
+
+    const studentTokens: number[] = new Array(submissions.length).fill(0);
+    let exact = shared.exact;
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+        while (next < submissions.length) {
+            const i = next++;
+            const counted = await countTokens(await toParts(submissions[i].files));
+            studentTokens[i] = toStudentInput(counted.tokens);
+            exact = exact && counted.exact;
+            onProgress?.(++done, submissions.length);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(COUNT_CONCURRENCY, submissions.length) }, worker));
+
+    const inputTokens = studentTokens.reduce((sum, t) => sum + t, 0);
+    const outputTokens = submissions.length * outputPerStudent;
+    const perStudentCostUsd = studentTokens.map(t => price ? calculateCostUsd({ inputTokens: t, outputTokens: outputPerStudent }, price) : 0);
+
+    // Durasi = hambatan terbesar antara: latensi/konkurensi, batas RPM, dan batas TPM.
+    const limit = getRateLimit(model);
+    const durationSec = Math.max(
+        submissions.length * AVERAGE_LATENCY_SEC / Math.max(concurrency, 1),
+        submissions.length * requestsPerStudent / limit.rpm * 60,
+        (inputTokens + outputTokens) / limit.tpm * 60,
+    );
+
+    return {
+        model,
+        studentCount: submissions.length,
+        inputTokens,
+        outputTokens,
+        perStudentCostUsd,
+        costUsd: price ? calculateCostUsd({ inputTokens, outputTokens }, price) : null,
+        durationSec,
+        exact,
+    };
+};
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { geminiProvider } from './geminiService';
+
+// SDK Gemini diganti tiruan (lihat contextCache.test.ts).
+const { generateContent } = vi.hoisted(() => ({ generateContent: vi.fn() }));
+vi.mock('@google/genai', async importOriginal => ({
+    ...(await importOriginal<typeof import('@google/genai')>()),
+    GoogleGenAI: class {
+        models = { generateContent };
+    },
+}));
+
+const GRADE_RESPONSE = JSON.stringify({
+    grade: 80,
+    studentText: 'Fotosintesis mengubah cahaya menjadi energi kimia.',
+    improvements: 'Tambahkan persamaan reaksi.',
+    detailedFeedback: [{ questionNumber: '1', studentAnswer: 'Fotosintesis ...', score: 80, feedback: 'Cukup lengkap.' }],
+});
+
+const respond = (text: string) => ({ text, usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 10 } });
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv('API_KEY', 'test-key');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    generateContent.mockReset();
+});
+
+describe('gradeWithGemini', () => {
+    it('menjumlahkan token seluruh percobaan, termasuk percobaan yang gagal', async () => {
+        // Percobaan 1: respons rusak + re-prompt perbaikan yang tetap rusak. Percobaan 2: berhasil.
+        generateContent
+            .mockResolvedValueOnce(respond('bukan JSON'))
+            .mockResolvedValueOnce(respond('masih bukan JSON'))
+            .mockResolvedValueOnce(respond(GRADE_RESPONSE));
+
+        const pending = geminiProvider.grade([{ text: 'Fotosintesis ...' }], { text: '1. Jelaskan fotosintesis.' });
+        await vi.runAllTimersAsync();
+        const outcome = await pending;
+
+        expect(generateContent).toHaveBeenCalledTimes(3);
+        expect(outcome.ok === true && outcome.attempts).toBe(2);
+        if (outcome.ok === true) expect(outcome.result.usage).toEqual({ inputTokens: 300, outputTokens: 30 });
+    });
+
+    it('kegagalan tetap melaporkan token yang sudah terpakai (untuk batas anggaran)', async () => {
+        generateContent.mockResolvedValue(respond('bukan JSON'));
+
+        const pending = geminiProvider.grade([{ text: 'Fotosintesis ...' }], { text: '1. Jelaskan fotosintesis.' });
+        await vi.runAllTimersAsync();
+        const outcome = await pending;
+
+        // 3 percobaan x (respons awal + re-prompt perbaikan).
+        expect(generateContent).toHaveBeenCalledTimes(6);
+        expect(outcome).toMatchObject({ ok: false, kind: 'parse', usage: { inputTokens: 600, outputTokens: 60 } });
+    });
+});
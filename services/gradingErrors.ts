@@ -0,0 +1,141 @@
+/**
+ * @file gradingErrors.ts
+ * @description Taksonomi kesalahan penilaian (`GradingErrorKind`).
+ *
+ * LATAR BELAKANG:
+ * Sebelumnya setiap kegagalan (API Key kosong, kuota habis, diblokir filter keamanan, JSON rusak)
+ * diubah menjadi `null`, sehingga UI hanya bisa menampilkan "Gagal mendapatkan penilaian".
+ * Provider kini mengklasifikasikan kesalahan, dan UI menampilkan solusi yang sesuai jenisnya.
+ */
+
+import { GradingErrorKind, GradingOutcome } from "../types";
+
+/**
+ * Error yang jenisnya sudah diketahui di titik pelemparan (misal respons diblokir filter keamanan).
+ */
+export type TypedGradingError = Error & { kind: GradingErrorKind };
+
+/**
+ * Membuat `Error` yang membawa `kind`, agar tidak perlu ditebak ulang oleh `classifyGradingError`.
+ */
+export const createGradingError = (kind: GradingErrorKind, message: string): TypedGradingError => {
+    return Object.assign(new Error(message), { kind });
+};
+
+const GRADING_ERROR_KINDS: GradingErrorKind[] = ['auth', 'quota', 'safety', 'parse', 'network', 'timeout', 'cancelled'];
+
+/**
+ * Mengambil kode status HTTP dari error SDK (`ApiError.status`), error fetch provider,
+ * atau (fallback) dari teks pesan.
+ */
+export const getErrorStatus = (error: any): number | null => {
+    if (typeof error?.status === 'number') return error.status;
+    const match = String(error?.message ?? '').match(/\b(400|401|403|404|408|429|500|502|503|504)\b/);
+    return match ? Number(match[1]) : null;
+};
+
+/**
+ * Mengklasifikasikan error apa pun (SDK, fetch, validasi) ke salah satu `GradingErrorKind`.
+ */
+export const classifyGradingError = (error: any): { kind: GradingErrorKind; detail: string } => {
+    const detail = String(error?.message ?? error ?? 'Unknown error');
+
+    if (GRADING_ERROR_KINDS.includes(error?.kind)) {
+        return { kind: error.kind, detail };
+    }
+
+    if (error?.name === 'AbortError' || error?.name === 'TimeoutError') {
+        return { kind: 'timeout', detail };
+    }
+
+    // Kode status lebih dulu: pesan 429 bisa saja menyebut "API key" (misal kuota per key),
+    // dan jika salah diklasifikasikan sebagai 'auth' seluruh batch berhenti alih-alih di-retry.
+    const status = getErrorStatus(error);
+    if (status === 401 || status === 403) return { kind: 'auth', detail };
+    if (status === 429) return { kind: 'quota', detail };
+    if (status === 408 || status === 504) return { kind: 'timeout', detail };
+
+    // Tanpa status yang menentukan, jenis ditebak dari teks pesan.
+    // (Gemini melaporkan API Key tidak valid sebagai 400 "API key not valid".)
+    if (/timed? ?out|deadline/i.test(detail)) {
+        return { kind: 'timeout', detail };
+    }
+    if (/api[ _]?key|unauthenticated|permission_denied/i.test(detail)) {
+        return { kind: 'auth', detail };
+    }
+    if (/resource_exhausted|quota|rate ?limit/i.test(detail)) {
+        return { kind: 'quota', detail };
+    }
+    if (/safety|prohibited_content|blocklist/i.test(detail)) {
+        return { kind: 'safety', detail };
+    }
+    if (error instanceof SyntaxError || /json|validasi/i.test(detail)) {
+        return { kind: 'parse', detail };
+    }
+    return { kind: 'network', detail };
+};
+
+/**
+ * Kesalahan 'auth' dan 'safety' tidak akan berubah jika request diulang, jadi tidak di-retry.
+ * Request yang dibatalkan dosen juga tidak diulang.
+ */
+export const isRetryableError = (kind: GradingErrorKind): boolean => kind !== 'auth' && kind !== 'safety' && kind !== 'cancelled';
+
+/**
+ * Hasil gagal untuk request yang dihentikan melalui `GradingOptions.signal`.
+ * Dipakai provider di blok catch agar `AbortError` tidak diklasifikasikan sebagai timeout lalu di-retry.
+ */
+export const CANCELLED_OUTCOME: Extract<GradingOutcome, { ok: false }> = {
+    ok: false,
+    kind: 'cancelled',
+    detail: 'Penilaian dibatalkan oleh pengguna.',
+};
+
+/**
+ * Label singkat, judul, dan solusi untuk setiap jenis kesalahan (ditampilkan di kedua mode).
+ */
+export const GRADING_ERROR_INFO: Record<GradingErrorKind, { label: string; title: string; remedy: string }> = {
+    auth: {
+        label: 'API KEY',
+        title: 'API Key tidak valid atau belum diisi',
+        remedy: 'Buka menu Pengaturan untuk memperbaiki API Key Anda, lalu coba lagi.',
+    },
+    quota: {
+        label: 'KUOTA',
+        title: 'Kuota atau batas laju API habis',
+        remedy: 'Tunggu beberapa menit, turunkan Batas Paralel di Pengaturan, atau gunakan API Key dengan kuota lebih besar.',
+    },
+    safety: {
+        label: 'DIBLOKIR',
+        title: 'Diblokir oleh filter keamanan AI',
+        remedy: 'Periksa apakah dokumen berisi konten sensitif. Nilai berkas ini secara manual atau unggah versi yang sudah dibersihkan.',
+    },
+    parse: {
+        label: 'FORMAT',
+        title: 'Respons AI tidak dapat dibaca',
+        remedy: 'Coba lagi. Jika berulang, pilih model lain di Pengaturan atau perjelas penomoran soal pada kunci jawaban.',
+    },
+    network: {
+        label: 'JARINGAN',
+        title: 'Gagal terhubung ke server AI',
+        remedy: 'Periksa koneksi internet (atau Base URL server Ollama/vLLM di Pengaturan), lalu coba lagi.',
+    },
+    timeout: {
+        label: 'TIMEOUT',
+        title: 'Waktu pemrosesan habis',
+        remedy: 'Dokumen mungkin terlalu besar. Pecah menjadi beberapa file yang lebih kecil atau coba lagi saat server tidak sibuk.',
+    },
+    cancelled: {
+        label: 'DIBATALKAN',
+        title: 'Penilaian dibatalkan',
+        remedy: 'Periksa dokumen (misal foto terbalik atau buram), lalu nilai ulang berkas ini atau nilai secara manual.',
+    },
+};
+
+/**
+ * Menyusun pesan kesalahan lengkap (judul, solusi, detail teknis) untuk ditampilkan ke dosen.
+ */
+export const describeGradingFailure = (failure: Extract<GradingOutcome, { ok: false }>): string => {
+    const info = GRADING_ERROR_INFO[failure.kind];
+    return `${info.title}. ${info.remedy} (Detail: ${failure.detail})`;
+};
@@ -0,0 +1,203 @@
+/**
+ * @file gradingProvider.ts
+ * @description Kontrak abstrak untuk "Mesin Penilai" (Grading Provider).
+ *
+ * ARSITEKTUR:
+ * Komponen UI (GradingSystem & ClassMode) tidak pernah berbicara langsung dengan vendor AI.
+ * Mereka memanggil `gradeAnswer` (geminiService), yang kemudian meneruskan permintaan ke
+ * provider yang sedang aktif. Provider cukup mengimplementasikan interface `GradingProvider`.
+ *
+ * Provider yang tersedia:
+ * - 'gemini' : Google Gemini API (default, produksi).
+ * - 'openai' : Endpoint OpenAI-compatible (Ollama / vLLM kampus), data tidak dikirim ke Google.
+ * - 'mock'   : Penilai lokal deterministik tanpa jaringan & tanpa API Key (demo / uji regresi).
+ */
+
+import { AnswerKeyOutcome, AnswerKeyQuestion, FeedbackDetail, GradeResult, GradingOutcome, GradingPreset, Rubric, StudentFeedbackOutcome, TranscriptOutcome } from "../types";
+import { AnswerKeyCache } from "./contextCache";
+import { BatchJobBackend } from "./batchJobs";
+
+// Definisi tipe untuk bagian konten yang dapat dikirim ke API AI.
+// Bisa berupa teks sederhana atau data biner inline (gambar/PDF) yang dikodekan dalam Base64.
+export type ContentPart = { text: string; } | { inlineData: { data: string; mimeType: string; }; };
+
+/**
+ * Payload kunci jawaban dosen. Salah satu dari `text` (input manual) atau `parts` (file) diisi.
+ * Jika `structured` diisi (kunci hasil ekstraksi yang sudah ditinjau), kunci mentah tidak dikirim lagi.
+ */
+export interface LecturerAnswerPayload {
+    parts?: ContentPart[];
+    text?: string;
+    structured?: AnswerKeyQuestion[];
+}
+
+/**
+ * Opsi tambahan penilaian yang diteruskan apa adanya ke provider.
+ */
+export interface GradingOptions {
+    /** Rubrik terstruktur dosen (poin maksimal, bobot kriteria, deskriptor level). */
+    rubric?: Rubric | null;
+    /**
+     * Preset prompt (ketegasan, nada, instruksi tambahan). Jika kosong, `gradeAnswer` memakai preset aktif
+     * dari Pengaturan; provider menyusun instruksi sistem dengan `buildGradingInstruction`.
+     */
+    preset?: GradingPreset | null;
+    /**
+     * Nama entri cache konteks berisi kunci + rubrik + instruksi sistem (lihat contextCache.ts).
+     * Jika diisi, provider hanya mengirim jawaban mahasiswa dan mereferensikan entri ini.
+     */
+    cachedContent?: string | null;
+    /**
+     * Model untuk request ini (penilaian konsensus multi-model). Dipakai provider Gemini dan
+     * OpenAI-compatible; jika kosong, provider memakai model dari Pengaturan.
+     */
+    model?: string;
+    /**
+     * STREAMING: dipanggil setiap kali respons yang sedang mengalir memuat soal baru yang lengkap
+     * (hasil sementara, belum divalidasi penuh). Provider tanpa dukungan streaming tidak memanggilnya.
+     */
+    onProgress?: (partialFeedback: FeedbackDetail[]) => void;
+    /** Membatalkan request yang sedang berjalan (misal dosen melihat OCR jelas keliru). */
+    signal?: AbortSignal;
+}
+
+/**
+ * Kontrak yang wajib dipenuhi setiap mesin penilai.
+ */
+export interface GradingProvider {
+    /** Identifier unik provider (disimpan di localStorage). */
+    id: GradingProviderId;
+
+    /** Nama yang ditampilkan di UI. */
+    name: string;
+
+    /**
+     * Menilai satu submission mahasiswa terhadap kunci jawaban dosen.
+     * Provider TIDAK melempar exception ke UI: setiap kegagalan diklasifikasikan (lihat gradingErrors.ts).
+     * @returns `{ ok: true, result }`, atau `{ ok: false, kind, detail }` jika gagal.
+     */
+    grade(studentAnswerParts: ContentPart[], lecturerAnswer: LecturerAnswerPayload, options?: GradingOptions): Promise<GradingOutcome>;
+
+    /**
+     * Mengubah kunci jawaban mentah (file/teks) menjadi daftar soal terstruktur untuk ditinjau dosen.
+     */
+    extractAnswerKey(lecturerAnswer: LecturerAnswerPayload): Promise<AnswerKeyOutcome>;
+
+    /**
+     * Tahap 1 pipeline dua tahap: transkripsi verbatim per halaman (vision/OCR) TANPA penilaian.
+     * Hanya `options.signal` yang dipakai.
+     */
+    transcribe(studentAnswerParts: ContentPart[], options?: GradingOptions): Promise<TranscriptOutcome>;
+
+    /**
+     * Menulis surat umpan balik untuk mahasiswa (orang kedua) dari hasil penilaian yang sudah final.
+     * Hanya `options.signal` yang dipakai.
+     */
+    writeStudentFeedback(result: GradeResult, options?: GradingOptions): Promise<StudentFeedbackOutcome>;
+
+    /**
+     * (Opsional) Membuat cache konteks kunci jawaban untuk satu batch. Provider tanpa dukungan
+     * caching tidak mengimplementasikannya; kunci kemudian dikirim penuh untuk setiap mahasiswa.
+     */
+    openAnswerKeyCache?(lecturerAnswer: LecturerAnswerPayload, options?: GradingOptions): Promise<AnswerKeyCache>;
+
+    /**
+     * (Opsional) Server batch job asinkron untuk kelas besar (lihat batchJobs.ts). Boleh melempar error
+     * (misal API Key tidak ada). Provider tanpa dukungan batch tidak mengimplementasikannya.
+     */
+    createBatchBackend?(): BatchJobBackend;
+}
+
+export type GradingProviderId = 'gemini' | 'openai' | 'mock';
+
+// Kunci localStorage untuk preferensi provider (konsisten dengan USER_GEMINI_MODEL, dll.)
+export const PROVIDER_STORAGE_KEY = 'USER_GRADING_PROVIDER';
+
+const DEFAULT_PROVIDER: GradingProviderId = 'gemini';
+
+// Fungsi untuk mendapatkan Provider yang dipilih (Prioritas: LocalStorage > Default)
+export const getSelectedProviderId = (): GradingProviderId => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+    if (saved === 'gemini' || saved === 'openai' || saved === 'mock') {
+        return saved;
+    }
+    return DEFAULT_PROVIDER;
+};
+
+/**
+ * Alur penilaian:
+ * - 'single'   : satu prompt sekaligus OCR, memetakan, dan menilai (lebih cepat & murah).
+ * - 'two-pass' : transkripsi per halaman dulu, lalu penilaian atas teks transkrip. Kesalahan OCR dan
+ *                kesalahan penilaian dapat dibedakan, dan transkrip dapat dikoreksi lalu dinilai ulang.
+ */
+export type GradingPipelineMode = 'single' | 'two-pass';
+
+export const PIPELINE_STORAGE_KEY = 'USER_GRADING_PIPELINE';
+
+// Fungsi untuk mendapatkan alur penilaian (Prioritas: LocalStorage > Default 'single')
+export const getPipelineMode = (): GradingPipelineMode => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem(PIPELINE_STORAGE_KEY) : null;
+    return saved === 'two-pass' ? 'two-pass' : 'single';
+};
+
+/**
+ * Surat umpan balik mahasiswa dibuat otomatis setelah setiap penilaian (satu request tambahan per mahasiswa).
+ * Jika nonaktif, surat tetap dapat dibuat per mahasiswa dari tampilan detail hasil.
+ */
+export const STUDENT_FEEDBACK_STORAGE_KEY = 'USER_STUDENT_FEEDBACK';
+
+// Fungsi untuk mengetahui apakah surat dibuat otomatis (Prioritas: LocalStorage > Default nonaktif)
+export const isStudentFeedbackEnabled = (): boolean => {
+    return typeof window !== 'undefined' && localStorage.getItem(STUDENT_FEEDBACK_STORAGE_KEY) === 'true';
+};
+
+/**
+ * Rantai model cadangan (khusus Gemini): jika model utama terus mengembalikan 429/503 hingga batas retry,
+ * penilaian dilanjutkan dengan model berikutnya sesuai urutan (misal Pro -> 2.5 Flash -> 2.0 Flash).
+ */
+// JSON array ID model dari AVAILABLE_MODELS, berurutan. Kosong = tanpa cadangan.
+export const FALLBACK_MODELS_STORAGE_KEY = 'USER_FALLBACK_MODELS';
+
+// Fungsi untuk mendapatkan urutan model cadangan (Prioritas: LocalStorage > Default tanpa cadangan)
+export const getFallbackModels = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(FALLBACK_MODELS_STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter((m): m is string => typeof m === 'string' && m.length > 0) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Penilaian konsensus: setiap submission dinilai `samples` kali lalu digabung (median per soal,
+ * lihat utils/consensusUtils.ts). Jika `models` berisi >= 2 model (khusus Gemini), satu sampel per model.
+ */
+export interface ConsensusConfig {
+    samples: number;
+    models: string[];
+}
+
+export const CONSENSUS_SAMPLES_STORAGE_KEY = 'USER_CONSENSUS_SAMPLES';
+// JSON array ID model dari AVAILABLE_MODELS.
+export const CONSENSUS_MODELS_STORAGE_KEY = 'USER_CONSENSUS_MODELS';
+export const MAX_CONSENSUS_SAMPLES = 5;
+
+// Fungsi untuk mendapatkan konfigurasi konsensus (Prioritas: LocalStorage > Default nonaktif)
+export const getConsensusConfig = (): ConsensusConfig => {
+    if (typeof window === 'undefined') return { samples: 1, models: [] };
+
+    let models: string[] = [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(CONSENSUS_MODELS_STORAGE_KEY) || '[]');
+        if (Array.isArray(saved)) models = saved.filter((m): m is string => typeof m === 'string' && m.length > 0);
+    } catch {
+        models = [];
+    }
+    if (getSelectedProviderId() === 'gemini' && models.length >= 2) {
+        return { samples: models.length, models };
+    }
+
+    const samples = parseInt(localStorage.getItem(CONSENSUS_SAMPLES_STORAGE_KEY) || '1', 10);
+    return { samples: Number.isFinite(samples) ? Math.min(Math.max(samples, 1), MAX_CONSENSUS_SAMPLES) : 1, models: [] };
+};
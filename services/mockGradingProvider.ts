@@ -0,0 +1,217 @@
+/**
+ * @file mockGradingProvider.ts
+ * @description Provider penilaian LOKAL (offline) yang mengembalikan `GradeResult` tiruan secara deterministik.
+ *
+ * KEGUNAAN:
+ * - Demo aplikasi tanpa API Key dan tanpa koneksi internet.
+ * - Uji regresi alur batch Mode Kelas (worker pool, progres, ekspor Excel) tanpa biaya kuota.
+ *
+ * DETERMINISME:
+ * Skor diturunkan dari hash (FNV-1a) konten jawaban mahasiswa. Input yang sama SELALU
+ * menghasilkan output yang sama, sehingga hasilnya bisa dibandingkan antar-run.
+ *
+ * BATCH JOB:
+ * Memakai server batch job tiruan (`createLocalBatchBackend`) yang menilai di latar belakang dengan penilai
+ * ini dan menyimpan status job di localStorage, sehingga alur kirim-poll-ambil Mode Kelas dapat diuji offline.
+ *
+ * CACHE KONTEKS:
+ * Memakai backend cache lokal (`createLocalCacheBackend`) sehingga siklus hidup cache per batch
+ * dapat diverifikasi offline: penilaian yang mereferensikan entri yang sudah dihapus akan gagal.
+ */
+
+import { AnswerKeyOutcome, FeedbackDetail, GradeResult, GradingOutcome, StudentFeedbackOutcome, TranscriptOutcome } from "../types";
+import { ContentPart, GradingOptions, GradingProvider, LecturerAnswerPayload } from "./gradingProvider";
+import { findRubricQuestion, getCriterionMaxPoints, isRubricUsable, roundPoints } from "../utils/rubricUtils";
+import { detectQuestionNumbers, getExpectedQuestions } from "./resultValidator";
+import { ANSWER_KEY_CACHE_TTL_SECONDS, AnswerKeyCache, createLocalCacheBackend, openAnswerKeyCache } from "./contextCache";
+import { buildAnswerKeyParts, buildGradingInstruction } from "./gradingPrompt";
+import { CANCELLED_OUTCOME } from "./gradingErrors";
+import { createLocalBatchBackend } from "./batchJobs";
+
+// Simulasi latensi jaringan agar UI loading tetap terlihat realistis saat demo.
+const MOCK_LATENCY_MS = 600;
+
+// Jeda antar-soal saat progres streaming disimulasikan (`options.onProgress`).
+const MOCK_STREAM_STEP_MS = 300;
+
+// Jumlah soal default jika nomor soal tidak dapat dideteksi dari kunci jawaban.
+const DEFAULT_QUESTION_COUNT = 3;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Penyimpanan cache lokal Mode Demo (diekspor agar isinya dapat diperiksa).
+export const mockCacheBackend = createLocalCacheBackend();
+
+/**
+ * Hash string 32-bit (FNV-1a). Cepat, stabil, dan cukup untuk membuat skor tiruan.
+ */
+const hashString = (input: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Menggabungkan seluruh bagian konten menjadi satu string sidik jari (fingerprint).
+ */
+const fingerprintParts = (parts: ContentPart[]): string => {
+    return parts.map(p => ('text' in p ? p.text : `${p.inlineData.mimeType}:${p.inlineData.data}`)).join('\n');
+};
+
+export const mockGradingProvider: GradingProvider = {
+    id: 'mock',
+    name: 'Mode Demo (Offline)',
+
+    async grade(studentAnswerParts: ContentPart[], lecturerAnswer: LecturerAnswerPayload, options: GradingOptions = {}): Promise<GradingOutcome> {
+        await sleep(MOCK_LATENCY_MS);
+
+        if (options.cachedContent && !mockCacheBackend.has(options.cachedContent)) {
+            return { ok: false, kind: 'network', detail: `Cached content ${options.cachedContent} tidak ditemukan.` };
+        }
+
+        const fingerprint = fingerprintParts(studentAnswerParts);
+        const rubric = isRubricUsable(options.rubric) ? options.rubric : null;
+        const expectedNumbers = getExpectedQuestions(lecturerAnswer, rubric).numbers;
+        const questionNumbers = expectedNumbers.length > 0
+            ? expectedNumbers
+            : Array.from({ length: DEFAULT_QUESTION_COUNT }, (_, i) => String(i + 1));
+        // Jumlah penanda halaman PDF (lihat utils/pdfUtils.ts): soal disebar merata ke halaman yang ada.
+        const pageCount = studentAnswerParts.filter(p => 'text' in p && p.text.startsWith('--- Halaman ')).length;
+
+        const detailedFeedback: FeedbackDetail[] = questionNumbers.map((questionNumber, index) => {
+            // Rentang skor 40-100 agar distribusi nilai terlihat wajar di histogram.
+            const score = 40 + (hashString(`${questionNumber}|${fingerprint}`) % 61);
+
+            // Dengan rubrik: poin setiap kriteria = persentase skor x poin maksimal kriteria.
+            const rubricQuestion = findRubricQuestion(rubric, questionNumber);
+            const rubricFields: Partial<FeedbackDetail> = {};
+            if (rubricQuestion) {
+                const criteriaScores = rubricQuestion.criteria.map(criterion => {
+                    const maxPoints = getCriterionMaxPoints(rubricQuestion, criterion);
+                    return {
+                        criterionId: criterion.id,
+                        criterionName: criterion.name,
+                        points: roundPoints(maxPoints * score / 100),
+                        maxPoints,
+                    };
+                });
+                rubricFields.maxPoints = rubricQuestion.maxPoints;
+                rubricFields.points = criteriaScores.length > 0
+                    ? roundPoints(criteriaScores.reduce((sum, c) => sum + c.points, 0))
+                    : roundPoints(rubricQuestion.maxPoints * score / 100);
+                rubricFields.criteriaScores = criteriaScores;
+            }
+
+            // Keyakinan 50-100; sebagian kecil soal ditandai sulit dibaca agar antrean tinjauan ikut teruji.
+            const confidence = 50 + (hashString(`confidence|${questionNumber}|${fingerprint}`) % 51);
+            const legibility = confidence < 60 ? 'partial' : 'clear';
+
+            return {
+                ...rubricFields,
+                questionNumber,
+                questionText: `[DEMO] Pertanyaan nomor ${questionNumber}`,
+                lecturerAnswer: `[DEMO] Kunci jawaban nomor ${questionNumber}`,
+                studentAnswer: `[DEMO] Jawaban mahasiswa untuk nomor ${questionNumber}`,
+                score,
+                confidence,
+                legibility,
+                page: pageCount > 0 ? Math.floor(index * pageCount / questionNumbers.length) + 1 : undefined,
+                feedback: `[DEMO] Skor ${score} dihasilkan oleh penilai tiruan (mock). Bukan hasil analisis AI.`,
+            };
+        });
+
+        // Simulasi streaming: soal dilaporkan satu per satu dan dapat dibatalkan di tengah jalan.
+        if (options.onProgress) {
+            for (let i = 1; i <= detailedFeedback.length; i++) {
+                await sleep(MOCK_STREAM_STEP_MS);
+                if (options.signal?.aborted) return CANCELLED_OUTCOME;
+                options.onProgress(detailedFeedback.slice(0, i));
+            }
+        }
+        if (options.signal?.aborted) return CANCELLED_OUTCOME;
+
+        const grade = Math.round(detailedFeedback.reduce((sum, fb) => sum + fb.score, 0) / detailedFeedback.length);
+
+        return {
+            ok: true,
+            result: {
+                grade,
+                detailedFeedback,
+                improvements: '[DEMO] Hasil ini dibuat oleh Mode Demo (Offline) tanpa memanggil AI.',
+                studentText: `[DEMO] ${studentAnswerParts.length} bagian dokumen diterima (sidik jari: ${hashString(fingerprint).toString(16)}).`,
+                model: 'mock',
+            },
+        };
+    },
+
+    async extractAnswerKey(lecturerAnswer: LecturerAnswerPayload): Promise<AnswerKeyOutcome> {
+        await sleep(MOCK_LATENCY_MS);
+
+        const detectedNumbers = detectQuestionNumbers(lecturerAnswer);
+        const questionNumbers = detectedNumbers.length > 0
+            ? detectedNumbers
+            : Array.from({ length: DEFAULT_QUESTION_COUNT }, (_, i) => String(i + 1));
+
+        return {
+            ok: true,
+            questions: questionNumbers.map(questionNumber => ({
+                questionNumber,
+                questionText: `[DEMO] Pertanyaan nomor ${questionNumber}`,
+                modelAnswer: `[DEMO] Kunci jawaban nomor ${questionNumber}`,
+                maxPoints: 0,
+            })),
+        };
+    },
+
+    async transcribe(studentAnswerParts: ContentPart[], options: GradingOptions = {}): Promise<TranscriptOutcome> {
+        await sleep(MOCK_LATENCY_MS);
+        if (options.signal?.aborted) return CANCELLED_OUTCOME;
+
+        // Teks (hasil ekstraksi Office) disalin apa adanya; gambar/PDF diberi transkrip tiruan.
+        return {
+            ok: true,
+            pages: studentAnswerParts.map((part, i) => ({
+                page: i + 1,
+                text: 'text' in part
+                    ? part.text
+                    : `[DEMO] Transkrip halaman ${i + 1} (${part.inlineData.mimeType}, sidik jari: ${hashString(part.inlineData.data).toString(16)}).`,
+            })),
+        };
+    },
+
+    async writeStudentFeedback(result: GradeResult, options: GradingOptions = {}): Promise<StudentFeedbackOutcome> {
+        await sleep(MOCK_LATENCY_MS);
+        if (options.signal?.aborted) return CANCELLED_OUTCOME;
+
+        // Surat tiruan disusun langsung dari skor final agar alur ekspor dapat diuji offline.
+        const lines = [
+            'Halo,',
+            `[DEMO] Nilai akhir Anda untuk tugas ini adalah ${result.grade}.`,
+            ...result.detailedFeedback.map(fb => `- Soal ${fb.questionNumber}: skor Anda ${fb.score}${fb.maxPoints ? ` (${fb.points ?? 0}/${fb.maxPoints} poin)` : ''}.`),
+            'Surat ini dibuat oleh Mode Demo (Offline) tanpa memanggil AI. Tetap semangat belajar!',
+        ];
+        return { ok: true, letter: lines.join('\n') };
+    },
+
+    openAnswerKeyCache(lecturerAnswer: LecturerAnswerPayload, options: GradingOptions = {}): Promise<AnswerKeyCache> {
+        return openAnswerKeyCache(mockCacheBackend, {
+            model: 'mock',
+            systemInstruction: buildGradingInstruction(options.preset),
+            parts: buildAnswerKeyParts(lecturerAnswer, options.rubric),
+            ttlSeconds: ANSWER_KEY_CACHE_TTL_SECONDS,
+        });
+    },
+
+    createBatchBackend: () => mockBatchBackend,
+};
+
+// Kunci localStorage server batch job tiruan Mode Demo.
+export const MOCK_BATCH_STORAGE_KEY = 'MOCK_BATCH_JOBS';
+
+export const mockBatchBackend = createLocalBatchBackend(
+    (studentAnswerParts, lecturerAnswer, options) => mockGradingProvider.grade(studentAnswerParts, lecturerAnswer, options),
+    MOCK_BATCH_STORAGE_KEY
+);
@@ -0,0 +1,347 @@
+/**
+ * @file openaiCompatibleService.ts
+ * @description Provider penilaian untuk endpoint apa pun yang kompatibel dengan OpenAI Chat Completions
+ * (`POST {baseUrl}/chat/completions`), misalnya server Ollama atau vLLM milik kampus.
+ *
+ * PRIVASI:
+ * Dengan provider ini, data mahasiswa tidak pernah dikirim ke Google. Seluruh inferensi berjalan
+ * di server yang ditentukan dosen melalui menu Pengaturan (Base URL).
+ *
+ * KONSISTENSI:
+ * Instruksi sistem dan bentuk JSON `GradeResult`/`FeedbackDetail` diambil dari gradingPrompt.ts,
+ * sama persis dengan yang dipakai provider Gemini.
+ */
+
+import { AnswerKeyOutcome, GradeResult, GradingOutcome, StudentFeedbackOutcome, TokenUsage, TranscriptOutcome } from "../types";
+import { ContentPart, GradingOptions, GradingProvider, LecturerAnswerPayload } from "./gradingProvider";
+import { ANSWER_KEY_RESPONSE_SCHEMA, KEY_EXTRACTION_INSTRUCTION, STUDENT_FEEDBACK_INSTRUCTION, STUDENT_FEEDBACK_RESPONSE_SCHEMA, TRANSCRIPTION_INSTRUCTION, TRANSCRIPT_RESPONSE_SCHEMA, buildGradingInstruction, buildGradingParts, buildKeyExtractionParts, buildRepairInstruction, buildStudentFeedbackParts, buildTranscriptionParts, getResponseSchema, toJsonSchema } from "./gradingPrompt";
+import { attachValidationWarnings, getExpectedQuestions, parseAndValidateGradeResult, parseAnswerKey, parsePartialFeedback, parseStudentFeedback, parseTranscript } from "./resultValidator";
+import { classifyGradingError, createGradingError } from "./gradingErrors";
+import { EXPECTED_OUTPUT_TOKENS, STUDENT_FEEDBACK_OUTPUT_TOKENS, acquireRateLimit, estimatePartsTokens, reportTokenUsage } from "./rateLimiter";
+import { withRetry } from "./retryPolicy";
+
+// Default mengarah ke Ollama lokal (endpoint OpenAI-compatible bawaan Ollama).
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.2-vision';
+
+// Fungsi untuk mendapatkan Base URL (Prioritas: LocalStorage > Default)
+const getBaseUrl = (): string => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('USER_OPENAI_BASE_URL') : null;
+    const baseUrl = saved && saved.trim().length > 0 ? saved.trim() : DEFAULT_OPENAI_BASE_URL;
+    return baseUrl.replace(/\/+$/, '');
+};
+
+// API Key bersifat opsional: Ollama/vLLM lokal umumnya tidak memerlukannya.
+const getApiKey = (): string | null => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('USER_OPENAI_API_KEY') : null;
+    return saved && saved.trim().length > 0 ? saved.trim() : null;
+};
+
+export const getOpenAIModel = (): string => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('USER_OPENAI_MODEL') : null;
+    return saved && saved.trim().length > 0 ? saved.trim() : DEFAULT_OPENAI_MODEL;
+};
+
+/**
+ * Bentuk minimal pesan & respons Chat Completions yang dipakai provider ini.
+ */
+type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | ChatContentPart[];
+}
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+    usage?: ChatUsage;
+}
+
+/** Potongan respons streaming (`stream: true`). */
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+    usage?: ChatUsage | null;
+}
+
+/**
+ * Mengonversi `ContentPart` (format Gemini) ke format konten pesan OpenAI.
+ * Gambar dikirim sebagai data URI. Tipe biner lain (misal PDF) tidak didukung oleh
+ * sebagian besar server OpenAI-compatible, sehingga diganti dengan catatan teks untuk model.
+ */
+const toChatContent = (part: ContentPart): ChatContentPart => {
+    if ('text' in part) {
+        return { type: 'text', text: part.text };
+    }
+    const { mimeType, data } = part.inlineData;
+    if (mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    return { type: 'text', text: `[Lampiran bertipe ${mimeType} tidak dapat dibaca oleh server ini. Laporkan kepada Dosen bahwa dokumen tidak terbaca.]` };
+};
+
+/**
+ * Beberapa model lokal membungkus JSON dengan blok kode Markdown meskipun diminta JSON murni.
+ */
+const stripCodeFences = (text: string): string => {
+    const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return fenced ? fenced[1] : text;
+};
+
+/**
+ * Server non-Gemini tidak mengenal `responseSchema`, jadi schema disisipkan ke instruksi sistem.
+ */
+const withSchemaInstruction = (instruction: string, schema: object): string => `${instruction}
+**FORMAT OUTPUT (WAJIB):**
+Balas HANYA dengan satu objek JSON valid (tanpa Markdown) yang mematuhi JSON Schema berikut:
+${JSON.stringify(toJsonSchema(schema))}
+`;
+
+/**
+ * Membaca respons streaming (Server-Sent Events `data: {...}`) dan menggabungkan `delta.content`.
+ * `onText` dipanggil dengan teks kumulatif setiap kali potongan baru tiba.
+ */
+const readChatStream = async (response: Response, onText: (text: string) => void): Promise<ChatCompletionResponse> => {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: ChatUsage | undefined;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const data = line.trim();
+            if (!data.startsWith('data:') || data === 'data: [DONE]') continue;
+            try {
+                const chunk: ChatCompletionChunk = JSON.parse(data.slice(5));
+                text += chunk?.choices?.[0]?.delta?.content || '';
+                usage = chunk?.usage ?? usage;
+            } catch {
+                // Baris keep-alive / potongan tidak lengkap diabaikan.
+            }
+        }
+        onText(text);
+    }
+    // Bentuk disamakan dengan respons non-streaming agar diproses oleh jalur yang sama.
+    return { choices: [{ message: { content: text } }], usage };
+};
+
+/**
+ * Satu panggilan chat completion ke `model` melalui rate limiter bersama.
+ * Jika `onText` diisi, respons diminta dalam mode streaming (`stream: true`).
+ * @returns Teks konten pesan (tanpa pagar Markdown) beserta pemakaian token aktual.
+ */
+const requestChatCompletion = async (
+    model: string,
+    chatMessages: ChatMessage[],
+    tokens: number,
+    stream: { signal?: AbortSignal; onText?: (text: string) => void } = {}
+): Promise<{ text: string; usage: TokenUsage }> => {
+    const apiKey = getApiKey();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    await acquireRateLimit(model, tokens, stream.signal);
+    const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            model,
+            temperature: 0, // Deterministic: Menjamin hasil yang konsisten dan non-subjektif
+            response_format: { type: 'json_object' },
+            messages: chatMessages,
+            ...(stream.onText ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: stream.signal,
+    });
+
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        // `status` dibaca oleh classifyGradingError (401 -> auth, 429 -> quota, dst.),
+        // `retryAfterMs` oleh getRetryDelayMs (header Retry-After dalam detik).
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        throw Object.assign(new Error(`HTTP ${response.status}: ${detail.slice(0, 200)}`), {
+            status: response.status,
+            retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+        });
+    }
+
+    const data: ChatCompletionResponse = stream.onText && response.body ? await readChatStream(response, stream.onText) : await response.json();
+    reportTokenUsage(model, tokens, data?.usage?.total_tokens);
+    const text = data?.choices?.[0]?.message?.content;
+    if (!text) {
+        throw createGradingError('parse', "Empty response from AI");
+    }
+    return {
+        text: stripCodeFences(text),
+        usage: { inputTokens: data?.usage?.prompt_tokens || 0, outputTokens: data?.usage?.completion_tokens || 0 },
+    };
+};
+
+/**
+ * Menilai jawaban siswa menggunakan endpoint OpenAI-compatible (Provider 'openai').
+ * Retry & backoff: `withRetry` (retryPolicy.ts), sama dengan provider Gemini.
+ */
+const gradeWithOpenAICompatible = async (
+    studentAnswerParts: ContentPart[],
+    lecturerAnswer: LecturerAnswerPayload,
+    options: GradingOptions = {}
+): Promise<GradingOutcome> => {
+    // Model konsensus (jika ada) atau model dari Pengaturan.
+    const model = options.model || getOpenAIModel();
+    const systemPrompt = withSchemaInstruction(buildGradingInstruction(options.preset), getResponseSchema(options.rubric));
+
+    const gradingParts = buildGradingParts(studentAnswerParts, lecturerAnswer, options.rubric);
+    const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: gradingParts.map(toChatContent) },
+    ];
+
+    // Estimasi token untuk rate limiter bersama (lihat rateLimiter.ts)
+    const estimatedTokens = estimatePartsTokens(gradingParts) + Math.ceil(systemPrompt.length / 4) + EXPECTED_OUTPUT_TOKENS;
+
+    // Pemakaian token aktual seluruh percobaan, termasuk yang gagal (lihat geminiService.ts).
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    // STREAMING (lihat geminiService.ts): hanya request utama yang dialirkan, bukan re-prompt perbaikan.
+    const requestCompletion = async (chatMessages: ChatMessage[], tokens: number, streamProgress = false): Promise<string> => {
+        let reported = 0;
+        const onText = streamProgress && options.onProgress
+            ? (text: string) => {
+                const partial = parsePartialFeedback(text);
+                if (partial.length > reported) {
+                    reported = partial.length;
+                    options.onProgress!(partial);
+                }
+            }
+            : undefined;
+        const completion = await requestChatCompletion(model, chatMessages, tokens, { signal: options.signal, onText });
+        usage = {
+            inputTokens: usage.inputTokens + completion.usage.inputTokens,
+            outputTokens: usage.outputTokens + completion.usage.outputTokens,
+        };
+        return completion.text;
+    };
+
+    const expected = getExpectedQuestions(lecturerAnswer, options.rubric);
+
+    const gradingOutcome = await withRetry(async (attempt): Promise<GradingOutcome> => {
+        const text = await requestCompletion(messages, estimatedTokens, true);
+        let outcome = parseAndValidateGradeResult(text, expected, options.rubric);
+
+        // REPAIR RE-PROMPT (lihat geminiService.ts untuk alasan desain)
+        if (!outcome.result) {
+            console.warn("[OpenAI-compatible] Validasi respons gagal, menjalankan re-prompt perbaikan:", outcome.errors);
+            const repairedText = await requestCompletion([
+                ...messages,
+                { role: 'assistant', content: text },
+                { role: 'user', content: buildRepairInstruction(outcome.errors, expected) },
+            ], estimatedTokens + Math.ceil(text.length / 4));
+            const strictRepair = parseAndValidateGradeResult(repairedText, expected, options.rubric);
+            // Upaya terakhir: skor/poin di luar rentang yang tetap salah setelah perbaikan dijepit (clamp).
+            const repaired = strictRepair.result ? strictRepair : parseAndValidateGradeResult(repairedText, expected, options.rubric, { clampScores: true });
+            if (!repaired.result) {
+                throw createGradingError('parse', `Validasi respons AI gagal: ${strictRepair.errors.join(' ')}`);
+            }
+            outcome = {
+                ...repaired,
+                warnings: [`Respons awal AI tidak valid dan telah diperbaiki otomatis (${outcome.errors.join(' ')})`, ...repaired.warnings],
+            };
+        }
+
+        return { ok: true, result: { ...attachValidationWarnings(outcome.result!, outcome.warnings), usage, model }, attempts: attempt };
+    }, { label: '[OpenAI-compatible] Grading', getModel: () => model, signal: options.signal });
+    return gradingOutcome.ok === false ? { ...gradingOutcome, usage } : gradingOutcome;
+};
+
+/**
+ * Langkah "Ekstrak Kunci" melalui endpoint OpenAI-compatible (satu percobaan; dosen dapat mengulang).
+ */
+const extractKeyWithOpenAICompatible = async (lecturerAnswer: LecturerAnswerPayload): Promise<AnswerKeyOutcome> => {
+    const parts = buildKeyExtractionParts(lecturerAnswer);
+    const systemPrompt = withSchemaInstruction(KEY_EXTRACTION_INSTRUCTION, ANSWER_KEY_RESPONSE_SCHEMA);
+    try {
+        const { text } = await requestChatCompletion(getOpenAIModel(), [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: parts.map(toChatContent) },
+        ], estimatePartsTokens(parts) * 2 + Math.ceil(systemPrompt.length / 4));
+
+        const questions = parseAnswerKey(text);
+        if (!questions) {
+            return { ok: false, kind: 'parse', detail: 'Tidak ada soal yang dapat diekstrak dari kunci jawaban.' };
+        }
+        return { ok: true, questions };
+    } catch (error: any) {
+        console.error("[OpenAI-compatible] Ekstraksi kunci gagal:", error);
+        return { ok: false, ...classifyGradingError(error) };
+    }
+};
+
+/**
+ * Tahap transkripsi melalui endpoint OpenAI-compatible (model harus mendukung input gambar).
+ * Retry & backoff: `withRetry` (retryPolicy.ts).
+ */
+const transcribeWithOpenAICompatible = async (studentAnswerParts: ContentPart[], options: GradingOptions = {}): Promise<TranscriptOutcome> => {
+    const model = getOpenAIModel();
+    const parts = buildTranscriptionParts(studentAnswerParts);
+    const systemPrompt = withSchemaInstruction(TRANSCRIPTION_INSTRUCTION, TRANSCRIPT_RESPONSE_SCHEMA);
+    const estimatedTokens = estimatePartsTokens(parts) + Math.ceil(systemPrompt.length / 4) + EXPECTED_OUTPUT_TOKENS;
+
+    return withRetry(async (): Promise<TranscriptOutcome> => {
+        const { text, usage } = await requestChatCompletion(model, [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: parts.map(toChatContent) },
+        ], estimatedTokens, { signal: options.signal });
+
+        const pages = parseTranscript(text);
+        if (!pages) {
+            throw createGradingError('parse', 'Transkrip kosong atau JSON transkripsi tidak valid.');
+        }
+        return { ok: true, pages, usage };
+    }, { label: '[OpenAI-compatible] Transcription', getModel: () => model, signal: options.signal });
+};
+
+/**
+ * Surat umpan balik mahasiswa melalui endpoint OpenAI-compatible (teks saja).
+ * Retry & backoff: `withRetry` (retryPolicy.ts).
+ */
+const writeFeedbackWithOpenAICompatible = async (result: GradeResult, options: GradingOptions = {}): Promise<StudentFeedbackOutcome> => {
+    const model = getOpenAIModel();
+    const parts = buildStudentFeedbackParts(result);
+    const systemPrompt = withSchemaInstruction(STUDENT_FEEDBACK_INSTRUCTION, STUDENT_FEEDBACK_RESPONSE_SCHEMA);
+    const estimatedTokens = estimatePartsTokens(parts) + Math.ceil(systemPrompt.length / 4) + STUDENT_FEEDBACK_OUTPUT_TOKENS;
+
+    return withRetry(async (): Promise<StudentFeedbackOutcome> => {
+        const { text, usage } = await requestChatCompletion(model, [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: parts.map(toChatContent) },
+        ], estimatedTokens, { signal: options.signal });
+
+        const letter = parseStudentFeedback(text);
+        if (!letter) {
+            throw createGradingError('parse', 'Surat umpan balik kosong atau JSON tidak valid.');
+        }
+        return { ok: true, letter, usage };
+    }, { label: '[OpenAI-compatible] Student feedback', getModel: () => model, signal: options.signal });
+};
+
+export const openaiCompatibleProvider: GradingProvider = {
+    id: 'openai',
+    name: 'OpenAI-Compatible (Ollama / vLLM)',
+    grade: gradeWithOpenAICompatible,
+    extractAnswerKey: extractKeyWithOpenAICompatible,
+    transcribe: transcribeWithOpenAICompatible,
+    writeStudentFeedback: writeFeedbackWithOpenAICompatible,
+};
@@ -0,0 +1,155 @@
+/**
+ * @file promptPresets.ts
+ * @description Preset prompt penilaian yang dapat diedit dan berversi.
+ *
+ * LATAR BELAKANG:
+ * Instruksi sistem penilaian sebelumnya satu string tetap. Dosen kini memilih preset bernama
+ * (misal "Mekanis Ketat", "Formatif Longgar", "Laporan Praktikum") dengan ketegasan, nada, dan
+ * instruksi tambahan yang dapat diedit. Instruksi akhirnya disusun oleh `buildGradingInstruction`.
+ *
+ * VERSI:
+ * Setiap penyimpanan menambah nomor versi; SEMUA versi disimpan (tidak pernah ditimpa) sehingga
+ * `GradeResult.preset` (id + versi) selalu dapat dirujuk kembali ke instruksi yang dipakai saat menilai.
+ */
+
+import { GradingPreset, PresetReference, PresetStrictness, PresetTone } from "../types";
+
+// Kunci localStorage: JSON array seluruh versi preset yang pernah disimpan dosen.
+export const PRESETS_STORAGE_KEY = 'USER_GRADING_PRESETS';
+// Kunci localStorage: id preset aktif (dipakai jika batch tidak memilih preset sendiri).
+export const ACTIVE_PRESET_STORAGE_KEY = 'USER_GRADING_PRESET';
+
+export const DEFAULT_PRESET_ID = 'strict-mechanical';
+
+export const PRESET_STRICTNESS_LABELS: Record<PresetStrictness, string> = {
+    strict: 'Ketat (Mekanis)',
+    balanced: 'Seimbang',
+    lenient: 'Longgar (Formatif)',
+};
+
+export const PRESET_TONE_LABELS: Record<PresetTone, string> = {
+    formal: 'Formal & Analitis',
+    supportive: 'Suportif',
+    concise: 'Ringkas',
+};
+
+/**
+ * Preset bawaan (versi 1). Versi hasil edit dosen disimpan terpisah dan tidak menghapus versi ini.
+ */
+export const BUILT_IN_PRESETS: GradingPreset[] = [
+    {
+        id: DEFAULT_PRESET_ID,
+        name: 'Mekanis Ketat',
+        version: 1,
+        strictness: 'strict',
+        tone: 'formal',
+        extraInstructions: '',
+        builtIn: true,
+    },
+    {
+        id: 'lenient-formative',
+        name: 'Formatif Longgar',
+        version: 1,
+        strictness: 'lenient',
+        tone: 'supportive',
+        extraInstructions: 'Tugas ini bersifat formatif (latihan). Pada \'improvements\', sebutkan satu langkah belajar konkret berikutnya untuk mahasiswa.',
+        builtIn: true,
+    },
+    {
+        id: 'lab-report',
+        name: 'Laporan Praktikum',
+        version: 1,
+        strictness: 'balanced',
+        tone: 'formal',
+        extraInstructions: [
+            'Dokumen adalah laporan praktikum. Periksa kelengkapan dan mutu setiap bagian: tujuan, dasar teori, metode/prosedur, data & pengolahan, pembahasan, dan kesimpulan.',
+            'Pada data & pengolahan, periksa satuan, angka penting, serta kesesuaian tabel/grafik dengan perhitungan.',
+            'Kesimpulan harus menjawab tujuan dan konsisten dengan data; kurangi skor jika kesimpulan tidak didukung data.',
+        ].join('\n'),
+        builtIn: true,
+    },
+];
+
+const isValidPreset = (value: any): value is GradingPreset =>
+    typeof value?.id === 'string' && value.id.length > 0
+    && typeof value.name === 'string'
+    && Number.isInteger(value.version) && value.version > 0
+    && value.strictness in PRESET_STRICTNESS_LABELS
+    && value.tone in PRESET_TONE_LABELS
+    && typeof value.extraInstructions === 'string';
+
+const readSavedVersions = (): GradingPreset[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter(isValidPreset) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Seluruh versi satu preset, dari versi terlama.
+ */
+export const getPresetHistory = (id: string): GradingPreset[] => {
+    return [
+        ...BUILT_IN_PRESETS.filter(p => p.id === id),
+        ...readSavedVersions().filter(p => p.id === id),
+    ].sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Versi terbaru setiap preset: bawaan lebih dulu, lalu preset buatan dosen sesuai urutan dibuat.
+ */
+export const getPresets = (): GradingPreset[] => {
+    const ids = Array.from(new Set([...BUILT_IN_PRESETS.map(p => p.id), ...readSavedVersions().map(p => p.id)]));
+    return ids.map(id => {
+        const history = getPresetHistory(id);
+        return history[history.length - 1];
+    });
+};
+
+/**
+ * Mengambil satu preset. Tanpa `version`, versi terbaru dikembalikan.
+ */
+export const getPreset = (id: string, version?: number): GradingPreset | null => {
+    const history = getPresetHistory(id);
+    if (version === undefined) return history[history.length - 1] || null;
+    return history.find(p => p.version === version) || null;
+};
+
+// Fungsi untuk mendapatkan preset aktif (Prioritas: LocalStorage > Default 'Mekanis Ketat')
+export const getActivePreset = (): GradingPreset => {
+    const savedId = typeof window !== 'undefined' ? localStorage.getItem(ACTIVE_PRESET_STORAGE_KEY) : null;
+    return (savedId && getPreset(savedId)) || getPreset(DEFAULT_PRESET_ID)!;
+};
+
+/**
+ * Menyimpan isi preset sebagai VERSI BARU (nomor versi = versi terbaru + 1, atau 1 untuk preset baru).
+ * @returns Versi yang tersimpan.
+ */
+export const savePresetVersion = (preset: Omit<GradingPreset, 'version' | 'builtIn' | 'savedAt'>): GradingPreset => {
+    const latest = getPreset(preset.id);
+    const saved: GradingPreset = {
+        id: preset.id,
+        name: preset.name.trim() || latest?.name || 'Preset Tanpa Nama',
+        strictness: preset.strictness,
+        tone: preset.tone,
+        extraInstructions: preset.extraInstructions,
+        version: (latest?.version || 0) + 1,
+        savedAt: new Date().toISOString(),
+    };
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify([...readSavedVersions(), saved]));
+    return saved;
+};
+
+/**
+ * ID unik untuk preset baru buatan dosen.
+ */
+export const createPresetId = (): string => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const toPresetReference = (preset: GradingPreset): PresetReference => ({
+    id: preset.id,
+    name: preset.name,
+    version: preset.version,
+});
@@ -0,0 +1,249 @@
+/**
+ * @file rateLimiter.ts
+ * @description Penjadwal token-bucket TUNGGAL untuk seluruh aplikasi (process-wide).
+ *
+ * LATAR BELAKANG:
+ * Sebelumnya setiap panggilan `gradeAnswer` melakukan backoff sendiri-sendiri dan worker Mode Kelas
+ * menambahkan jitter acak, tanpa saling mengetahui. Saat Mode Individu berjalan bersamaan,
+ * kuota RPM/TPM mudah terlampaui dan semua worker terkena 429 bersamaan.
+ *
+ * CARA KERJA:
+ * - Setiap model memiliki dua bucket: request-per-menit (RPM) dan token-per-menit (TPM).
+ * - Setiap request memanggil `acquireRateLimit` dengan estimasi token; antrean FIFO per model
+ *   menjamin urutan yang adil antar pemanggil (worker Mode Kelas maupun Mode Individu).
+ * - Setelah respons diterima, `reportTokenUsage` mengoreksi estimasi dengan pemakaian aktual.
+ * - Saat server membalas 429, `reportRateLimited` MEMBLOKIR model tersebut untuk SEMUA pemanggil
+ *   selama jeda yang diminta server (retryDelay / Retry-After).
+ * - Pemanggil yang dibatalkan (`AbortSignal`) dikeluarkan dari antrean tanpa memakai kuota.
+ */
+
+import { ContentPart } from "./gradingProvider";
+import { CANCELLED_OUTCOME, createGradingError } from "./gradingErrors";
+
+export interface RateLimit {
+    /** Requests per minute. */
+    rpm: number;
+    /** Tokens per minute (input + output). */
+    tpm: number;
+}
+
+/**
+ * Batas bawaan per model (mengacu pada Free Tier Gemini). Dapat diubah per model di menu Pengaturan.
+ */
+export const MODEL_RATE_LIMITS: Record<string, RateLimit> = {
+    'gemini-3-pro-preview': { rpm: 5, tpm: 250_000 },
+    'gemini-2.5-flash': { rpm: 10, tpm: 250_000 },
+    'gemini-2.0-flash': { rpm: 15, tpm: 1_000_000 },
+};
+
+// Model yang tidak terdaftar (misal server Ollama/vLLM lokal) hampir tidak dibatasi.
+const DEFAULT_RATE_LIMIT: RateLimit = { rpm: 60, tpm: 2_000_000 };
+
+// Kunci localStorage untuk batas kustom per model: JSON `{ [modelId]: { rpm, tpm } }`.
+export const RATE_LIMITS_STORAGE_KEY = 'USER_RATE_LIMITS';
+
+const readCustomLimits = (): Record<string, RateLimit> => {
+    if (typeof window === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(RATE_LIMITS_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// Batas bawaan tanpa memperhitungkan pengaturan pengguna.
+export const getDefaultRateLimit = (model: string): RateLimit => MODEL_RATE_LIMITS[model] || DEFAULT_RATE_LIMIT;
+
+// Fungsi untuk mendapatkan batas laju model (Prioritas: LocalStorage > Tabel bawaan > Default)
+export const getRateLimit = (model: string): RateLimit => {
+    const custom = readCustomLimits()[model];
+    if (custom && custom.rpm > 0 && custom.tpm > 0) return custom;
+    return getDefaultRateLimit(model);
+};
+
+/**
+ * Menyimpan batas kustom untuk satu model. Nilai yang sama dengan bawaan (atau tidak valid) dihapus
+ * agar model kembali mengikuti tabel `MODEL_RATE_LIMITS`.
+ */
+export const saveRateLimit = (model: string, limit: RateLimit) => {
+    const limits = readCustomLimits();
+    const defaults = getDefaultRateLimit(model);
+    if (limit.rpm > 0 && limit.tpm > 0 && (limit.rpm !== defaults.rpm || limit.tpm !== defaults.tpm)) {
+        limits[model] = limit;
+    } else {
+        delete limits[model];
+    }
+    localStorage.setItem(RATE_LIMITS_STORAGE_KEY, JSON.stringify(limits));
+};
+
+// --- Estimasi token lokal (heuristik) ---
+
+// ~4 karakter per token untuk teks Latin.
+const CHARS_PER_TOKEN = 4;
+// Rata-rata foto lembar jawaban (beberapa tile 768px @ 258 token).
+const IMAGE_TOKEN_ESTIMATE = 1_290;
+// Gemini menghitung 258 token per halaman PDF; jumlah halaman ditaksir dari ukuran file.
+const PDF_TOKENS_PER_PAGE = 258;
+const PDF_BYTES_PER_PAGE_ESTIMATE = 150_000;
+// Perkiraan panjang JSON `GradeResult` (transkripsi + feedback per soal).
+export const EXPECTED_OUTPUT_TOKENS = 2_000;
+// Perkiraan panjang JSON surat umpan balik mahasiswa (± 300 kata).
+export const STUDENT_FEEDBACK_OUTPUT_TOKENS = 600;
+
+/**
+ * Estimasi jumlah token input dari sekumpulan `ContentPart` tanpa memanggil API.
+ */
+export const estimatePartsTokens = (parts: ContentPart[]): number => {
+    return parts.reduce((sum, part) => {
+        if ('text' in part) return sum + Math.ceil(part.text.length / CHARS_PER_TOKEN);
+        const { mimeType, data } = part.inlineData;
+        if (mimeType === 'application/pdf') {
+            const bytes = data.length * 3 / 4;
+            return sum + Math.max(1, Math.round(bytes / PDF_BYTES_PER_PAGE_ESTIMATE)) * PDF_TOKENS_PER_PAGE;
+        }
+        return sum + IMAGE_TOKEN_ESTIMATE;
+    }, 0);
+};
+
+// --- Token bucket ---
+
+interface Waiter {
+    tokens: number;
+    resolve: () => void;
+}
+
+interface Bucket {
+    limit: RateLimit;
+    requests: number;
+    tokens: number;
+    updatedAt: number;
+    /** Timestamp (ms) hingga model ini diblokir akibat 429. */
+    blockedUntil: number;
+    queue: Waiter[];
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Satu Map untuk seluruh aplikasi: inilah yang membuat limiter "process-wide".
+const buckets = new Map<string, Bucket>();
+
+const getBucket = (model: string): Bucket => {
+    const limit = getRateLimit(model);
+    let bucket = buckets.get(model);
+    if (!bucket) {
+        bucket = { limit, requests: limit.rpm, tokens: limit.tpm, updatedAt: Date.now(), blockedUntil: 0, queue: [], timer: null };
+        buckets.set(model, bucket);
+    }
+    // Batas dapat berubah dari Pengaturan saat aplikasi berjalan.
+    bucket.limit = limit;
+    return bucket;
+};
+
+const refill = (bucket: Bucket, now: number) => {
+    const elapsed = now - bucket.updatedAt;
+    bucket.requests = Math.min(bucket.limit.rpm, bucket.requests + elapsed * bucket.limit.rpm / 60_000);
+    bucket.tokens = Math.min(bucket.limit.tpm, bucket.tokens + elapsed * bucket.limit.tpm / 60_000);
+    bucket.updatedAt = now;
+};
+
+/**
+ * Melayani antrean sesuai urutan FIFO. Jika kepala antrean belum bisa dilayani,
+ * jadwalkan ulang tepat saat bucket cukup terisi (atau saat blokir 429 berakhir).
+ */
+const pump = (bucket: Bucket) => {
+    if (bucket.timer) return;
+    const now = Date.now();
+    refill(bucket, now);
+
+    while (bucket.queue.length > 0) {
+        const head = bucket.queue[0];
+        // Request yang lebih besar dari TPM tidak akan pernah muat; batasi agar tidak macet selamanya.
+        const needed = Math.min(head.tokens, bucket.limit.tpm);
+
+        let wait = Math.max(0, bucket.blockedUntil - now);
+        if (bucket.requests < 1) wait = Math.max(wait, (1 - bucket.requests) * 60_000 / bucket.limit.rpm);
+        if (bucket.tokens < needed) wait = Math.max(wait, (needed - bucket.tokens) * 60_000 / bucket.limit.tpm);
+
+        if (wait > 0) {
+            bucket.timer = setTimeout(() => {
+                bucket.timer = null;
+                pump(bucket);
+            }, Math.ceil(wait));
+            return;
+        }
+
+        bucket.requests -= 1;
+        bucket.tokens -= needed;
+        bucket.queue.shift();
+        head.resolve();
+    }
+};
+
+/**
+ * Menunggu giliran untuk mengirim satu request ke `model`.
+ * @param estimatedTokens - Estimasi total token (input + output) request ini.
+ * @param signal - Saat dibatalkan, pemanggil dikeluarkan dari antrean dan Promise ditolak
+ *   dengan error berjenis 'cancelled'.
+ */
+export const acquireRateLimit = (model: string, estimatedTokens: number, signal?: AbortSignal): Promise<void> => {
+    const bucket = getBucket(model);
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createGradingError('cancelled', CANCELLED_OUTCOME.detail));
+            return;
+        }
+        const onAbort = () => {
+            const index = bucket.queue.indexOf(waiter);
+            if (index === -1) return;
+            bucket.queue.splice(index, 1);
+            // Kepala antrean berubah: jadwal tunggu dihitung ulang untuk pemanggil berikutnya.
+            if (index === 0 && bucket.timer) {
+                clearTimeout(bucket.timer);
+                bucket.timer = null;
+                pump(bucket);
+            }
+            reject(createGradingError('cancelled', CANCELLED_OUTCOME.detail));
+        };
+        const waiter: Waiter = {
+            tokens: Math.max(0, estimatedTokens),
+            resolve: () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        bucket.queue.push(waiter);
+        pump(bucket);
+    });
+};
+
+/**
+ * Mengoreksi bucket TPM dengan pemakaian token aktual dari respons (misal `usageMetadata.totalTokenCount`).
+ */
+export const reportTokenUsage = (model: string, estimatedTokens: number, actualTokens?: number) => {
+    if (typeof actualTokens !== 'number') return;
+    const bucket = getBucket(model);
+    refill(bucket, Date.now());
+    bucket.tokens = Math.min(bucket.limit.tpm, bucket.tokens + estimatedTokens - actualTokens);
+};
+
+/**
+ * Memblokir `model` untuk semua pemanggil selama `retryDelayMs` (dari header/isi respons 429).
+ */
+export const reportRateLimited = (model: string, retryDelayMs: number) => {
+    const bucket = getBucket(model);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryDelayMs);
+    // Kuota server sudah habis: kosongkan bucket agar tidak terjadi lonjakan setelah blokir berakhir.
+    bucket.requests = Math.min(bucket.requests, 0);
+};
+
+/**
+ * Membaca jeda retry yang diminta server dari error 429.
+ * - Gemini: `RetryInfo.retryDelay` ("37s") di dalam pesan error JSON, atau teks "Please retry in 37.5s".
+ * - OpenAI-compatible: header `Retry-After` (detik) yang dilampirkan provider sebagai `retryAfterMs`.
+ */
+export const getRetryDelayMs = (error: any): number | null => {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    const message = String(error?.message ?? '');
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Rubric } from '../types';
+import { ExpectedQuestions, validateGradeResult } from './resultValidator';
+
+const EXPECTED: ExpectedQuestions = { numbers: ['1', '2'], authoritative: true };
+
+// Soal 1 bernilai 10 poin dengan satu kriteria (10 poin); soal 2 bernilai 10 poin tanpa kriteria.
+const RUBRIC: Rubric = {
+    questions: [
+        { questionNumber: '1', maxPoints: 10, criteria: [{ id: 'c1', name: 'Konsep', weight: 1, levels: [] }] },
+        { questionNumber: '2', maxPoints: 10, criteria: [] },
+    ],
+};
+
+const createFeedback = (questionNumber: string, extra: Record<string, unknown> = {}) => ({
+    questionNumber,
+    studentAnswer: 'Jawaban',
+    score: 80,
+    feedback: 'Cukup.',
+    ...extra,
+});
+
+const createRaw = (detailedFeedback: unknown[], extra: Record<string, unknown> = {}) => ({
+    grade: 80,
+    improvements: '-',
+    studentText: 'Jawaban',
+    detailedFeedback,
+    ...extra,
+});
+
+describe('validateGradeResult', () => {
+    it('menolak soal yang dinilai lebih dari sekali agar diperbaiki lewat re-prompt', () => {
+        const outcome = validateGradeResult(createRaw([createFeedback('1'), createFeedback('2'), createFeedback('1')]), EXPECTED);
+
+        expect(outcome.result).toBeNull();
+        expect(outcome.errors).toEqual([expect.stringContaining('soal 1 dinilai lebih dari sekali')]);
+    });
+
+    it('pada upaya terakhir hanya memakai entri pertama soal ganda', () => {
+        const outcome = validateGradeResult(
+            createRaw([createFeedback('1'), createFeedback('2'), createFeedback('1', { score: 10 })]),
+            EXPECTED,
+            null,
+            { clampScores: true }
+        );
+
+        expect(outcome.result?.detailedFeedback.map(fb => fb.score)).toEqual([80, 80]);
+        expect(outcome.warnings).toHaveLength(1);
+    });
+
+    it('memeriksa poin terhadap poin maksimal rubrik, bukan maxPoints kiriman model', () => {
+        const raw = createRaw([
+            createFeedback('1', { points: 15, maxPoints: 20, criteriaScores: [{ criterionId: 'c1', points: 15, maxPoints: 20 }] }),
+            createFeedback('2'),
+        ]);
+
+        expect(validateGradeResult(raw, EXPECTED, RUBRIC).errors).toEqual([
+            expect.stringContaining('poin soal 1 (15) wajib dalam rentang 0-10'),
+            expect.stringContaining('poin kriteria c1 soal 1 (15) wajib dalam rentang 0-10'),
+        ]);
+
+        const clamped = validateGradeResult(raw, EXPECTED, RUBRIC, { clampScores: true }).result!.detailedFeedback[0];
+        expect(clamped).toMatchObject({ points: 10, maxPoints: 10, criteriaScores: [{ criterionId: 'c1', points: 10, maxPoints: 10 }] });
+    });
+
+    it('grade wajib bilangan bulat 0-100', () => {
+        const raw = createRaw([createFeedback('1'), createFeedback('2')], { grade: 120.5 });
+
+        expect(validateGradeResult(raw, EXPECTED).errors).toEqual([expect.stringContaining("'grade' (120.5)")]);
+        expect(validateGradeResult(raw, EXPECTED, null, { clampScores: true }).result?.grade).toBe(100);
+    });
+
+    it('hanya meneruskan field yang dikenal', () => {
+        const raw = createRaw([createFeedback('1', { consensus: { samples: [] } }), createFeedback('2')], {
+            provenance: { provider: 'palsu' },
+            gradeMismatch: false,
+        });
+
+        const { result } = validateGradeResult(raw, EXPECTED);
+        expect(Object.keys(result!).sort()).toEqual(['detailedFeedback', 'grade', 'improvements', 'integrityFlags', 'studentText']);
+        expect(result!.detailedFeedback[0]).not.toHaveProperty('consensus');
+    });
+});
@@ -0,0 +1,474 @@
+/**
+ * @file resultValidator.ts
+ * @description Validasi runtime untuk JSON `GradeResult` yang dikembalikan model AI.
+ *
+ * PRINSIP:
+ * Hasil yang cacat TIDAK BOLEH sampai ke UI secara diam-diam.
+ * - Masalah struktural (field wajib hilang, `detailedFeedback` kosong, soal dinilai lebih dari sekali,
+ *   skor bukan angka, JSON rusak) dan skor yang tidak sah (`grade`/skor soal bukan bilangan bulat atau di luar
+ *   0-100, poin di luar 0-poin maksimal RUBRIK) dianggap ERROR -> provider menjalankan re-prompt "perbaikan"
+ *   (repair) atau retry. `maxPoints` kiriman model tidak dipercaya jika soal/kriterianya ada di rubrik.
+ * - Skor baru dijepit (clamp) ke rentangnya sebagai upaya TERAKHIR, setelah re-prompt perbaikan gagal
+ *   (`clampScores`); penyesuaiannya dicatat sebagai peringatan. Pada upaya ini soal ganda juga hanya
+ *   dipakai entri pertamanya.
+ * - Nomor soal yang tidak cocok dengan kunci heuristik dianggap PERINGATAN -> hasil diterima,
+ *   peringatan dilampirkan ke `GradeResult.validationWarnings` agar terlihat oleh dosen.
+ */
+
+import { AnswerKeyQuestion, FeedbackDetail, GradeResult, IntegrityFlag, IntegrityFlagType, Legibility, Rubric, TranscriptPage } from "../types";
+import { LecturerAnswerPayload } from "./gradingProvider";
+import { findRubricQuestion, getCriterionMaxPoints, isRubricUsable, questionNumbersMatch } from "../utils/rubricUtils";
+import { MAX_EVIDENCE_LENGTH } from "../utils/integrityUtils";
+
+/**
+ * Daftar nomor soal yang diharapkan muncul di hasil penilaian.
+ */
+export interface ExpectedQuestions {
+    numbers: string[];
+    /**
+     * `true` jika nomor berasal dari rubrik dosen atau kunci terstruktur yang sudah ditinjau (pasti benar).
+     * `false` jika hasil deteksi heuristik dari teks kunci (bisa meleset, jadi hanya peringatan).
+     */
+    authoritative: boolean;
+}
+
+export interface ValidationOptions {
+    /**
+     * `true` = skor/poin di luar rentang dijepit dengan peringatan alih-alih menjadi error.
+     * Hanya untuk upaya terakhir setelah re-prompt perbaikan gagal (atau batch job yang tidak dapat di-re-prompt).
+     */
+    clampScores?: boolean;
+}
+
+export interface ValidationOutcome {
+    /** Hasil yang sudah disanitasi, atau `null` jika ada error struktural. */
+    result: GradeResult | null;
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Mendeteksi nomor soal dari teks kunci jawaban (pola "1.", "2)", "3a." di awal baris).
+ * Kunci berupa file biner (gambar/PDF) tidak dapat dideteksi dan menghasilkan array kosong.
+ */
+export const detectQuestionNumbers = (lecturerAnswer: LecturerAnswerPayload): string[] => {
+    const texts: string[] = [];
+    if (lecturerAnswer.text) texts.push(lecturerAnswer.text);
+    lecturerAnswer.parts?.forEach(p => { if ('text' in p) texts.push(p.text); });
+
+    const numbers: string[] = [];
+    const pattern = /^\s*(\d+[a-z]?)[.)]\s+/gim;
+    texts.forEach(text => {
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            if (!numbers.includes(match[1])) numbers.push(match[1]);
+        }
+    });
+    return numbers;
+};
+
+/**
+ * Menentukan nomor soal yang diharapkan: rubrik (jika ada), kunci terstruktur, atau deteksi dari teks kunci.
+ */
+export const getExpectedQuestions = (lecturerAnswer: LecturerAnswerPayload, rubric?: Rubric | null): ExpectedQuestions => {
+    if (isRubricUsable(rubric)) {
+        return { numbers: rubric.questions.map(q => q.questionNumber), authoritative: true };
+    }
+    if (lecturerAnswer.structured && lecturerAnswer.structured.length > 0) {
+        return { numbers: lecturerAnswer.structured.map(q => q.questionNumber), authoritative: true };
+    }
+    return { numbers: detectQuestionNumbers(lecturerAnswer), authoritative: false };
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const LEGIBILITY_VALUES: Legibility[] = ['clear', 'partial', 'illegible'];
+const INTEGRITY_FLAG_TYPES: IntegrityFlagType[] = ['instruction-override', 'score-request', 'other'];
+
+/**
+ * Temuan integritas dari AI bersifat opsional: entri tanpa kutipan dibuang, jenis tidak dikenal menjadi 'other'.
+ */
+const sanitizeIntegrityFlags = (raw: unknown): IntegrityFlag[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw
+        .filter(item => isNonEmptyString(item?.evidence))
+        .map((item): IntegrityFlag => {
+            const flag: IntegrityFlag = {
+                type: INTEGRITY_FLAG_TYPES.includes(item.type) ? item.type : 'other',
+                evidence: item.evidence.trim().slice(0, MAX_EVIDENCE_LENGTH),
+                source: 'ai',
+            };
+            if (isNonEmptyString(item.questionNumber)) flag.questionNumber = item.questionNumber.trim();
+            return flag;
+        });
+};
+
+/**
+ * Memvalidasi & menyanitasi objek hasil parse JSON dari model.
+ *
+ * @param raw - Objek hasil `JSON.parse` (tipe belum terpercaya).
+ * @param expected - Nomor soal yang diharapkan dari kunci/rubrik.
+ * @param rubric - Rubrik dosen (opsional): sumber poin maksimal soal dan kriteria.
+ */
+export const validateGradeResult = (
+    raw: unknown,
+    expected: ExpectedQuestions,
+    rubric?: Rubric | null,
+    options: ValidationOptions = {}
+): ValidationOutcome => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    // Skor tidak sah: error (memicu perbaikan), atau peringatan + clamp pada upaya terakhir.
+    const reportScoreIssue = (message: string, clampedMessage: string) => {
+        if (options.clampScores) warnings.push(clampedMessage);
+        else errors.push(message);
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { result: null, errors: ['Respons bukan objek JSON.'], warnings };
+    }
+    const data = raw as Record<string, any>;
+
+    // 1. Field wajib tingkat atas
+    let grade = data.grade;
+    if (!isFiniteNumber(grade)) {
+        errors.push("Field 'grade' wajib berupa angka.");
+    } else if (!Number.isInteger(grade) || grade < 0 || grade > 100) {
+        reportScoreIssue(
+            `Field 'grade' (${grade}) wajib bilangan bulat dalam rentang 0-100.`,
+            `Nilai total usulan AI (${grade}) bukan bilangan bulat 0-100, disesuaikan.`
+        );
+        grade = Math.round(clamp(grade, 0, 100));
+    }
+    if (typeof data.improvements !== 'string') errors.push("Field 'improvements' wajib berupa teks.");
+    if (typeof data.studentText !== 'string') errors.push("Field 'studentText' wajib berupa teks.");
+    if (!Array.isArray(data.detailedFeedback)) {
+        errors.push("Field 'detailedFeedback' wajib berupa array.");
+    } else if (data.detailedFeedback.length === 0) {
+        errors.push("Field 'detailedFeedback' tidak boleh kosong: setiap soal pada kunci jawaban wajib dinilai.");
+    }
+
+    // 2. Field wajib per soal + sanitasi skor
+    const detailedFeedback: FeedbackDetail[] = [];
+    (Array.isArray(data.detailedFeedback) ? data.detailedFeedback : []).forEach((item: any, idx: number) => {
+        const label = `detailedFeedback[${idx}]`;
+        if (!item || typeof item !== 'object') {
+            errors.push(`${label} bukan objek.`);
+            return;
+        }
+        if (!isNonEmptyString(item.questionNumber) && !isFiniteNumber(item.questionNumber)) {
+            errors.push(`${label}: field 'questionNumber' wajib diisi.`);
+        }
+        if (typeof item.feedback !== 'string') errors.push(`${label}: field 'feedback' wajib berupa teks.`);
+        if (typeof item.studentAnswer !== 'string') errors.push(`${label}: field 'studentAnswer' wajib berupa teks.`);
+        if (!isFiniteNumber(item.score)) {
+            errors.push(`${label}: field 'score' wajib berupa angka.`);
+            return;
+        }
+
+        const questionNumber = String(item.questionNumber ?? '').trim();
+        let score = item.score;
+        if (!Number.isInteger(score)) {
+            reportScoreIssue(
+                `${label}: skor soal ${questionNumber} (${score}) wajib bilangan bulat.`,
+                `Skor soal ${questionNumber} (${score}) bukan bilangan bulat, dibulatkan.`
+            );
+            score = Math.round(score);
+        }
+        if (score < 0 || score > 100) {
+            reportScoreIssue(
+                `${label}: skor soal ${questionNumber} (${score}) wajib dalam rentang 0-100.`,
+                `Skor soal ${questionNumber} (${score}) di luar rentang 0-100, disesuaikan.`
+            );
+            score = Math.min(Math.max(score, 0), 100);
+        }
+
+        // Soal ganda: rata-rata menghitung soal dua kali, mode rubrik hanya memakai entri pertama.
+        if (questionNumber && detailedFeedback.some(fb => questionNumbersMatch(fb.questionNumber, questionNumber))) {
+            if (options.clampScores) {
+                warnings.push(`Soal ${questionNumber} dinilai lebih dari sekali, hanya penilaian pertama yang dipakai.`);
+            } else {
+                errors.push(`${label}: soal ${questionNumber} dinilai lebih dari sekali; setiap soal wajib tepat satu entri.`);
+            }
+            return;
+        }
+
+        const sanitized: FeedbackDetail = { questionNumber, studentAnswer: item.studentAnswer, score, feedback: item.feedback };
+        if (typeof item.questionText === 'string') sanitized.questionText = item.questionText;
+        if (typeof item.lecturerAnswer === 'string') sanitized.lecturerAnswer = item.lecturerAnswer;
+
+        // Keyakinan & keterbacaan bersifat opsional: nilai tidak valid dibuang, bukan menggagalkan hasil.
+        if (isFiniteNumber(item.confidence)) sanitized.confidence = Math.round(clamp(item.confidence, 0, 100));
+        if (LEGIBILITY_VALUES.includes(item.legibility)) sanitized.legibility = item.legibility;
+        if (Number.isInteger(item.page) && item.page > 0) sanitized.page = item.page;
+
+        // Poin rubrik: per soal dan per kriteria wajib dalam rentang 0-poin maksimal. Jika soal ada di rubrik,
+        // poin maksimal diambil dari rubrik; `maxPoints` kiriman model hanya dipakai untuk soal di luar rubrik.
+        const question = isRubricUsable(rubric) ? findRubricQuestion(rubric, questionNumber) : undefined;
+        const maxPoints = question ? question.maxPoints : item.maxPoints;
+        if (isFiniteNumber(maxPoints)) sanitized.maxPoints = maxPoints;
+        if (isFiniteNumber(item.points)) {
+            sanitized.points = item.points;
+            if (isFiniteNumber(maxPoints) && (item.points < 0 || item.points > maxPoints)) {
+                reportScoreIssue(
+                    `${label}: poin soal ${questionNumber} (${item.points}) wajib dalam rentang 0-${maxPoints}.`,
+                    `Poin soal ${questionNumber} (${item.points}) di luar rentang 0-${maxPoints}, disesuaikan.`
+                );
+                sanitized.points = clamp(item.points, 0, maxPoints);
+            }
+        }
+        if (Array.isArray(item.criteriaScores)) {
+            sanitized.criteriaScores = item.criteriaScores.map((cs: any) => {
+                // Kriteria yang tidak ada di rubrik dibuang (dengan peringatan) oleh `applyComputedGrade`.
+                const criterion = question?.criteria.find(c => c.id === cs?.criterionId);
+                const criterionMax = question ? (criterion ? getCriterionMaxPoints(question, criterion) : undefined) : cs?.maxPoints;
+                if (!isFiniteNumber(cs?.points) || !isFiniteNumber(criterionMax)) return cs;
+                if (cs.points >= 0 && cs.points <= criterionMax) return { ...cs, maxPoints: criterionMax };
+                reportScoreIssue(
+                    `${label}: poin kriteria ${cs.criterionId} soal ${questionNumber} (${cs.points}) wajib dalam rentang 0-${criterionMax}.`,
+                    `Poin kriteria ${cs.criterionId} soal ${questionNumber} (${cs.points}) di luar rentang 0-${criterionMax}, disesuaikan.`
+                );
+                return { ...cs, maxPoints: criterionMax, points: clamp(cs.points, 0, criterionMax) };
+            });
+        }
+        detailedFeedback.push(sanitized);
+    });
+
+    // 3. Kecocokan nomor soal dengan kunci jawaban / rubrik
+    if (expected.numbers.length > 0 && detailedFeedback.length > 0) {
+        const missing = expected.numbers.filter(n => !detailedFeedback.some(fb => questionNumbersMatch(fb.questionNumber, n)));
+        const unexpected = detailedFeedback
+            .map(fb => fb.questionNumber)
+            .filter(n => !expected.numbers.some(e => questionNumbersMatch(e, n)));
+
+        if (missing.length > 0) {
+            const message = `Soal ${missing.join(', ')} pada kunci jawaban tidak ditemukan di hasil penilaian.`;
+            if (expected.authoritative) errors.push(message);
+            else warnings.push(message);
+        }
+        if (unexpected.length > 0) {
+            warnings.push(`Soal ${unexpected.join(', ')} tidak ada di kunci jawaban.`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { result: null, errors, warnings };
+    }
+
+    const integrityFlags = sanitizeIntegrityFlags(data.integrityFlags);
+
+    // Hanya field yang dikenal yang diteruskan: field lain dari model (misal `provenance`) tidak boleh ikut.
+    return {
+        result: {
+            grade,
+            improvements: data.improvements,
+            studentText: data.studentText,
+            detailedFeedback,
+            integrityFlags: integrityFlags.length > 0 ? integrityFlags : undefined,
+        },
+        errors,
+        warnings,
+    };
+};
+
+/**
+ * Parse teks respons model lalu validasi. JSON yang rusak dilaporkan sebagai error (bukan exception).
+ */
+export const parseAndValidateGradeResult = (
+    text: string,
+    expected: ExpectedQuestions,
+    rubric?: Rubric | null,
+    options: ValidationOptions = {}
+): ValidationOutcome => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e: any) {
+        return { result: null, errors: [`Respons bukan JSON valid (${e.message}).`], warnings: [] };
+    }
+    return validateGradeResult(raw, expected, rubric, options);
+};
+
+/**
+ * Melampirkan peringatan validasi ke hasil (digabung dengan peringatan yang sudah ada).
+ */
+export const attachValidationWarnings = (result: GradeResult, warnings: string[]): GradeResult => {
+    if (warnings.length === 0) return result;
+    return { ...result, validationWarnings: [...(result.validationWarnings || []), ...warnings] };
+};
+
+/**
+ * Mem-parsing JSON yang belum lengkap (respons streaming) dengan memotong teks di titik aman terakhir
+ * (sebelum koma atau setelah kurung tutup) lalu menutup kurung yang masih terbuka.
+ * Nilai yang terpotong di tengah (string/angka) dibuang, bukan ditebak.
+ */
+const parsePartialJson = (text: string): any => {
+    const start = text.indexOf('{');
+    if (start < 0) return null;
+
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let safeEnd = -1;
+    let safeClosers = '';
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            stack.push(char === '{' ? '}' : ']');
+            safeEnd = i + 1;
+            safeClosers = [...stack].reverse().join('');
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+            safeEnd = i + 1;
+            safeClosers = [...stack].reverse().join('');
+            if (stack.length === 0) break;
+        } else if (char === ',') {
+            safeEnd = i;
+            safeClosers = [...stack].reverse().join('');
+        }
+    }
+
+    try {
+        return JSON.parse(text.slice(start, safeEnd) + safeClosers);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Jumlah objek di array `key` (milik objek teratas) yang sudah DIIKUTI koma atau `]`.
+ * Objek yang baru ditutup belum pasti lengkap: `parsePartialJson` juga menutup objek yang terpotong.
+ */
+const countSettledItems = (text: string, key: string): number => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let stringStart = -1;
+    let lastString = '';
+    let arrayDepth = -1;
+    let pendingItem = false;
+    let count = 0;
+
+    for (let i = text.indexOf('{'); i >= 0 && i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') {
+                inString = false;
+                if (stack.length === 1) lastString = text.slice(stringStart + 1, i);
+            }
+            continue;
+        }
+        if (char === '"') {
+            inString = true;
+            stringStart = i;
+        } else if (char === '{' || char === '[') {
+            // `"key": [` di tingkat teratas: string terakhir sebelum kurung adalah nama field.
+            if (char === '[' && stack.length === 1 && arrayDepth < 0 && lastString === key) arrayDepth = 2;
+            stack.push(char);
+            if (char === '{' && stack.length === arrayDepth + 1) pendingItem = true;
+        } else if (char === '}' || char === ']') {
+            if (stack.length === arrayDepth && char === ']') return pendingItem ? count + 1 : count;
+            stack.pop();
+            if (stack.length === 0) break;
+        } else if (char === ',' && stack.length === arrayDepth && pendingItem) {
+            count++;
+            pendingItem = false;
+        }
+    }
+    return count;
+};
+
+/**
+ * Mengambil entri `detailedFeedback` yang SUDAH LENGKAP dari respons streaming yang masih berjalan,
+ * untuk progres langsung per soal. Entri dianggap lengkap setelah elemen berikutnya atau `]` terlihat,
+ * dan hanya jika semua field wajib ada. Hasil akhir tetap divalidasi penuh oleh `parseAndValidateGradeResult`.
+ */
+export const parsePartialFeedback = (text: string): FeedbackDetail[] => {
+    const raw = parsePartialJson(text);
+    const items: any[] = Array.isArray(raw?.detailedFeedback) ? raw.detailedFeedback : [];
+    return items
+        .slice(0, countSettledItems(text, 'detailedFeedback'))
+        .filter(item => (typeof item?.questionNumber === 'string' || isFiniteNumber(item?.questionNumber))
+            && isFiniteNumber(item.score) && typeof item.feedback === 'string' && typeof item.studentAnswer === 'string')
+        .map(item => ({
+            ...item,
+            questionNumber: String(item.questionNumber).trim(),
+            score: Math.min(Math.max(item.score, 0), 100),
+        }));
+};
+
+/**
+ * Mem-parsing respons tahap transkripsi. Halaman dinomori ulang berurutan agar stabil di UI.
+ * @returns Daftar halaman, atau `null` jika JSON rusak / tidak ada teks sama sekali.
+ */
+export const parseTranscript = (text: string): TranscriptPage[] | null => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    const items: any[] = Array.isArray(raw?.pages) ? raw.pages : [];
+    const pages = items
+        .filter(item => typeof item?.text === 'string')
+        .sort((a, b) => (isFiniteNumber(a.page) ? a.page : 0) - (isFiniteNumber(b.page) ? b.page : 0))
+        .map((item, i): TranscriptPage => ({ page: i + 1, text: item.text }));
+    return pages.some(p => p.text.trim()) ? pages : null;
+};
+
+/**
+ * Mem-parsing respons surat umpan balik mahasiswa.
+ * @returns Teks surat (tanpa spasi di tepi), atau `null` jika JSON rusak / surat kosong.
+ */
+export const parseStudentFeedback = (text: string): string | null => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    const letter = typeof raw?.letter === 'string' ? raw.letter.trim() : '';
+    return letter || null;
+};
+
+/**
+ * Parse & sanitasi respons langkah "Ekstrak Kunci". Entri tanpa nomor soal dibuang,
+ * nomor ganda digabung (kemunculan pertama dipakai), `maxPoints` tidak valid menjadi 0.
+ *
+ * @returns Daftar soal, atau `null` jika JSON rusak / tidak ada satu pun soal.
+ */
+export const parseAnswerKey = (text: string): AnswerKeyQuestion[] | null => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    const items: any[] = Array.isArray(raw?.questions) ? raw.questions : [];
+
+    const questions: AnswerKeyQuestion[] = [];
+    items.forEach(item => {
+        const questionNumber = String(item?.questionNumber ?? '').trim();
+        if (!questionNumber || questions.some(q => questionNumbersMatch(q.questionNumber, questionNumber))) return;
+        questions.push({
+            questionNumber,
+            questionText: typeof item.questionText === 'string' ? item.questionText : '',
+            modelAnswer: typeof item.modelAnswer === 'string' ? item.modelAnswer : '',
+            maxPoints: isFiniteNumber(item.maxPoints) && item.maxPoints > 0 ? item.maxPoints : 0,
+        });
+    });
+    return questions.length > 0 ? questions : null;
+};
@@ -0,0 +1,97 @@
+/**
+ * @file retryPolicy.ts
+ * @description Siklus retry & backoff bersama untuk setiap request provider (penilaian, transkripsi,
+ * surat umpan balik).
+ *
+ * ATURAN:
+ * - Maksimal `MAX_ATTEMPTS` percobaan. Error diklasifikasikan dengan `classifyGradingError`;
+ *   jenis yang tidak akan berubah jika diulang ('auth', 'safety', 'cancelled') langsung dilaporkan.
+ * - 429/503: model ditahan untuk SEMUA pemanggil di rate limiter bersama (jeda dari server, atau
+ *   exponential backoff). Percobaan berikutnya otomatis menunggu di `acquireRateLimit`.
+ * - Error lain: jeda singkat lalu diulang.
+ * - Request yang dibatalkan (`signal`) tidak diulang dan menghasilkan `CANCELLED_OUTCOME`.
+ */
+
+import { GradingErrorKind } from "../types";
+import { CANCELLED_OUTCOME, classifyGradingError, getErrorStatus, isRetryableError } from "./gradingErrors";
+import { getRetryDelayMs, reportRateLimited } from "./rateLimiter";
+
+type FailedOutcome = { ok: false; kind: GradingErrorKind; detail: string };
+
+export const MAX_ATTEMPTS = 3;
+
+// INITIAL BACKOFF: 2000ms.
+// Hanya dipakai jika server TIDAK menyertakan jeda retry (misal 503 overloaded).
+// Jeda diterapkan ke rate limiter bersama sehingga semua worker ikut menahan diri.
+const INITIAL_BACKOFF_MS = 2000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RetryOptions {
+    /** Awalan log console, misal "[OpenAI-compatible] Transcription". */
+    label: string;
+    /** Model yang sedang dipakai (dibaca ulang setiap kegagalan karena dapat berganti ke model cadangan). */
+    getModel: () => string;
+    signal?: AbortSignal;
+    /**
+     * (Opsional) Memulihkan kondisi yang tidak perlu dihitung sebagai percobaan gagal
+     * (misal cache konteks hilang). `true` = percobaan langsung diulang.
+     */
+    recover?: (error: any) => boolean;
+    /**
+     * (Opsional) Model terus menolak (429/503) hingga batas percobaan: beralih ke model cadangan.
+     * `true` = sudah beralih, hitungan percobaan direset; `false` = tidak ada cadangan lagi.
+     */
+    switchModel?: () => boolean;
+}
+
+/**
+ * Menjalankan `run` dengan retry & backoff. `run` melempar error untuk setiap kegagalan yang boleh
+ * diulang; nilai yang dikembalikan `run` diteruskan apa adanya.
+ *
+ * @param run - Satu percobaan. Menerima nomor percobaan total (1-based, untuk provenance).
+ * @returns Hasil `run`, atau outcome gagal yang sudah diklasifikasikan.
+ */
+export const withRetry = async <T>(run: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T | FailedOutcome> => {
+    // `totalAttempts` tidak direset saat beralih ke model cadangan (untuk provenance).
+    let attempts = 0;
+    let totalAttempts = 0;
+
+    while (attempts < MAX_ATTEMPTS) {
+        totalAttempts++;
+        try {
+            return await run(totalAttempts);
+        } catch (error: any) {
+            if (options.signal?.aborted) return CANCELLED_OUTCOME;
+            if (options.recover?.(error)) continue;
+
+            attempts++;
+            console.warn(`${options.label} attempt ${attempts} failed:`, error);
+            const failure = classifyGradingError(error);
+            const overloaded = failure.kind === 'quota' || getErrorStatus(error) === 503;
+
+            if (overloaded && attempts === MAX_ATTEMPTS && options.switchModel) {
+                const previousModel = options.getModel();
+                if (options.switchModel()) {
+                    reportRateLimited(previousModel, getRetryDelayMs(error) ?? Math.pow(2, attempts) * INITIAL_BACKOFF_MS);
+                    attempts = 0;
+                    continue;
+                }
+            }
+
+            if (!isRetryableError(failure.kind) || attempts === MAX_ATTEMPTS) {
+                // Key salah / konten diblokir tidak akan berubah dengan retry: langsung laporkan.
+                console.error(`${options.label}: max retry attempts reached or fatal error.`);
+                return { ok: false, ...failure };
+            }
+
+            if (overloaded) {
+                reportRateLimited(options.getModel(), getRetryDelayMs(error) ?? Math.pow(2, attempts) * INITIAL_BACKOFF_MS + Math.random() * 1000);
+            } else {
+                await sleep(1000);
+            }
+        }
+    }
+
+    return { ok: false, kind: 'network', detail: 'Batas percobaan ulang habis.' };
+};
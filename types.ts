@@ -69,8 +69,218 @@ export interface FeedbackDetail {
      * Menjelaskan mengapa poin dikurangi atau diberikan berdasarkan lecturerAnswer.
      */
     feedback: string;
+
+    /**
+     * Poin yang diperoleh pada skala dosen (misal 15 dari 20 poin).
+     * Hanya diisi jika penilaian menggunakan `Rubric`.
+     */
+    points?: number;
+
+    /**
+     * Poin maksimal soal ini sesuai rubrik dosen (misal "Soal 1 (20 poin)").
+     */
+    maxPoints?: number;
+
+    /**
+     * Rincian perolehan poin per kriteria rubrik.
+     */
+    criteriaScores?: CriterionScore[];
+
+    /**
+     * Keyakinan AI (0-100) bahwa transkripsi `studentAnswer` DAN skor soal ini benar.
+     */
+    confidence?: number;
+
+    /**
+     * Keterbacaan tulisan mahasiswa untuk soal ini (foto buram / tulisan tangan sulit dibaca).
+     */
+    legibility?: Legibility;
+
+    /**
+     * Nomor halaman (penomoran `GradeResult.sourcePages`) tempat jawaban soal ini dimulai.
+     * Hanya diisi jika dokumen mahasiswa diberi penanda halaman (PDF yang dipecah per halaman).
+     */
+    page?: number;
+
+    /**
+     * Diisi pada penilaian konsensus: skor soal ini dari setiap sampel dan rentangnya.
+     */
+    consensus?: QuestionConsensus;
+}
+
+/**
+ * Asal satu halaman bernomor pada submission: file PDF dan nomor halaman di dalam file tersebut.
+ */
+export interface SourcePage {
+    /** Nomor halaman berurutan di seluruh submission (mulai 1), sama dengan penanda yang dikirim ke AI. */
+    page: number;
+    fileName: string;
+    /** Nomor halaman di dalam `fileName` (mulai 1). */
+    filePage: number;
+}
+
+/**
+ * - 'clear'     : terbaca jelas.
+ * - 'partial'   : sebagian kata/simbol ditebak (ditandai "[?]" pada `studentAnswer`).
+ * - 'illegible' : sebagian besar tidak terbaca.
+ */
+export type Legibility = 'clear' | 'partial' | 'illegible';
+
+/**
+ * Sebaran skor satu soal di seluruh sampel penilaian konsensus.
+ */
+export interface QuestionConsensus {
+    /** Skor (0-100) dari setiap sampel yang berhasil, sesuai urutan sampel. */
+    scores: number[];
+
+    /** Selisih skor tertinggi dan terendah. */
+    spread: number;
+}
+
+/**
+ * Ringkasan penilaian konsensus (satu submission dinilai beberapa kali / oleh beberapa model).
+ */
+export interface ConsensusSummary {
+    /** Jumlah sampel yang berhasil dan digabungkan. */
+    samples: number;
+
+    /** Model yang dipakai setiap sampel (sesuai urutan `QuestionConsensus.scores`). */
+    models: string[];
+
+    /** Rentang skor terbesar di antara semua soal. */
+    maxSpread: number;
+
+    /** `true` jika `maxSpread` melebihi ambang batas: hasil perlu ditinjau dosen. */
+    highDisagreement: boolean;
+}
+
+/**
+ * Perolehan poin untuk satu kriteria rubrik pada satu soal.
+ */
+export interface CriterionScore {
+    /** Mengacu ke `RubricCriterion.id`. */
+    criterionId: string;
+
+    /** Nama kriteria (disalin untuk kemudahan laporan). */
+    criterionName?: string;
+
+    /** Poin yang diberikan untuk kriteria ini. */
+    points: number;
+
+    /** Poin maksimal kriteria ini (porsi bobot dari `RubricQuestion.maxPoints`). */
+    maxPoints: number;
+
+    /** Label level deskriptor yang paling sesuai (misal "Baik"). */
+    level?: string;
 }
 
+/**
+ * Satu tingkat capaian (level descriptor) dalam sebuah kriteria.
+ * Contoh: { label: "Sangat Baik", percent: 100, description: "Menjelaskan 3 prinsip dengan contoh." }
+ */
+export interface RubricLevel {
+    /** Nama tingkat (misal "Sangat Baik", "Cukup"). */
+    label: string;
+
+    /** Persentase poin kriteria yang diberikan jika level ini tercapai. Rentang: 0-100. */
+    percent: number;
+
+    /** Deskripsi perilaku/jawaban yang mencirikan level ini. */
+    description: string;
+}
+
+/**
+ * Satu kriteria penilaian dalam sebuah soal (misal "Ketepatan Konsep", "Langkah Perhitungan").
+ */
+export interface RubricCriterion {
+    /** Identifier unik kriteria di dalam soal (misal "c1"). */
+    id: string;
+
+    /** Nama kriteria. */
+    name: string;
+
+    /**
+     * Bobot relatif kriteria di dalam soal. Poin maksimal kriteria =
+     * `RubricQuestion.maxPoints * weight / total bobot kriteria soal tersebut`.
+     */
+    weight: number;
+
+    /** Deskriptor tingkat capaian, diurutkan dari tertinggi ke terendah. */
+    levels: RubricLevel[];
+}
+
+/**
+ * Satu soal dalam rubrik dosen, beserta poin maksimalnya.
+ */
+export interface RubricQuestion {
+    /** Nomor soal, harus cocok dengan penomoran di kunci jawaban (misal "1", "2a"). */
+    questionNumber: string;
+
+    /** Poin maksimal soal (misal 20 untuk "Soal 1 (20 poin)"). */
+    maxPoints: number;
+
+    /** Kriteria penilaian soal. Boleh kosong (soal dinilai secara holistik). */
+    criteria: RubricCriterion[];
+}
+
+/**
+ * Rubrik penilaian terstruktur dari dosen.
+ * Jika diberikan ke `gradeAnswer`, AI menilai pada skala poin dosen, bukan skala 0-100 per soal.
+ */
+export interface Rubric {
+    questions: RubricQuestion[];
+}
+
+/**
+ * Satu soal pada kunci jawaban terstruktur (hasil langkah "Ekstrak Kunci" yang sudah ditinjau dosen).
+ * Kunci terstruktur dikirim ke AI untuk SEMUA mahasiswa sebagai pengganti file kunci mentah.
+ */
+export interface AnswerKeyQuestion {
+    /** Nomor soal persis seperti di dokumen kunci (misal "1", "2a"). */
+    questionNumber: string;
+
+    /** Teks pertanyaan. Boleh kosong jika dokumen kunci hanya berisi jawaban. */
+    questionText: string;
+
+    /** Jawaban model / kunci jawaban dosen untuk soal ini. */
+    modelAnswer: string;
+
+    /** Poin maksimal soal. 0 berarti tidak ditentukan. */
+    maxPoints: number;
+}
+
+/**
+ * Hasil ekstraksi kunci jawaban: daftar soal, atau jenis kegagalan (sama dengan `GradingOutcome`).
+ */
+export type AnswerKeyOutcome =
+    | { ok: true; questions: AnswerKeyQuestion[] }
+    | { ok: false; kind: GradingErrorKind; detail: string };
+
+/**
+ * Satu halaman transkrip jawaban mahasiswa dari tahap transkripsi (pipeline dua tahap).
+ */
+export interface TranscriptPage {
+    /** Nomor halaman berurutan di seluruh dokumen submission (mulai dari 1). */
+    page: number;
+
+    /** Transkrip verbatim halaman ini. Dapat dikoreksi dosen sebelum dinilai ulang. */
+    text: string;
+}
+
+/**
+ * Hasil tahap transkripsi: daftar halaman, atau jenis kegagalan (sama dengan `GradingOutcome`).
+ */
+export type TranscriptOutcome =
+    | { ok: true; pages: TranscriptPage[]; usage?: TokenUsage }
+    | { ok: false; kind: GradingErrorKind; detail: string };
+
+/**
+ * Hasil pembuatan surat umpan balik mahasiswa: teks surat, atau jenis kegagalan (sama dengan `GradingOutcome`).
+ */
+export type StudentFeedbackOutcome =
+    | { ok: true; letter: string; usage?: TokenUsage }
+    | { ok: false; kind: GradingErrorKind; detail: string };
+
 /**
  * Merepresentasikan hasil lengkap dari operasi penilaian untuk satu pengumpulan (satu siswa).
  * Objek ini adalah payload utama yang dikembalikan oleh layanan `gradeAnswer`.
@@ -83,11 +293,29 @@ export interface GradeResult {
     fileName?: string;
 
     /** 
-     * Nilai akhir keseluruhan yang dihitung oleh AI.
+     * Nilai akhir keseluruhan. Dihitung ulang secara deterministik di sisi klien
+     * dari skor per soal (lihat `utils/gradeUtils.ts`), BUKAN diambil mentah dari AI.
      * Rentang: 0-100.
      */
     grade: number;
 
+    /**
+     * Nilai total yang diusulkan AI dalam JSON respons (disimpan untuk audit).
+     */
+    aiProposedGrade?: number;
+
+    /**
+     * `true` jika `aiProposedGrade` berbeda dari `grade` lebih dari ambang batas
+     * (`GRADE_MISMATCH_THRESHOLD`). Hasil seperti ini perlu ditinjau dosen.
+     */
+    gradeMismatch?: boolean;
+
+    /**
+     * Peringatan dari validator runtime (misal skor dibulatkan, nomor soal tidak cocok dengan kunci,
+     * atau respons awal AI harus diperbaiki lewat re-prompt). Kosong/undefined berarti lolos validasi.
+     */
+    validationWarnings?: string[];
+
     /** 
      * Array objek umpan balik terperinci, satu untuk setiap pertanyaan yang ditemukan.
      */
@@ -98,13 +326,164 @@ export interface GradeResult {
      */
     improvements: string;
 
+    /**
+     * Surat umpan balik untuk MAHASISWA (sudut pandang orang kedua, sopan), disusun dari `detailedFeedback`
+     * yang sudah final. Berbeda dengan `feedback`/`improvements` yang ditujukan kepada Dosen.
+     * Dapat disunting dosen sebelum diekspor.
+     */
+    studentFeedback?: string;
+
     /** 
      * Transkripsi teks lengkap (raw full-text) dari jawaban siswa.
      * Diekstrak oleh AI (OCR). Digunakan untuk verifikasi manual (sanity check) oleh dosen.
      */
     studentText?: string;
+
+    /**
+     * Transkrip per halaman dari pipeline dua tahap (transkripsi -> penilaian teks).
+     * Jika ada, dosen dapat mengoreksinya lalu menilai ulang TANPA mengulang tahap vision (OCR).
+     */
+    transcript?: TranscriptPage[];
+
+    /**
+     * Diisi pada penilaian konsensus: skor per soal adalah median seluruh sampel.
+     */
+    consensus?: ConsensusSummary;
+
+    /**
+     * Temuan upaya manipulasi penilai (prompt injection) dari AI dan dari pemindaian lokal.
+     * Kosong/undefined berarti tidak ada temuan.
+     */
+    integrityFlags?: IntegrityFlag[];
+
+    /**
+     * Preset prompt (id + versi) yang dipakai saat menilai, agar nilai lama tetap dapat dijelaskan
+     * meskipun preset sudah diedit kemudian (lihat services/promptPresets.ts).
+     */
+    preset?: PresetReference;
+
+    /**
+     * Model yang benar-benar menghasilkan penilaian ini. Pada penilaian konsensus berisi daftar model sampel.
+     */
+    model?: string;
+
+    /**
+     * Model utama yang diminta. Diisi HANYA jika model tersebut terus menolak (429/503) sehingga penilaian
+     * dilanjutkan oleh model cadangan (`model`) sesuai rantai cadangan di Pengaturan.
+     */
+    fallbackFrom?: string;
+
+    /**
+     * Pemakaian token aktual seluruh panggilan API untuk hasil ini (termasuk re-prompt perbaikan).
+     * Dipakai untuk menghitung biaya riil terhadap batas anggaran Mode Kelas.
+     */
+    usage?: TokenUsage;
+
+    /**
+     * Jejak asal-usul penilaian (model, preset, waktu, percobaan, latensi, token, hash kunci) yang diisi
+     * `gradeAnswer`, sebagai bukti jika mahasiswa mengajukan keberatan nilai di kemudian hari.
+     */
+    provenance?: GradeProvenance;
+
+    /**
+     * Peta halaman bernomor -> file & halaman asli, untuk mengutip dan membuka halaman sumber
+     * `FeedbackDetail.page`. Kosong jika submission tidak berisi PDF.
+     */
+    sourcePages?: SourcePage[];
+
+    /**
+     * Diisi hanya pada baris GAGAL di Mode Kelas: jenis kegagalan penilaian (lihat `GradingErrorKind`).
+     */
+    errorKind?: GradingErrorKind;
+}
+
+/**
+ * Asal-usul satu hasil penilaian. Disimpan bersama hasil dan ikut diekspor (sheet "Metadata").
+ */
+export interface GradeProvenance {
+    /** Provider penilai ('gemini' | 'openai' | 'mock'). */
+    provider: string;
+
+    /** Model yang menghasilkan penilaian (sama dengan `GradeResult.model`). */
+    model?: string;
+
+    /** Preset prompt (id + versi) yang dipakai. */
+    preset?: PresetReference;
+
+    /** Waktu penilaian selesai (ISO 8601). */
+    gradedAt: string;
+
+    /** Jumlah percobaan penilaian, termasuk percobaan ulang (pada konsensus: dijumlahkan dari sampel yang berhasil). */
+    attempts: number;
+
+    /** Durasi total penilaian (ms), dari permintaan pertama hingga hasil final. */
+    latencyMs: number;
+
+    /** Pemakaian token seluruh tahap (sama dengan `GradeResult.usage`). */
+    usage?: TokenUsage;
+
+    /**
+     * SHA-256 (hex) kunci jawaban yang dipakai, untuk membuktikan kunci tidak berubah sejak penilaian.
+     * Kosong jika browser tidak menyediakan Web Crypto (halaman non-HTTPS).
+     */
+    answerKeyHash?: string;
+}
+
+/**
+ * Jenis temuan integritas.
+ * - 'instruction-override': upaya mengubah/mengabaikan instruksi penilai (misal "abaikan instruksi sebelumnya").
+ * - 'score-request'       : permintaan nilai tertentu kepada penilai (misal "beri nilai 100").
+ * - 'other'               : bentuk manipulasi lain yang dilaporkan AI.
+ */
+export type IntegrityFlagType = 'instruction-override' | 'score-request' | 'other';
+
+/**
+ * Satu temuan upaya manipulasi pada jawaban mahasiswa.
+ */
+export interface IntegrityFlag {
+    type: IntegrityFlagType;
+
+    /** Kutipan VERBATIM teks mahasiswa yang menjadi bukti. */
+    evidence: string;
+
+    /** Nomor soal tempat teks ditemukan (hanya temuan AI; pemindaian lokal tidak mengetahui nomor soal). */
+    questionNumber?: string;
+
+    /** 'ai' = dilaporkan model penilai, 'pre-scan' = pemindaian lokal sebelum dikirim ke AI. */
+    source: 'ai' | 'pre-scan';
 }
 
+/**
+ * Pemakaian token dari metadata respons API.
+ */
+export interface TokenUsage {
+    /** Token input (prompt, kunci jawaban, dokumen mahasiswa). */
+    inputTokens: number;
+    /** Token output yang ditagih (jawaban JSON + token "thinking" jika ada). */
+    outputTokens: number;
+}
+
+/**
+ * Jenis kegagalan penilaian, dipakai UI untuk menampilkan solusi yang spesifik.
+ * - 'auth'    : API Key kosong / tidak valid / tidak punya izin.
+ * - 'quota'   : Kuota habis atau terkena rate limit (HTTP 429).
+ * - 'safety'  : Permintaan/respons diblokir filter keamanan model.
+ * - 'parse'   : Respons AI kosong, bukan JSON, atau gagal validasi.
+ * - 'network' : Server AI tidak dapat dihubungi atau sedang bermasalah (5xx).
+ * - 'timeout' : Batas waktu pemrosesan terlampaui.
+ * - 'cancelled': Dibatalkan dosen (misal hasil sementara menunjukkan OCR keliru).
+ */
+export type GradingErrorKind = 'auth' | 'quota' | 'safety' | 'parse' | 'network' | 'timeout' | 'cancelled';
+
+/**
+ * Hasil `gradeAnswer`: sukses dengan `GradeResult`, atau gagal dengan jenis & detail kesalahan.
+ * `attempts` (opsional, default 1) = jumlah percobaan yang dibutuhkan, dicatat di `GradeResult.provenance`.
+ * `usage` pada kegagalan = token yang sudah terpakai oleh percobaan yang gagal (dihitung batas anggaran).
+ */
+export type GradingOutcome =
+    | { ok: true; result: GradeResult; attempts?: number }
+    | { ok: false; kind: GradingErrorKind; detail: string; usage?: TokenUsage };
+
 /**
  * Enum untuk berbagai fitur yang tersedia dalam aplikasi melalui NavBar.
  * Saat ini, hanya GradingSystem yang sepenuhnya aktif di dasbor utama.
@@ -126,3 +505,43 @@ export interface ChatMessage {
     /** Konten teks aktual dari pesan. */
     text: string;
 }
+
+/**
+ * Tingkat ketegasan penilaian pada preset prompt.
+ * - 'strict'   : mekanis, hanya yang eksplisit sesuai kunci.
+ * - 'balanced' : kredit parsial proporsional untuk konsep yang benar.
+ * - 'lenient'  : formatif, mengutamakan pemahaman konsep.
+ */
+export type PresetStrictness = 'strict' | 'balanced' | 'lenient';
+
+/**
+ * Nada umpan balik pada preset prompt.
+ */
+export type PresetTone = 'formal' | 'supportive' | 'concise';
+
+/**
+ * Satu VERSI preset prompt penilaian. Setiap penyimpanan menghasilkan versi baru;
+ * versi lama tetap disimpan agar nilai yang dihasilkannya dapat ditelusuri.
+ */
+export interface GradingPreset {
+    id: string;
+    name: string;
+    version: number;
+    strictness: PresetStrictness;
+    tone: PresetTone;
+    /** Instruksi tambahan dosen yang ditambahkan ke instruksi sistem. */
+    extraInstructions: string;
+    /** Preset bawaan aplikasi (versi 1 selalu tersedia). */
+    builtIn?: boolean;
+    /** Waktu penyimpanan versi (ISO 8601). Kosong untuk versi bawaan. */
+    savedAt?: string;
+}
+
+/**
+ * Rujukan ringkas preset yang dicatat pada `GradeResult`.
+ */
+export interface PresetReference {
+    id: string;
+    name: string;
+    version: number;
+}
@@ -0,0 +1,53 @@
+/**
+ * @file answerKeyUtils.ts
+ * @description Utilitas murni untuk kunci jawaban terstruktur (`AnswerKeyQuestion[]`).
+ *
+ * Kunci terstruktur adalah sumber kebenaran untuk pemetaan soal: teks soal & kunci pada hasil
+ * penilaian diambil dari sini (bukan disalin ulang oleh AI per mahasiswa), dan poin maksimal
+ * per soal dapat dipakai sebagai rubrik sederhana jika dosen tidak membuat rubrik sendiri.
+ */
+
+import { AnswerKeyQuestion, GradeResult, Rubric } from '../types';
+import { questionNumbersMatch } from './rubricUtils';
+
+/**
+ * Membuat rubrik holistik (tanpa kriteria) dari poin maksimal kunci terstruktur.
+ * Hanya jika SEMUA soal memiliki poin > 0; jika tidak, penilaian tetap memakai rata-rata skor 0-100
+ * (soal tanpa poin tidak boleh "hilang" dari perhitungan Nilai Akhir).
+ */
+export const answerKeyToRubric = (questions: AnswerKeyQuestion[] | null | undefined): Rubric | null => {
+    if (!questions || questions.length === 0 || questions.some(q => !(q.maxPoints > 0))) return null;
+    return {
+        questions: questions.map(q => ({ questionNumber: q.questionNumber, maxPoints: q.maxPoints, criteria: [] })),
+    };
+};
+
+/**
+ * Menimpa `questionText` & `lecturerAnswer` pada hasil dengan teks dari kunci terstruktur,
+ * sehingga pemetaan soal identik untuk seluruh mahasiswa.
+ */
+export const applyAnswerKeyText = (result: GradeResult, questions: AnswerKeyQuestion[] | null | undefined): GradeResult => {
+    if (!questions || questions.length === 0) return result;
+    return {
+        ...result,
+        detailedFeedback: result.detailedFeedback.map(fb => {
+            const keyQuestion = questions.find(q => questionNumbersMatch(q.questionNumber, fb.questionNumber));
+            if (!keyQuestion) return fb;
+            return {
+                ...fb,
+                questionText: keyQuestion.questionText || fb.questionText,
+                lecturerAnswer: keyQuestion.modelAnswer || fb.lecturerAnswer,
+            };
+        }),
+    };
+};
+
+/**
+ * Template soal baru untuk editor kunci (nomor = urutan berikutnya).
+ */
+export const createAnswerKeyQuestion = (questions: AnswerKeyQuestion[]): AnswerKeyQuestion => ({
+    questionNumber: String(questions.length + 1),
+    questionText: '',
+    modelAnswer: '',
+    maxPoints: 0,
+});
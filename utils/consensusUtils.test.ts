@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { GradeResult } from '../types';
+import { combineConsensusResults } from './consensusUtils';
+
+const createSample = (score: number, feedback: string, points?: number) => ({
+    model: 'mock',
+    result: {
+        grade: score,
+        studentText: 'Jawaban',
+        improvements: feedback,
+        detailedFeedback: [{
+            questionNumber: '1',
+            studentAnswer: 'Jawaban',
+            score,
+            points,
+            feedback,
+            criteriaScores: points === undefined ? undefined : [{ criterionId: 'c1', points, maxPoints: 10 }],
+        }],
+    } as GradeResult,
+});
+
+describe('combineConsensusResults', () => {
+    it('jumlah sampel genap: median = rata-rata dua nilai tengah, umpan balik dari sampel terdekat', () => {
+        const result = combineConsensusResults([createSample(60, 'A', 6), createSample(90, 'D', 9), createSample(70, 'B', 7), createSample(80, 'C', 8)]);
+        const [feedback] = result.detailedFeedback;
+
+        expect(result.grade).toBe(75);
+        expect(feedback).toMatchObject({ score: 75, points: 7.5, criteriaScores: [{ criterionId: 'c1', points: 7.5 }], feedback: 'B' });
+        expect(result.improvements).toBe('B');
+        expect(feedback.consensus).toEqual({ scores: [60, 90, 70, 80], spread: 30 });
+    });
+
+    it('jumlah sampel ganjil: median = nilai tengah', () => {
+        const result = combineConsensusResults([createSample(90, 'C'), createSample(50, 'A'), createSample(70, 'B')]);
+
+        expect(result.grade).toBe(70);
+        expect(result.detailedFeedback[0]).toMatchObject({ score: 70, feedback: 'B' });
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * @file consensusUtils.ts
+ * @description Penggabungan hasil penilaian konsensus (multi-sampel / multi-model).
+ *
+ * LATAR BELAKANG:
+ * Meskipun `temperature: 0`, skor submission yang sama dapat bergeser antar-run. Pada mode konsensus
+ * satu submission dinilai beberapa kali; skor per soal diambil dari MEDIAN sampel dan rentangnya
+ * (tertinggi - terendah) dilaporkan agar dosen tahu hasil mana yang perlu ditinjau manual.
+ *
+ * Skor, poin, poin kriteria, dan nilai total memakai median sebenarnya (rata-rata dua nilai tengah untuk
+ * jumlah sampel genap). Teks umpan balik tidak dapat dimedian, sehingga diambil dari sampel yang skornya
+ * paling dekat dengan median.
+ */
+
+import { FeedbackDetail, GradeResult, QuestionConsensus, TokenUsage } from '../types';
+import { questionNumbersMatch } from './rubricUtils';
+import { mergeIntegrityFlags } from './integrityUtils';
+
+/**
+ * Rentang skor soal (skala 0-100) di atas ambang ini menandai hasil "perlu ditinjau".
+ */
+export const CONSENSUS_SPREAD_THRESHOLD = 20;
+
+export interface ConsensusSample {
+    result: GradeResult;
+    model: string;
+}
+
+// Median `values`; jumlah genap = rata-rata dua nilai tengah.
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Indeks nilai yang paling dekat dengan `target` (seri: kemunculan pertama).
+const nearestIndex = (values: number[], target: number): number => {
+    return values.reduce((best, value, index) => (Math.abs(value - target) < Math.abs(values[best] - target) ? index : best), 0);
+};
+
+// Median per kriteria (dicocokkan lewat `criterionId`); kriteria diambil dari entri sampel terdekat.
+const medianCriteriaScores = (entry: FeedbackDetail, entries: FeedbackDetail[]): FeedbackDetail['criteriaScores'] => {
+    return entry.criteriaScores?.map(cs => {
+        const points = entries.flatMap(fb => fb.criteriaScores?.filter(other => other.criterionId === cs.criterionId) ?? []).map(other => other.points);
+        return { ...cs, points: median(points) };
+    });
+};
+
+const sumUsage = (samples: ConsensusSample[]): TokenUsage | undefined => {
+    const usages = samples.map(s => s.result.usage).filter((u): u is TokenUsage => !!u);
+    if (usages.length === 0) return undefined;
+    return {
+        inputTokens: usages.reduce((sum, u) => sum + u.inputTokens, 0),
+        outputTokens: usages.reduce((sum, u) => sum + u.outputTokens, 0),
+    };
+};
+
+/**
+ * Menggabungkan beberapa hasil penilaian (mentah dari provider) menjadi satu `GradeResult`.
+ * Nilai Akhir dihitung ulang oleh pemanggil (`applyComputedGrade`) dari skor median per soal.
+ */
+export const combineConsensusResults = (samples: ConsensusSample[]): GradeResult => {
+    // Kelompokkan umpan balik per nomor soal (urutan: kemunculan pertama di seluruh sampel).
+    const groups: { questionNumber: string; entries: FeedbackDetail[] }[] = [];
+    samples.forEach(({ result }) => {
+        result.detailedFeedback.forEach(fb => {
+            const group = groups.find(g => questionNumbersMatch(g.questionNumber, fb.questionNumber));
+            if (group) group.entries.push(fb);
+            else groups.push({ questionNumber: fb.questionNumber, entries: [fb] });
+        });
+    });
+
+    const warnings: string[] = [];
+    const detailedFeedback = groups.map(({ questionNumber, entries }) => {
+        const scores = entries.map(fb => fb.score);
+        const consensus: QuestionConsensus = { scores, spread: Math.max(...scores) - Math.min(...scores) };
+        if (entries.length < samples.length) {
+            warnings.push(`Konsensus: soal ${questionNumber} hanya ditemukan pada ${entries.length} dari ${samples.length} sampel.`);
+        }
+        const score = median(scores);
+        const entry = entries[nearestIndex(scores, score)];
+        const points = entries.map(fb => fb.points).filter((p): p is number => typeof p === 'number');
+        return {
+            ...entry,
+            score,
+            points: points.length > 0 ? median(points) : entry.points,
+            criteriaScores: medianCriteriaScores(entry, entries),
+            consensus,
+        };
+    });
+
+    const maxSpread = detailedFeedback.reduce((max, fb) => Math.max(max, fb.consensus.spread), 0);
+    const grades = samples.map(s => s.result.grade);
+    const grade = median(grades);
+    const base = samples[nearestIndex(grades, grade)].result;
+    const validationWarnings = Array.from(new Set([
+        ...samples.flatMap(s => s.result.validationWarnings || []),
+        ...warnings,
+    ]));
+    // Temuan manipulasi dari sampel mana pun tetap dilaporkan (tidak dimedian).
+    const integrityFlags = mergeIntegrityFlags(...samples.map(s => s.result.integrityFlags));
+    const fallbackFrom = samples.find(s => s.result.fallbackFrom)?.result.fallbackFrom;
+
+    return {
+        ...base,
+        grade,
+        detailedFeedback,
+        validationWarnings: validationWarnings.length > 0 ? validationWarnings : undefined,
+        integrityFlags: integrityFlags.length > 0 ? integrityFlags : undefined,
+        usage: sumUsage(samples),
+        model: Array.from(new Set(samples.map(s => s.model))).join(', '),
+        fallbackFrom,
+        consensus: {
+            samples: samples.length,
+            models: samples.map(s => s.model),
+            maxSpread,
+            highDisagreement: maxSpread > CONSENSUS_SPREAD_THRESHOLD,
+        },
+    };
+};
@@ -5,13 +5,23 @@
  * Meskipun bernama 'csvUtils', file ini sekarang menghasilkan file Excel Multi-Sheet (.xlsx) tingkat lanjut.
  */
 
-import { GradeResult } from '../types';
+import { GradeResult, SourcePage } from '../types';
 import * as XLSX from 'xlsx';
+import { LEGIBILITY_LABELS, getReviewReasons, getReviewQueue } from './reviewUtils';
+import { formatIntegrityFlag } from './integrityUtils';
+import { computeSimilarityReport, formatQuestionLabel } from './similarityUtils';
+import { describeProvenance } from './provenanceUtils';
+import { findSourcePage } from './pdfUtils';
+
+const formatSourcePage = (page?: SourcePage): string => (page ? `${page.fileName} hlm. ${page.filePage}` : '');
 
 /**
- * Menghasilkan workbook Excel dengan dua sheet spesifik:
+ * Menghasilkan workbook Excel dengan sheet spesifik:
  * 1. "Rekap Nilai" (Ringkasan): Satu baris per siswa, berisi nilai akhir dan saran utama.
  * 2. "Analisis Per Soal" (Detail): Satu baris per PERTANYAAN per siswa. Berisi analisis granular.
+ * 3. "Surat Mahasiswa" (jika ada): Satu baris per siswa berisi surat umpan balik yang siap dibagikan.
+ * 4. "Kemiripan Jawaban" (jika ada): Satu baris per PASANGAN mahasiswa yang jawabannya mirip secara mencurigakan.
+ * 5. "Metadata" (jika ada): Satu baris per siswa berisi asal-usul penilaian (model, preset, waktu, hash kunci, dll.).
  * 
  * @param results - Array hasil penilaian dari Mode Kelas.
  * @returns Objek Workbook XLSX.
@@ -21,6 +31,14 @@ export function generateCsv(results: GradeResult[]): any {
     const summaryData = results.map(res => ({
         'Nama File': res.fileName || 'N/A',
         'Nilai Akhir': res.grade,
+        'Nilai Usulan AI': res.aiProposedGrade ?? '',
+        'Perlu Tinjauan (Selisih Nilai)': res.gradeMismatch ? 'YA' : '',
+        'Peringatan Validasi': (res.validationWarnings || []).join(' | '),
+        'Temuan Integritas': (res.integrityFlags || []).map(formatIntegrityFlag).join(' | '),
+        'Konsensus (Rentang Maks)': res.consensus ? `${res.consensus.maxSpread}${res.consensus.highDisagreement ? ' - PERLU TINJAUAN' : ''}` : '',
+        'Model': res.model ? `${res.model}${res.fallbackFrom ? ` (cadangan dari ${res.fallbackFrom})` : ''}` : '',
+        'Preset Prompt': res.preset ? `${res.preset.name} (${res.preset.id} v${res.preset.version})` : '',
+        'Soal Perlu Ditinjau': getReviewQueue(res).map(item => item.feedback.questionNumber).join(', '),
         'Saran Perbaikan': res.improvements
     }));
     const summarySheet = XLSX.utils.json_to_sheet(summaryData);
@@ -36,17 +54,67 @@ export function generateCsv(results: GradeResult[]): any {
                 'Teks Soal (Dosen)': fb.questionText || '',
                 'Kunci Jawaban (Dosen)': fb.lecturerAnswer || '',
                 'Jawaban Siswa (OCR)': fb.studentAnswer || '',
+                'Halaman Sumber': formatSourcePage(findSourcePage(res.sourcePages, fb.page)),
                 'Skor Soal': fb.score,
+                'Skor Sampel Konsensus': fb.consensus ? fb.consensus.scores.join(' / ') : '',
+                'Keyakinan AI (%)': fb.confidence ?? '',
+                'Keterbacaan': fb.legibility ? LEGIBILITY_LABELS[fb.legibility] : '',
+                'Perlu Ditinjau': getReviewReasons(fb).join('; '),
+                'Poin': fb.points ?? '',
+                'Poin Maksimal': fb.maxPoints ?? '',
+                'Rincian Kriteria': (fb.criteriaScores || [])
+                    .map(cs => `${cs.criterionName || cs.criterionId}${cs.level ? ` (${cs.level})` : ''}: ${cs.points}/${cs.maxPoints}`)
+                    .join('; '),
                 'Umpan Balik AI': fb.feedback
             });
         });
     });
     const detailedSheet = XLSX.utils.json_to_sheet(detailedData);
 
+    // --- Sheet 3: Surat untuk Mahasiswa (ditulis langsung kepada mahasiswa, bukan untuk Dosen) ---
+    const letterData = results
+        .filter(res => res.studentFeedback)
+        .map(res => ({
+            'Nama File': res.fileName || 'N/A',
+            'Nilai Akhir': res.grade,
+            'Surat Umpan Balik': res.studentFeedback,
+        }));
+
+    // --- Sheet 4: Kemiripan Jawaban Antar Mahasiswa (dihitung lokal, lihat similarityUtils) ---
+    const similarityData = computeSimilarityReport(results).clusters.flatMap(cluster =>
+        cluster.pairs.map(pair => ({
+            'Kelompok': cluster.id,
+            'Soal': formatQuestionLabel(cluster.questionNumber),
+            'Mahasiswa A': pair.studentA,
+            'Mahasiswa B': pair.studentB,
+            'Kemiripan (%)': Math.round(pair.similarity * 100),
+            'Anggota Kelompok': cluster.students.join(', '),
+        }))
+    );
+
+    // --- Sheet 5: Metadata Penilaian (bukti jika ada keberatan nilai di kemudian hari) ---
+    const metadataData = results
+        .filter(res => res.provenance)
+        .map(res => ({
+            'Nama File': res.fileName || 'N/A',
+            ...Object.fromEntries(describeProvenance(res.provenance!).map(field => [field.label, field.value])),
+            'Waktu (ISO)': res.provenance!.gradedAt,
+            'Latensi (ms)': res.provenance!.latencyMs,
+        }));
+
     // Buat Workbook dan lampirkan sheet
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, summarySheet, "Rekap Nilai");
     XLSX.utils.book_append_sheet(workbook, detailedSheet, "Analisis Per Soal");
+    if (letterData.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(letterData), "Surat Mahasiswa");
+    }
+    if (similarityData.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(similarityData), "Kemiripan Jawaban");
+    }
+    if (metadataData.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(metadataData), "Metadata");
+    }
 
     return workbook;
 }
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { disambiguateSubmissionNames, findDuplicateSubmissionNames } from './fileUtils';
+
+const submission = (name: string) => ({ name, files: [] });
+
+describe('nama mahasiswa ganda', () => {
+    it('mendeteksi nama ganda di antrean dan nama yang sudah dipakai batch job berjalan', () => {
+        expect(findDuplicateSubmissionNames([submission('Andi'), submission('Budi'), submission('Andi')])).toEqual(['Andi']);
+        expect(findDuplicateSubmissionNames([submission('Citra')], ['Citra'])).toEqual(['Citra']);
+        expect(findDuplicateSubmissionNames([submission('Andi'), submission('Budi')], ['Citra'])).toEqual([]);
+    });
+
+    it('memberi nomor sehingga setiap nama unik', () => {
+        const renamed = disambiguateSubmissionNames(
+            [submission('Andi'), submission('Andi'), submission('Andi (2)'), submission('Citra')],
+            ['Citra']
+        );
+        expect(renamed.map(s => s.name)).toEqual(['Andi', 'Andi (2)', 'Andi (2) (2)', 'Citra (2)']);
+    });
+});
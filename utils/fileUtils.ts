@@ -10,10 +10,36 @@
 
 import JSZip from 'jszip';
 import { StudentSubmission } from '../types';
+import { MAX_PDF_FILE_SIZE_BYTES } from './pdfUtils';
+import { MAX_RAW_IMAGE_SIZE_BYTES, getImagePreprocessSettings, isPreprocessableImage, preprocessImage } from './imageUtils';
 
 // Hard limit for individual files (10MB)
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
 
+/**
+ * Batas ukuran file jawaban mahasiswa. PDF boleh lebih besar karena dipecah per halaman secara lokal
+ * sebelum dikirim (lihat pdfUtils.ts); setiap halaman tetap dibatasi 10MB.
+ * Foto juga boleh lebih besar selama pra-pemrosesan gambar aktif, karena diperkecil sebelum di-encode (lihat imageUtils.ts).
+ */
+export const exceedsUploadLimit = (fileName: string, size: number): boolean => {
+    if (fileName.toLowerCase().endsWith('.pdf')) return size > MAX_PDF_FILE_SIZE_BYTES;
+    if (isPreprocessableImage({ name: fileName }) && getImagePreprocessSettings().enabled) return size > MAX_RAW_IMAGE_SIZE_BYTES;
+    return size > MAX_FILE_SIZE_BYTES;
+};
+
+/**
+ * Menjalankan pra-pemrosesan gambar (imageUtils.ts) pada setiap foto secara berurutan,
+ * agar hanya satu gambar besar yang di-decode di memori pada satu waktu.
+ */
+const preprocessImages = async (files: File[]): Promise<File[]> => {
+    const settings = getImagePreprocessSettings();
+    const result: File[] = [];
+    for (const file of files) {
+        result.push(await preprocessImage(file, settings));
+    }
+    return result;
+};
+
 /**
  * Mendapatkan tipe MIME yang valid berdasarkan ekstensi file.
  * Digunakan untuk memperbaiki file yang terdeteksi sebagai 'application/octet-stream'.
@@ -34,7 +60,13 @@ const getMimeTypeFromFilename = (filename: string): string => {
         case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
         case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
         case 'pptx': return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+        case 'odt': return 'application/vnd.oasis.opendocument.text';
+        case 'ods': return 'application/vnd.oasis.opendocument.spreadsheet';
+        case 'odp': return 'application/vnd.oasis.opendocument.presentation';
+        case 'rtf': return 'application/rtf';
         case 'txt': return 'text/plain';
+        case 'md':
+        case 'markdown': return 'text/markdown';
         case 'csv': return 'text/csv';
         default: return 'application/octet-stream';
     }
@@ -107,8 +139,8 @@ export const extractFilesFromZip = async (zipFile: File): Promise<File[]> => {
 
             // Sanity Check for ZIP content
             const blob = await entry.async('blob');
-            if (blob.size > MAX_FILE_SIZE_BYTES) {
-                 console.warn(`File dalam ZIP '${relativePath}' terlalu besar (>10MB), dilewati.`);
+            if (exceedsUploadLimit(relativePath, blob.size)) {
+                 console.warn(`File dalam ZIP '${relativePath}' terlalu besar, dilewati.`);
                  continue; // Skip file ini tapi jangan gagalkan seluruh ZIP
             }
 
@@ -162,8 +194,8 @@ export const extractFilesFromZipWithPaths = async (zipFile: File): Promise<FileW
             const blob = await entry.async('blob');
             
             // ZIP Content Size Check
-            if (blob.size > MAX_FILE_SIZE_BYTES) {
-                console.warn(`File dalam ZIP '${relativePath}' terlalu besar (>10MB), dilewati.`);
+            if (exceedsUploadLimit(relativePath, blob.size)) {
+                console.warn(`File dalam ZIP '${relativePath}' terlalu besar, dilewati.`);
                 continue;
             }
             
@@ -221,8 +253,8 @@ export const processClassFiles = async (files: File[]): Promise<StudentSubmissio
 
     for (const file of files) {
         // Sanity Check for Main Uploads
-        if (file.size > MAX_FILE_SIZE_BYTES) {
-            console.warn(`File upload '${file.name}' terlalu besar (>10MB), dilewati.`);
+        if (exceedsUploadLimit(file.name, file.size)) {
+            console.warn(`File upload '${file.name}' terlalu besar, dilewati.`);
             continue;
         }
 
@@ -330,11 +362,43 @@ export const processClassFiles = async (files: File[]): Promise<StudentSubmissio
         }
     }
 
-    // Konversi Map ke Array untuk output
-    return Array.from(submissions.entries()).map(([name, files]) => ({
-        name,
-        files
-    }));
+    // Konversi Map ke Array untuk output (foto dipraproses di sini, setelah pengelompokan selesai)
+    const result: StudentSubmission[] = [];
+    for (const [name, files] of submissions.entries()) {
+        result.push({ name, files: await preprocessImages(files) });
+    }
+    return result;
+};
+
+/**
+ * Nama mahasiswa yang muncul lebih dari sekali di antrean, atau sudah dipakai `reservedNames`
+ * (misal mahasiswa di batch job yang masih berjalan). Hasil, file, dan respons batch dipetakan per nama,
+ * sehingga nama ganda membuat penilaian saling menimpa.
+ */
+export const findDuplicateSubmissionNames = (submissions: StudentSubmission[], reservedNames: string[] = []): string[] => {
+    const seen = new Set(reservedNames);
+    const duplicates = new Set<string>();
+    submissions.forEach(({ name }) => {
+        if (seen.has(name)) duplicates.add(name);
+        seen.add(name);
+    });
+    return Array.from(duplicates);
+};
+
+/**
+ * Memberi nomor pada nama ganda ("Budi" -> "Budi (2)") agar setiap submission memiliki nama unik.
+ * Kemunculan pertama tetap memakai nama aslinya kecuali nama tersebut sudah ada di `reservedNames`.
+ */
+export const disambiguateSubmissionNames = (submissions: StudentSubmission[], reservedNames: string[] = []): StudentSubmission[] => {
+    const used = new Set(reservedNames);
+    return submissions.map(submission => {
+        let name = submission.name;
+        for (let n = 2; used.has(name); n++) {
+            name = `${submission.name} (${n})`;
+        }
+        used.add(name);
+        return name === submission.name ? submission : { ...submission, name };
+    });
 };
 
 /**
@@ -349,8 +413,8 @@ export const processUploadedFiles = async (files: File[]): Promise<File[]> => {
 
     for (const file of files) {
          // Sanity Check
-         if (file.size > MAX_FILE_SIZE_BYTES) {
-            console.warn(`File upload '${file.name}' terlalu besar (>10MB), dilewati.`);
+         if (exceedsUploadLimit(file.name, file.size)) {
+            console.warn(`File upload '${file.name}' terlalu besar, dilewati.`);
             continue;
         }
 
@@ -373,5 +437,5 @@ export const processUploadedFiles = async (files: File[]): Promise<File[]> => {
             processedFiles.push(file);
         }
     }
-    return processedFiles;
+    return preprocessImages(processedFiles);
 };
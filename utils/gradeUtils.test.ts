@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { GradeResult, Rubric } from '../types';
+import { applyComputedGrade, computeQuestionPoints } from './gradeUtils';
+
+// Soal 1 bernilai 20 poin: kriteria c1 (bobot 3) = 15 poin, c2 (bobot 1) = 5 poin.
+const RUBRIC: Rubric = {
+    questions: [{
+        questionNumber: '1',
+        maxPoints: 20,
+        criteria: [
+            { id: 'c1', name: 'Konsep', weight: 3, levels: [] },
+            { id: 'c2', name: 'Contoh', weight: 1, levels: [] },
+        ],
+    }],
+};
+
+const createResult = (criteriaScores: NonNullable<GradeResult['detailedFeedback'][number]['criteriaScores']>): GradeResult => ({
+    grade: 100,
+    studentText: 'Jawaban',
+    improvements: '-',
+    detailedFeedback: [{ questionNumber: '1', studentAnswer: 'Jawaban', score: 100, feedback: 'Baik.', criteriaScores }],
+});
+
+describe('computeQuestionPoints', () => {
+    it('membatasi poin kriteria dengan poin maksimal dari rubrik, bukan maxPoints kiriman model', () => {
+        const feedback = createResult([
+            { criterionId: 'c1', points: 10, maxPoints: 15 },
+            { criterionId: 'c2', points: 15, maxPoints: 15 },
+        ]).detailedFeedback[0];
+
+        expect(computeQuestionPoints(feedback, RUBRIC.questions[0])).toBe(15);
+    });
+
+    it('memakai field points jika tidak ada kriteria yang cocok dengan rubrik', () => {
+        const feedback = { ...createResult([{ criterionId: 'x', points: 20, maxPoints: 20 }]).detailedFeedback[0], points: 8 };
+
+        expect(computeQuestionPoints(feedback, RUBRIC.questions[0])).toBe(8);
+    });
+});
+
+describe('applyComputedGrade', () => {
+    it('menyelaraskan skor kriteria dengan rubrik dan mencatat kriteria yang tidak dikenal', () => {
+        const result = applyComputedGrade(createResult([
+            { criterionId: 'c1', points: 15, maxPoints: 15 },
+            { criterionId: 'c2', points: 9, maxPoints: 9 },
+            { criterionId: 'bonus', points: 10, maxPoints: 10 },
+        ]), RUBRIC);
+
+        const [feedback] = result.detailedFeedback;
+        expect(feedback.criteriaScores).toEqual([
+            { criterionId: 'c1', criterionName: 'Konsep', points: 15, maxPoints: 15 },
+            { criterionId: 'c2', criterionName: 'Contoh', points: 5, maxPoints: 5 },
+        ]);
+        expect(feedback.points).toBe(20);
+        expect(result.grade).toBe(100);
+        expect(result.validationWarnings).toEqual([expect.stringContaining('bonus')]);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * @file gradeUtils.ts
+ * @description Perhitungan Nilai Akhir secara DETERMINISTIK di sisi klien.
+ *
+ * LATAR BELAKANG:
+ * Nilai total yang diusulkan AI (`grade` dari JSON model) sering tidak konsisten dengan skor per soal
+ * di `detailedFeedback`. Karena itu nilai akhir dihitung ulang secara lokal dari skor per soal:
+ * - Tanpa rubrik : rata-rata skor seluruh soal (0-100).
+ * - Dengan rubrik: jumlah poin berbobot (total poin diperoleh / total poin maksimal rubrik x 100).
+ * Nilai usulan AI tetap disimpan di `aiProposedGrade` untuk audit.
+ */
+
+import { CriterionScore, FeedbackDetail, GradeResult, Rubric, RubricQuestion } from '../types';
+import { findRubricQuestion, getCriterionMaxPoints, isRubricUsable, questionNumbersMatch, roundPoints } from './rubricUtils';
+
+/**
+ * Selisih maksimal (dalam poin skala 0-100) antara nilai hitungan lokal dan nilai usulan AI
+ * sebelum hasil ditandai untuk ditinjau dosen.
+ */
+export const GRADE_MISMATCH_THRESHOLD = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Menyelaraskan skor kriteria dari AI dengan kriteria soal rubrik (dicocokkan lewat `criterionId`).
+ * Poin maksimal selalu dihitung dari bobot rubrik; `maxPoints` kiriman model diabaikan agar satu
+ * kriteria tidak dapat diberi poin melebihi porsinya.
+ *
+ * @returns Skor kriteria yang dikenal (urut sesuai rubrik) dan id kriteria yang tidak ada di rubrik.
+ */
+export const alignCriteriaScores = (
+    criteriaScores: CriterionScore[] | undefined,
+    question: RubricQuestion
+): { criteriaScores: CriterionScore[]; unknownCriterionIds: string[] } => {
+    const scores = criteriaScores || [];
+    const aligned = question.criteria.flatMap(criterion => {
+        const score = scores.find(cs => cs.criterionId === criterion.id);
+        if (!score) return [];
+        const maxPoints = getCriterionMaxPoints(question, criterion);
+        return [{ ...score, criterionName: criterion.name, maxPoints, points: roundPoints(clamp(score.points, 0, maxPoints)) }];
+    });
+    const unknownCriterionIds = scores
+        .map(cs => cs.criterionId)
+        .filter(id => !question.criteria.some(criterion => criterion.id === id));
+    return { criteriaScores: aligned, unknownCriterionIds };
+};
+
+/**
+ * Menghitung poin satu soal pada skala rubrik.
+ * Prioritas sumber: jumlah poin kriteria rubrik > field `points` > konversi `score` (persentase).
+ */
+export const computeQuestionPoints = (feedback: FeedbackDetail, question: RubricQuestion): number => {
+    const { criteriaScores } = alignCriteriaScores(feedback.criteriaScores, question);
+    let points: number;
+    if (criteriaScores.length > 0) {
+        points = criteriaScores.reduce((sum, cs) => sum + cs.points, 0);
+    } else if (typeof feedback.points === 'number') {
+        points = feedback.points;
+    } else {
+        points = question.maxPoints * clamp(feedback.score, 0, 100) / 100;
+    }
+    return roundPoints(clamp(points, 0, question.maxPoints));
+};
+
+/**
+ * Menghitung Nilai Akhir (0-100, bilangan bulat) dari skor per soal.
+ *
+ * @param detailedFeedback - Rincian per soal dari AI.
+ * @param rubric - Rubrik dosen (opsional). Soal rubrik yang tidak ditemukan di hasil AI dihitung 0 poin.
+ */
+export const computeFinalGrade = (detailedFeedback: FeedbackDetail[], rubric?: Rubric | null): number => {
+    if (isRubricUsable(rubric)) {
+        const totalMax = rubric.questions.reduce((sum, q) => sum + q.maxPoints, 0);
+        if (totalMax <= 0) return 0;
+
+        const earned = rubric.questions.reduce((sum, question) => {
+            const feedback = detailedFeedback.find(fb => questionNumbersMatch(fb.questionNumber, question.questionNumber));
+            return sum + (feedback ? computeQuestionPoints(feedback, question) : 0);
+        }, 0);
+
+        return Math.round(earned / totalMax * 100);
+    }
+
+    if (detailedFeedback.length === 0) return 0;
+    const total = detailedFeedback.reduce((sum, fb) => sum + clamp(fb.score, 0, 100), 0);
+    return Math.round(total / detailedFeedback.length);
+};
+
+/**
+ * Mengganti `grade` usulan AI dengan nilai hasil hitungan lokal.
+ * Pada mode rubrik, field `points`/`maxPoints` dan skor kriteria per soal juga diselaraskan dengan rubrik;
+ * skor untuk kriteria yang tidak ada di rubrik dibuang dan dicatat di `validationWarnings`.
+ *
+ * @returns Salinan `GradeResult` dengan `grade` deterministik, `aiProposedGrade`, dan `gradeMismatch`.
+ */
+export const applyComputedGrade = (result: GradeResult, rubric?: Rubric | null): GradeResult => {
+    const warnings: string[] = [];
+    const detailedFeedback = isRubricUsable(rubric)
+        ? result.detailedFeedback.map(fb => {
+            const question = findRubricQuestion(rubric, fb.questionNumber);
+            if (!question) return fb;
+            const { criteriaScores, unknownCriterionIds } = alignCriteriaScores(fb.criteriaScores, question);
+            if (unknownCriterionIds.length > 0) {
+                warnings.push(`Soal ${fb.questionNumber}: skor kriteria ${unknownCriterionIds.join(', ')} tidak ada di rubrik dan diabaikan.`);
+            }
+            return {
+                ...fb,
+                maxPoints: question.maxPoints,
+                points: computeQuestionPoints(fb, question),
+                criteriaScores: fb.criteriaScores ? criteriaScores : undefined,
+            };
+        })
+        : result.detailedFeedback;
+
+    const grade = computeFinalGrade(detailedFeedback, rubric);
+    const aiProposedGrade = typeof result.grade === 'number' ? result.grade : undefined;
+
+    return {
+        ...result,
+        ...(warnings.length > 0 ? { validationWarnings: [...(result.validationWarnings || []), ...warnings] } : {}),
+        detailedFeedback,
+        grade,
+        aiProposedGrade,
+        gradeMismatch: aiProposedGrade !== undefined && Math.abs(aiProposedGrade - grade) > GRADE_MISMATCH_THRESHOLD,
+    };
+};
@@ -0,0 +1,175 @@
+/**
+ * @file imageUtils.ts
+ * @description Pra-pemrosesan foto jawaban mahasiswa di browser SEBELUM di-encode Base64.
+ *
+ * Foto lembar ujian dari ponsel sering berukuran 8-12MB: melewati batas 10MB dan memboroskan token,
+ * padahal resolusi sebesar itu tidak menambah akurasi OCR. Pipeline (sepenuhnya lokal, via canvas):
+ * 1. HEIC/HEIF -> JPEG (decoder bawaan browser, atau heic2any jika browser tidak mendukung).
+ * 2. Rotasi otomatis sesuai orientasi EXIF (`imageOrientation: 'from-image'`).
+ * 3. Perkecil hingga sisi terpanjang <= batas (tidak pernah diperbesar).
+ * 4. Opsional: grayscale dan peningkatan kontras untuk scan pensil/tinta pudar.
+ * 5. Encode ulang ke JPEG dengan kualitas yang dapat diatur.
+ */
+
+/**
+ * Pengaturan pra-pemrosesan gambar (JSON di localStorage).
+ */
+export const IMAGE_PREPROCESS_STORAGE_KEY = 'USER_IMAGE_PREPROCESSING';
+
+export interface ImagePreprocessSettings {
+    enabled: boolean;
+    /** Panjang maksimal sisi terpanjang (piksel). */
+    maxLongEdge: number;
+    /** Kualitas JPEG (0.5-0.95). */
+    quality: number;
+    grayscale: boolean;
+    contrastBoost: boolean;
+}
+
+export const DEFAULT_IMAGE_PREPROCESS_SETTINGS: ImagePreprocessSettings = {
+    enabled: true,
+    maxLongEdge: 2048,
+    quality: 0.85,
+    grayscale: false,
+    contrastBoost: false,
+};
+
+// Fungsi untuk mendapatkan pengaturan pra-pemrosesan (Prioritas: LocalStorage > Default)
+export const getImagePreprocessSettings = (): ImagePreprocessSettings => {
+    if (typeof window === 'undefined') return DEFAULT_IMAGE_PREPROCESS_SETTINGS;
+    try {
+        const saved = JSON.parse(localStorage.getItem(IMAGE_PREPROCESS_STORAGE_KEY) || '{}');
+        return { ...DEFAULT_IMAGE_PREPROCESS_SETTINGS, ...(saved && typeof saved === 'object' ? saved : {}) };
+    } catch {
+        return DEFAULT_IMAGE_PREPROCESS_SETTINGS;
+    }
+};
+
+/**
+ * Batas ukuran foto MENTAH yang diterima saat pra-pemrosesan aktif (hasilnya tetap harus <= 10MB).
+ */
+export const MAX_RAW_IMAGE_SIZE_BYTES = 40 * 1024 * 1024; // 40MB
+
+// Faktor kontras (1 = tanpa perubahan), diterapkan di sekitar titik tengah 128.
+const CONTRAST_FACTOR = 1.4;
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif'];
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+const isHeic = (file: File) => ['heic', 'heif'].includes(getExtension(file.name)) || /image\/hei[cf]/.test(file.type);
+
+/**
+ * `true` untuk foto yang dapat diproses pipeline ini (JPEG/PNG/WebP/HEIC).
+ */
+export const isPreprocessableImage = (file: File | { name: string; type?: string }): boolean =>
+    IMAGE_EXTENSIONS.includes(getExtension(file.name)) || /^image\/(jpeg|png|webp|hei[cf])$/.test(file.type || '');
+
+/**
+ * Ringkasan hasil pra-pemrosesan satu file, untuk pratinjau manifest.
+ */
+export interface ImagePreprocessReport {
+    originalName: string;
+    originalSize: number;
+    processedSize: number;
+    /** Dimensi hasil (piksel). */
+    width: number;
+    height: number;
+    /** `true` jika file asli dipertahankan (hasil proses tidak lebih kecil & tidak ada konversi wajib). */
+    keptOriginal: boolean;
+}
+
+// Laporan per File hasil pipeline. WeakMap: laporan ikut hilang saat File tidak lagi dipakai.
+const reports = new WeakMap<File, ImagePreprocessReport>();
+
+/**
+ * Laporan pra-pemrosesan untuk file hasil `preprocessImage`, atau `undefined` jika file tidak diproses.
+ */
+export const getImagePreprocessReport = (file: File): ImagePreprocessReport | undefined => reports.get(file);
+
+// HEIC: decoder bawaan (Safari) lebih dulu; selain itu heic2any (dimuat hanya saat diperlukan, ~1MB).
+const decodeImage = async (file: File): Promise<ImageBitmap> => {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (error) {
+        if (!isHeic(file)) throw error;
+        const { default: heic2any } = await import('heic2any');
+        const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+        const blob = Array.isArray(converted) ? converted[0] : converted;
+        return createImageBitmap(blob, { imageOrientation: 'from-image' });
+    }
+};
+
+// Grayscale (luminans Rec. 601) dan/atau kontras langsung pada piksel; `ctx.filter` tidak didukung semua browser.
+const applyPixelAdjustments = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: ImagePreprocessSettings) => {
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i], g = data[i + 1], b = data[i + 2];
+        if (settings.grayscale) {
+            r = g = b = 0.299 * r + 0.587 * g + 0.114 * b;
+        }
+        if (settings.contrastBoost) {
+            r = (r - 128) * CONTRAST_FACTOR + 128;
+            g = (g - 128) * CONTRAST_FACTOR + 128;
+            b = (b - 128) * CONTRAST_FACTOR + 128;
+        }
+        data[i] = r; data[i + 1] = g; data[i + 2] = b; // Uint8ClampedArray memotong ke 0-255
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Gagal meng-encode gambar ke JPEG.'))), 'image/jpeg', quality);
+    });
+
+/**
+ * Menjalankan pipeline pada satu foto. File non-gambar, atau jika pra-pemrosesan dinonaktifkan
+ * (kecuali HEIC yang selalu dikonversi), dikembalikan apa adanya.
+ * Gagal memproses (misal format rusak) -> file asli dikembalikan dan dicatat di console.
+ */
+export const preprocessImage = async (file: File, settings: ImagePreprocessSettings = getImagePreprocessSettings()): Promise<File> => {
+    if (!isPreprocessableImage(file) || (!settings.enabled && !isHeic(file))) return file;
+
+    try {
+        const bitmap = await decodeImage(file);
+        const scale = settings.enabled ? Math.min(1, settings.maxLongEdge / Math.max(bitmap.width, bitmap.height)) : 1;
+        const width = Math.round(bitmap.width * scale);
+        const height = Math.round(bitmap.height * scale);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        // Latar putih: PNG transparan tidak menjadi hitam setelah dikonversi ke JPEG.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+        if (settings.enabled && (settings.grayscale || settings.contrastBoost)) {
+            applyPixelAdjustments(ctx, width, height, settings);
+        }
+
+        const blob = await canvasToJpeg(canvas, settings.enabled ? settings.quality : 0.92);
+        // Tanpa konversi wajib/filter, hasil yang tidak lebih kecil tidak ada gunanya: pertahankan file asli.
+        const mustConvert = isHeic(file) || (settings.enabled && (settings.grayscale || settings.contrastBoost));
+        if (!mustConvert && blob.size >= file.size) {
+            reports.set(file, { originalName: file.name, originalSize: file.size, processedSize: file.size, width, height, keptOriginal: true });
+            return file;
+        }
+
+        const processed = new File([blob], file.name.replace(/\.[^/.]+$/, '') + '.jpg', { type: 'image/jpeg' });
+        reports.set(processed, { originalName: file.name, originalSize: file.size, processedSize: processed.size, width, height, keptOriginal: false });
+        return processed;
+    } catch (error) {
+        console.warn(`Pra-pemrosesan gambar '${file.name}' gagal, file asli dipakai:`, error);
+        return file;
+    }
+};
+
+/**
+ * Format ukuran file ringkas untuk UI (KB/MB).
+ */
+export const formatFileSize = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
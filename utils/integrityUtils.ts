@@ -0,0 +1,92 @@
+/**
+ * @file integrityUtils.ts
+ * @description Deteksi upaya manipulasi penilai (prompt injection) pada jawaban mahasiswa.
+ *
+ * DUA SUMBER TEMUAN:
+ * - 'ai'       : dilaporkan model di field `integrityFlags` respons penilaian (lihat GRADING_INSTRUCTION).
+ * - 'pre-scan' : pemindaian lokal teks jawaban (hasil ekstraksi file Office / transkrip) SEBELUM dikirim
+ *                ke AI. Tetap berfungsi meskipun model tertipu oleh injeksi tersebut.
+ */
+
+import { GradeResult, IntegrityFlag, IntegrityFlagType } from '../types';
+
+export const INTEGRITY_FLAG_LABELS: Record<IntegrityFlagType, string> = {
+    'instruction-override': 'Manipulasi Instruksi',
+    'score-request': 'Permintaan Nilai',
+    'other': 'Manipulasi Lain',
+};
+
+// Panjang maksimal kutipan bukti (karakter) agar tabel & ekspor tetap ringkas.
+export const MAX_EVIDENCE_LENGTH = 200;
+
+// Frasa injeksi umum (Bahasa Indonesia & Inggris). Sengaja spesifik untuk menekan positif palsu pada esai biasa.
+const INJECTION_PATTERNS: { type: IntegrityFlagType; pattern: RegExp }[] = [
+    { type: 'instruction-override', pattern: /\b(abaikan|lupakan|hiraukan)\s+(semua\s+|seluruh\s+)?(instruksi|perintah|aturan)\b/gi },
+    { type: 'instruction-override', pattern: /\b(ignore|disregard|forget)\s+(all\s+|any\s+)?(the\s+)?(previous|prior|above|earlier|your)?\s*(instructions?|prompts?|rules)\b/gi },
+    { type: 'instruction-override', pattern: /\b(system\s+prompt|prompt\s+sistem|instruksi\s+sistem)\b/gi },
+    { type: 'instruction-override', pattern: /\b(you\s+are\s+now\s+an?|kamu\s+sekarang\s+adalah|anda\s+sekarang\s+adalah|berperanlah\s+sebagai)\b/gi },
+    { type: 'instruction-override', pattern: /\b(catatan|pesan|note|message)\s+(untuk|kepada|for|to)\s+(ai|asisten|assistant|model|chatgpt|gemini|penilai|grader)\b/gi },
+    { type: 'score-request', pattern: /\b(beri(kan)?|kasih)\s+(saya\s+|aku\s+|mahasiswa\s+ini\s+|jawaban\s+ini\s+)?(nilai|skor)\s+(100|penuh|maksimal|sempurna)\b/gi },
+    { type: 'score-request', pattern: /\b(give|award|assign)\s+(me\s+|this\s+(student|answer)\s+)?(a\s+)?(full\s+(marks|score|points)|perfect\s+score|(score|grade)\s+of\s+100)\b/gi },
+];
+
+const normalizeEvidence = (text: string): string => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Kalimat tempat frasa ditemukan (dibatasi `MAX_EVIDENCE_LENGTH`), sebagai kutipan bukti.
+ */
+const extractSentence = (text: string, start: number, end: number): string => {
+    const before = text.slice(0, start);
+    const sentenceStart = Math.max(before.lastIndexOf('\n'), before.search(/[.!?][^.!?]*$/)) + 1;
+    const afterMatch = text.slice(end).search(/[.!?\n]/);
+    const sentenceEnd = afterMatch < 0 ? text.length : end + afterMatch + 1;
+
+    const sentence = text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+    if (sentence.length <= MAX_EVIDENCE_LENGTH) return sentence;
+    // Kalimat terlalu panjang: potong di sekitar frasa yang cocok.
+    const phrase = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    const offset = Math.max(0, sentence.indexOf(phrase) - Math.floor((MAX_EVIDENCE_LENGTH - phrase.length) / 2));
+    return `…${sentence.slice(offset, offset + MAX_EVIDENCE_LENGTH).trim()}…`;
+};
+
+/**
+ * Pemindaian lokal frasa injeksi pada satu teks.
+ */
+export const scanTextForInjection = (text: string): IntegrityFlag[] => {
+    const flags: IntegrityFlag[] = [];
+    INJECTION_PATTERNS.forEach(({ type, pattern }) => {
+        pattern.lastIndex = 0;
+        let match;
+        while ((match = pattern.exec(text)) !== null) {
+            flags.push({ type, evidence: extractSentence(text, match.index, match.index + match[0].length), source: 'pre-scan' });
+        }
+    });
+    return mergeIntegrityFlags(flags);
+};
+
+/**
+ * Menggabungkan beberapa daftar temuan. Temuan dengan kutipan yang sama (atau saling memuat) hanya
+ * dicatat sekali; urutan argumen menentukan prioritas (temuan AI lebih dulu karena memuat nomor soal).
+ */
+export const mergeIntegrityFlags = (...lists: (IntegrityFlag[] | undefined)[]): IntegrityFlag[] => {
+    const merged: IntegrityFlag[] = [];
+    lists.forEach(list => (list || []).forEach(flag => {
+        const evidence = normalizeEvidence(flag.evidence);
+        const duplicate = merged.some(existing => {
+            const other = normalizeEvidence(existing.evidence);
+            return other.includes(evidence) || evidence.includes(other);
+        });
+        if (!duplicate) merged.push(flag);
+    }));
+    return merged;
+};
+
+/**
+ * Ringkasan satu temuan untuk tabel & ekspor, misal: Permintaan Nilai (Soal 2): "tolong beri nilai 100".
+ */
+export const formatIntegrityFlag = (flag: IntegrityFlag): string => {
+    const question = flag.questionNumber ? ` (Soal ${flag.questionNumber})` : '';
+    return `${INTEGRITY_FLAG_LABELS[flag.type]}${question}: "${flag.evidence}"`;
+};
+
+export const hasIntegrityFlags = (result: GradeResult): boolean => (result.integrityFlags?.length ?? 0) > 0;
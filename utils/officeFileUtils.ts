@@ -1,7 +1,8 @@
 
 /**
  * @file officeFileUtils.ts
- * @description Utilitas untuk mengekstrak konten teks mentah dari file Microsoft Office.
+ * @description Utilitas untuk mengekstrak konten teks mentah dari file Microsoft Office, OpenDocument
+ * (LibreOffice), RTF, dan teks biasa (.txt/.md).
  * Hal ini memungkinkan AI untuk menilai dokumen Word/Excel/PPT secara langsung dengan membaca teksnya,
  * alih-alih mengandalkan OCR visual, memastikan akurasi 100% untuk dokumen digital.
  */
@@ -9,6 +10,9 @@
 import mammoth from 'mammoth';
 import * as xlsx from 'xlsx';
 import JSZip from 'jszip';
+import { fileToBase64 } from './fileUtils';
+import { preprocessImage } from './imageUtils';
+import { ommlToLatex } from './ommlUtils';
 
 /**
  * Helper: Membaca objek File dan mengembalikan kontennya sebagai ArrayBuffer.
@@ -36,10 +40,142 @@ const extractTextFromDocx = async (file: File): Promise<string> => {
     return result.value;
 };
 
+// Bagian konten siap API (struktur sama dengan `ContentPart` di services/gradingProvider.ts).
+type DocumentPart = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+// Format gambar yang dapat dibaca model vision; EMF/WMF (clip-art & pratinjau objek OLE lama) tidak.
+const SENDABLE_IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+const MAX_EMBEDDED_IMAGE_BYTES = 10 * 1024 * 1024; // 10MB, sama dengan batas file unggahan
+
+/**
+ * Mengekstrak isi .docx sebagai bagian konten berurutan: teks, gambar tersemat (foto tulisan tangan,
+ * diagram, tangkapan layar perhitungan) sebagai `inlineData` di posisi aslinya, dan persamaan Equation
+ * Editor (OMML) sebagai LaTeX (`$...$` sebaris, `$$...$$` blok).
+ *
+ * TEKNIK: `word/document.xml` ditelusuri langsung (mammoth.extractRawText membuang gambar & rumus).
+ * Gambar dirujuk lewat ID relasi (`r:embed`) yang dipetakan ke `word/media/*` melalui `document.xml.rels`.
+ * @param file - File .docx.
+ */
+const extractPartsFromDocx = async (file: File): Promise<DocumentPart[]> => {
+    const zip = await JSZip.loadAsync(await readFileAsArrayBuffer(file));
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) throw new Error(`'${file.name}' bukan dokumen Word yang valid (word/document.xml tidak ditemukan).`);
+
+    const parser = new DOMParser();
+    const relationships = new Map<string, string>();
+    const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+    if (relsXml) {
+        Array.from(parser.parseFromString(relsXml, 'application/xml').getElementsByTagName('Relationship')).forEach(rel => {
+            // Gambar tertaut (TargetMode="External") tidak ada di dalam arsip.
+            if (rel.getAttribute('TargetMode') !== 'External') {
+                relationships.set(rel.getAttribute('Id') || '', (rel.getAttribute('Target') || '').replace(/^\/?(word\/)?/, ''));
+            }
+        });
+    }
+
+    const parts: DocumentPart[] = [];
+    let buffer = '';
+    let imageCount = 0;
+    // Relasi yang sama dapat dirujuk dua kali (misal `mc:Choice` & `mc:Fallback`); kirim sekali saja.
+    const sentImages = new Set<string>();
+
+    const addImage = async (relationshipId: string | null) => {
+        const target = relationshipId ? relationships.get(relationshipId) : undefined;
+        if (!target || sentImages.has(target)) return;
+        sentImages.add(target);
+        imageCount++;
+
+        const name = target.split('/').pop() || target;
+        const mimeType = SENDABLE_IMAGE_TYPES[name.split('.').pop()?.toLowerCase() || ''];
+        const blob = await zip.file(`word/${target}`)?.async('blob');
+        if (!blob || !mimeType) {
+            buffer += `[Gambar ${imageCount}: '${name}' tidak dapat dikirim (format tidak didukung)]`;
+            return;
+        }
+        const image = await preprocessImage(new File([blob], name, { type: mimeType }));
+        if (image.size > MAX_EMBEDDED_IMAGE_BYTES) {
+            buffer += `[Gambar ${imageCount}: '${name}' terlalu besar untuk dikirim]`;
+            return;
+        }
+        buffer += `[Gambar ${imageCount}]`;
+        parts.push({ text: buffer });
+        buffer = '';
+        parts.push({ inlineData: { data: await fileToBase64(image), mimeType: image.type } });
+    };
+
+    // `inCell`: paragraf di dalam sel tabel dipisah spasi, bukan baris baru.
+    const walk = async (node: Node, inCell: boolean): Promise<void> => {
+        if (node.nodeType !== 1) return;
+        const el = node as Element;
+        const walkChildren = async (cell = inCell) => {
+            for (const childNode of Array.from(el.childNodes)) await walk(childNode, cell);
+        };
+
+        switch (el.nodeName) {
+            case 'w:t':
+                buffer += el.textContent || '';
+                return;
+            case 'w:tab':
+                buffer += '\t';
+                return;
+            case 'w:br':
+            case 'w:cr':
+                buffer += '\n';
+                return;
+            case 'w:p':
+                await walkChildren();
+                buffer += inCell ? ' ' : '\n';
+                return;
+            case 'w:tc':
+                await walkChildren(true);
+                buffer = buffer.replace(/ $/, '') + '\t';
+                return;
+            case 'w:tr':
+                await walkChildren();
+                buffer = buffer.replace(/\t$/, '') + '\n';
+                return;
+            case 'm:oMathPara':
+                for (const oMath of Array.from(el.getElementsByTagName('m:oMath'))) {
+                    buffer += `\n$$${ommlToLatex(oMath)}$$\n`;
+                }
+                return;
+            case 'm:oMath':
+                buffer += `$${ommlToLatex(el)}$`;
+                return;
+            case 'a:blip':
+                await addImage(el.getAttribute('r:embed'));
+                return;
+            case 'v:imagedata':
+                await addImage(el.getAttribute('r:id'));
+                return;
+            // Alternatif konten: cukup `mc:Choice` (versi modern), `mc:Fallback` berisi salinan yang sama.
+            case 'mc:AlternateContent': {
+                const choice = Array.from(el.childNodes).find(c => c.nodeName === 'mc:Choice');
+                if (choice) await walk(choice, inCell);
+                return;
+            }
+            // Teks terhapus (revisi), komentar, dan properti format tidak termasuk isi jawaban.
+            case 'w:del':
+            case 'w:commentReference':
+            case 'w:pPr':
+            case 'w:rPr':
+            case 'w:sectPr':
+                return;
+            default:
+                await walkChildren();
+        }
+    };
+
+    const body = parser.parseFromString(documentXml, 'application/xml').getElementsByTagName('w:body')[0];
+    if (body) await walk(body, false);
+    if (buffer.trim()) parts.push({ text: buffer });
+    return parts;
+};
+
 /**
- * Mengekstrak konten teks dari semua sheet file .xlsx (Excel).
- * Menggunakan 'xlsx' (SheetJS) untuk mengurai workbook.
- * @param file - File .xlsx.
+ * Mengekstrak konten teks dari semua sheet file .xlsx (Excel) atau .ods (LibreOffice Calc).
+ * Menggunakan 'xlsx' (SheetJS) untuk mengurai workbook; SheetJS membaca kedua format secara native.
+ * @param file - File .xlsx / .ods.
  * @returns String gabungan: "Sheet: Name \n Content \n\n"
  */
 const extractTextFromXlsx = async (file: File): Promise<string> => {
@@ -48,8 +184,9 @@ const extractTextFromXlsx = async (file: File): Promise<string> => {
     let fullText = '';
     workbook.SheetNames.forEach(sheetName => {
         const worksheet = workbook.Sheets[sheetName];
-        // Konversi data sheet ke format teks sederhana
-        const text = xlsx.utils.sheet_to_txt(worksheet);
+        // Konversi data sheet ke format teks sederhana (kolom dipisah tab).
+        // Bukan `sheet_to_txt`: fungsi itu menghasilkan string UTF-16 ber-BOM yang terbaca sebagai karakter sampah.
+        const text = xlsx.utils.sheet_to_csv(worksheet, { FS: '\t' });
         fullText += `Sheet: ${sheetName}\n${text}\n\n`;
     });
     return fullText;
@@ -96,21 +233,265 @@ const extractTextFromPptx = async (file: File): Promise<string> => {
     return fullText;
 };
 
+/**
+ * Mengubah elemen XML OpenDocument (ODF) menjadi teks biasa.
+ * Paragraf/judul menjadi baris, sel tabel dipisah tab, dan elemen spasi ODF (`text:s`, `text:tab`,
+ * `text:line-break`) dikembalikan ke karakter aslinya. Komentar & riwayat revisi diabaikan.
+ */
+const odfNodeToText = (node: Node): string => {
+    if (node.nodeType === 3 /* TEXT_NODE */) return node.nodeValue || '';
+    if (node.nodeType !== 1 /* ELEMENT_NODE */) return '';
+
+    const el = node as Element;
+    const children = () => Array.from(el.childNodes).map(odfNodeToText).join('');
+    switch (el.nodeName) {
+        case 'text:s': return ' '.repeat(parseInt(el.getAttribute('text:c') || '1', 10) || 1);
+        case 'text:tab': return '\t';
+        case 'text:line-break': return '\n';
+        case 'text:p':
+        case 'text:h': return children() + '\n';
+        case 'table:table-cell': return children().replace(/\n+$/, '').replace(/\n/g, ' ');
+        case 'table:table-row': return Array.from(el.childNodes).map(odfNodeToText).join('\t') + '\n';
+        case 'office:annotation':
+        case 'text:tracked-changes':
+        case 'presentation:notes': return '';
+        default: return children();
+    }
+};
 
 /**
- * Fungsi dispatcher utama untuk mengekstrak teks dari tipe file Office yang didukung.
- * @param file - File Office.
- * @returns Promise yang diselesaikan dengan teks yang diekstrak.
+ * Membuka arsip OpenDocument (ZIP) dan mengurai `content.xml`-nya.
  */
-export const extractTextFromOfficeFile = async (file: File): Promise<string> => {
-    if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        return extractTextFromDocx(file);
+const readOdfContent = async (file: File): Promise<Document> => {
+    const zip = await JSZip.loadAsync(await readFileAsArrayBuffer(file));
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) throw new Error(`'${file.name}' bukan dokumen OpenDocument yang valid (content.xml tidak ditemukan).`);
+    return new DOMParser().parseFromString(content, 'application/xml');
+};
+
+/**
+ * Mengekstrak konten teks dari file .odt (LibreOffice Writer), termasuk tabel.
+ * @param file - File .odt.
+ * @returns Teks body dokumen.
+ */
+const extractTextFromOdt = async (file: File): Promise<string> => {
+    const doc = await readOdfContent(file);
+    const body = doc.getElementsByTagName('office:text')[0];
+    return body ? odfNodeToText(body).trim() : '';
+};
+
+/**
+ * Mengekstrak konten teks dari semua slide file .odp (LibreOffice Impress).
+ * Format keluaran sama dengan PPTX (`--- Slide N ---`); catatan pembicara diabaikan.
+ * @param file - File .odp.
+ * @returns Teks gabungan dari semua slide.
+ */
+const extractTextFromOdp = async (file: File): Promise<string> => {
+    const doc = await readOdfContent(file);
+    const slides = Array.from(doc.getElementsByTagName('draw:page'));
+    return slides.map((slide, index) => `--- Slide ${index + 1} ---\n${odfNodeToText(slide).trim()}\n\n`).join('');
+};
+
+// Destinasi RTF yang berisi metadata/biner, bukan teks dokumen.
+const RTF_SKIPPED_DESTINATIONS = new Set([
+    'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'info', 'pict', 'object',
+    'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+    'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'rsidtbl', 'generator',
+]);
+
+/**
+ * Mengubah sumber RTF menjadi teks biasa (parser ringkas; format & gambar diabaikan).
+ * Mendukung escape hex (`\'hh`, sesuai `\ansicpgN`), Unicode (`\uN` + `\ucN`), dan grup `{\* ...}`.
+ */
+const rtfToText = (rtf: string): string => {
+    let codepage = 1252;
+    const out: string[] = [];
+    let pendingBytes: number[] = [];
+    // Status per grup: apakah teks grup ini dibuang, dan jumlah karakter pengganti setelah \uN.
+    const stack: { skip: boolean; uc: number }[] = [];
+    let state = { skip: false, uc: 1 };
+    let fallbackToSkip = 0;
+
+    const flushBytes = () => {
+        if (pendingBytes.length === 0) return;
+        let decoded: string;
+        try {
+            decoded = new TextDecoder(`windows-${codepage}`).decode(new Uint8Array(pendingBytes));
+        } catch {
+            decoded = String.fromCharCode(...pendingBytes);
+        }
+        if (!state.skip) out.push(decoded);
+        pendingBytes = [];
+    };
+    const emit = (text: string) => {
+        flushBytes();
+        if (!state.skip) out.push(text);
+    };
+
+    let i = 0;
+    while (i < rtf.length) {
+        const ch = rtf[i];
+        if (ch === '{') {
+            flushBytes();
+            stack.push(state);
+            state = { ...state };
+            i++;
+        } else if (ch === '}') {
+            flushBytes();
+            state = stack.pop() || { skip: false, uc: 1 };
+            i++;
+        } else if (ch === '\\') {
+            const next = rtf[i + 1];
+            if (next === "'") {
+                const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+                i += 4;
+                if (fallbackToSkip > 0) { fallbackToSkip--; continue; }
+                if (!isNaN(byte)) pendingBytes.push(byte);
+            } else if (next === '\\' || next === '{' || next === '}') {
+                if (fallbackToSkip > 0) fallbackToSkip--; else emit(next);
+                i += 2;
+            } else if (next === '*') {
+                // `{\* ...}`: destinasi opsional yang tidak dikenali pembaca -> buang seluruh grup.
+                state.skip = true;
+                i += 2;
+            } else if (next === '~') {
+                emit('\u00a0'); i += 2;
+            } else if (next === '_') {
+                emit('-'); i += 2;
+            } else if (next === '-' || next === '\n' || next === '\r') {
+                if (next !== '-') emit('\n');
+                i += 2;
+            } else {
+                const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+                if (!match) { i++; continue; }
+                i += match[0].length;
+                const word = match[1];
+                const param = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+                if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+                    state.skip = true;
+                } else if (word === 'ansicpg' && param) {
+                    codepage = param;
+                } else if (word === 'uc' && param !== undefined) {
+                    state.uc = param;
+                } else if (word === 'u' && param !== undefined) {
+                    emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+                    fallbackToSkip = state.uc;
+                } else if (word === 'par' || word === 'line' || word === 'row') {
+                    emit('\n');
+                } else if (word === 'tab' || word === 'cell') {
+                    emit('\t');
+                } else if (word === 'bin' && param) {
+                    i += param; // Data biner mentah
+                }
+            }
+        } else if (ch === '\r' || ch === '\n') {
+            i++; // Baris baru literal di sumber RTF tidak bermakna
+        } else {
+            if (fallbackToSkip > 0) {
+                fallbackToSkip--;
+            } else {
+                emit(ch);
+            }
+            i++;
+        }
     }
-    if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
-        return extractTextFromXlsx(file);
+    flushBytes();
+    return out.join('').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+/**
+ * Mengekstrak teks dari file .rtf (Rich Text Format).
+ * RTF bersifat 7-bit ASCII; karakter non-ASCII di-escape sehingga dapat dibaca sebagai latin1.
+ * @param file - File .rtf.
+ */
+const extractTextFromRtf = async (file: File): Promise<string> => {
+    const buffer = await readFileAsArrayBuffer(file);
+    return rtfToText(new TextDecoder('latin1').decode(buffer));
+};
+
+/**
+ * Membaca file teks biasa (.txt/.md). Deteksi BOM untuk UTF-16 (umum dari Notepad Windows), selain itu UTF-8.
+ * Markdown dikirim apa adanya karena sintaksnya sudah terbaca sebagai teks.
+ * @param file - File .txt / .md.
+ */
+const extractTextFromPlainText = async (file: File): Promise<string> => {
+    const bytes = new Uint8Array(await readFileAsArrayBuffer(file));
+    const encoding = bytes[0] === 0xff && bytes[1] === 0xfe ? 'utf-16le'
+        : bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be'
+        : 'utf-8';
+    return new TextDecoder(encoding).decode(bytes);
+};
+
+type TextExtractor = (file: File) => Promise<string>;
+
+// Ekstraktor per ekstensi, beserta tipe MIME yang dilaporkan browser untuk ekstensi tersebut.
+const EXTRACTORS: { extensions: string[]; mimeTypes: string[]; extract: TextExtractor }[] = [
+    { extensions: ['docx'], mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'], extract: extractTextFromDocx },
+    { extensions: ['xlsx', 'ods'], mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.oasis.opendocument.spreadsheet'], extract: extractTextFromXlsx },
+    { extensions: ['pptx'], mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'], extract: extractTextFromPptx },
+    { extensions: ['odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'], extract: extractTextFromOdt },
+    { extensions: ['odp'], mimeTypes: ['application/vnd.oasis.opendocument.presentation'], extract: extractTextFromOdp },
+    { extensions: ['rtf'], mimeTypes: ['application/rtf', 'text/rtf'], extract: extractTextFromRtf },
+    { extensions: ['txt', 'md', 'markdown'], mimeTypes: ['text/plain', 'text/markdown', 'text/x-markdown'], extract: extractTextFromPlainText },
+];
+
+// Ekstensi diutamakan: browser sering melaporkan tipe kosong/keliru untuk .md, .rtf, dan file ODF.
+const findExtractor = (file: File): TextExtractor | undefined => {
+    const ext = file.name.split('.').pop()?.toLowerCase() || '';
+    return (EXTRACTORS.find(e => e.extensions.includes(ext)) || EXTRACTORS.find(e => e.mimeTypes.includes(file.type)))?.extract;
+};
+
+/**
+ * `true` jika teks file dapat diekstrak secara lokal (Office, OpenDocument, RTF, TXT/MD),
+ * sehingga dikirim ke AI sebagai teks, bukan sebagai file biner.
+ */
+export const isTextExtractableFile = (file: File): boolean => findExtractor(file) !== undefined;
+
+/**
+ * Nilai atribut `accept` untuk input unggahan: tipe MIME dan ekstensi dokumen yang dapat diekstrak.
+ * Ekstensi disertakan karena tidak semua OS memetakan .md/.odt/.rtf ke tipe MIME.
+ */
+export const EXTRACTABLE_FILE_ACCEPT = EXTRACTORS
+    .flatMap(e => [...e.mimeTypes, ...e.extensions.map(ext => `.${ext}`)])
+    .join(',');
+
+/**
+ * Mengekstrak dokumen sebagai bagian konten siap API, dibungkus penanda awal/akhir file.
+ * DOCX menyertakan gambar tersemat & rumus di posisi aslinya; format lain hanya teks.
+ * Jika ekstraksi gagal, bagian berisi pesan galat dikembalikan (penilaian tetap berjalan).
+ * @param file - File Office / OpenDocument / RTF / teks.
+ */
+export const extractDocumentParts = async (file: File): Promise<DocumentPart[]> => {
+    const isDocx = file.name.toLowerCase().endsWith('.docx')
+        || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    const parts: DocumentPart[] = await (isDocx ? extractPartsFromDocx(file) : extractTextFromOfficeFile(file).then(text => [{ text }]))
+        .catch(e => {
+            console.warn(`Gagal mengekstrak '${file.name}':`, e);
+            return [{ text: `Error processing ${file.name}` }];
+        });
+
+    // Teks yang bersebelahan digabung agar dokumen tanpa gambar tetap menjadi satu bagian teks.
+    const wrapped: DocumentPart[] = [];
+    for (const part of [{ text: `--- Start of file: ${file.name} ---\n` }, ...parts, { text: `\n--- End of file: ${file.name} ---` }]) {
+        const last = wrapped[wrapped.length - 1];
+        if ('text' in part && last && 'text' in last) {
+            wrapped[wrapped.length - 1] = { text: last.text + part.text };
+        } else {
+            wrapped.push(part);
+        }
     }
-    if (file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
-        return extractTextFromPptx(file);
+    return wrapped;
+};
+
+/**
+ * Fungsi dispatcher utama untuk mengekstrak teks dari tipe file yang didukung.
+ * @param file - File Office / OpenDocument / RTF / teks.
+ * @returns Promise yang diselesaikan dengan teks yang diekstrak.
+ */
+export const extractTextFromOfficeFile = async (file: File): Promise<string> => {
+    const extract = findExtractor(file);
+    if (!extract) {
+        return Promise.reject(new Error('Unsupported Office file type for text extraction.'));
     }
-    return Promise.reject(new Error('Unsupported Office file type for text extraction.'));
+    return extract(file);
 };
@@ -0,0 +1,168 @@
+/**
+ * @file ommlUtils.ts
+ * @description Konversi persamaan Office Math Markup Language (OMML, `<m:oMath>` di dalam DOCX) menjadi teks LaTeX.
+ *
+ * Mahasiswa teknik menulis rumus dengan Equation Editor Word; tanpa konversi ini rumus hilang dari teks
+ * yang dibaca AI. Struktur yang didukung: pecahan, pangkat/indeks, akar, operator n-ary (∑ ∫ ∏),
+ * kurung, fungsi, limit, aksen, garis atas/bawah, matriks, dan larik persamaan. Struktur yang tidak
+ * dikenali tetap diambil teksnya.
+ */
+
+// Simbol Unicode yang lazim di rumus -> perintah LaTeX.
+const SYMBOLS: Record<string, string> = {
+    'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\varepsilon', 'ζ': '\\zeta', 'η': '\\eta',
+    'θ': '\\theta', 'κ': '\\kappa', 'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho',
+    'σ': '\\sigma', 'τ': '\\tau', 'φ': '\\varphi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+    'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Π': '\\Pi', 'Σ': '\\Sigma', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+    '×': '\\times', '÷': '\\div', '·': '\\cdot', '±': '\\pm', '∓': '\\mp', '≤': '\\le', '≥': '\\ge', '≠': '\\neq',
+    '≈': '\\approx', '≡': '\\equiv', '∝': '\\propto', '∞': '\\infty', '∂': '\\partial', '∇': '\\nabla',
+    '→': '\\rightarrow', '←': '\\leftarrow', '⇒': '\\Rightarrow', '⇔': '\\Leftrightarrow', '∈': '\\in', '∉': '\\notin',
+    '⊂': '\\subset', '⊆': '\\subseteq', '∪': '\\cup', '∩': '\\cap', '∀': '\\forall', '∃': '\\exists', '°': '^{\\circ}',
+    '−': '-', '∙': '\\cdot',
+};
+
+// Karakter operator n-ary (`m:naryPr/m:chr`). Bawaan OMML jika `m:chr` tidak ada adalah integral.
+const NARY_OPERATORS: Record<string, string> = {
+    '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint',
+    '⋃': '\\bigcup', '⋂': '\\bigcap',
+};
+
+// Aksen (`m:accPr/m:chr`, karakter kombinasi). Bawaan OMML adalah topi (U+0302).
+const ACCENTS: Record<string, string> = {
+    '̂': '\\hat', '̃': '\\tilde', '̄': '\\bar', '̅': '\\overline', '̇': '\\dot', '̈': '\\ddot', '⃗': '\\vec',
+};
+
+const FUNCTION_NAMES = new Set(['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh', 'log', 'ln', 'exp', 'lim', 'max', 'min', 'det']);
+
+const childElements = (el: Element): Element[] => Array.from(el.childNodes).filter((n): n is Element => n.nodeType === 1);
+
+const child = (el: Element, name: string): Element | undefined => childElements(el).find(c => c.nodeName === name);
+
+// Nilai `m:val` dari elemen properti, misal `<m:fPr><m:type m:val="lin"/></m:fPr>`.
+// `null` = elemen tidak ada; elemen tanpa `m:val` (misal `<m:nor/>`) menghasilkan string kosong.
+const prop = (el: Element, prName: string, name: string): string | null => {
+    const properties = child(el, prName);
+    const value = properties && child(properties, name);
+    return value ? value.getAttribute('m:val') ?? '' : null;
+};
+
+// Properti on/off OMML: elemen tanpa `m:val` berarti aktif.
+const isOn = (value: string | null) => value !== null && value !== '0' && value !== 'off' && value !== 'false';
+
+// Karakter khusus LaTeX di teks run. Tanpa escape, misal `{` atau `%` merusak struktur rumus.
+const MATH_ESCAPES: Record<string, string> = {
+    '\\': '\\backslash ', '{': '\\{', '}': '\\}', '_': '\\_', '%': '\\%', '#': '\\#', '&': '\\&', '$': '\\$',
+};
+const TEXT_ESCAPES: Record<string, string> = { ...MATH_ESCAPES, '\\': '\\textbackslash{}' };
+
+const escapeText = (text: string): string => Array.from(text).map(ch => TEXT_ESCAPES[ch] ?? ch).join('');
+
+const convertText = (text: string): string =>
+    Array.from(text).map(ch => (SYMBOLS[ch] ? `${SYMBOLS[ch]} ` : MATH_ESCAPES[ch] ?? ch)).join('');
+
+const convertDelimiter = (chr: string): string => {
+    if (chr === '') return '.';
+    if (chr === '{' || chr === '}') return `\\${chr}`;
+    if (chr === '|') return '|';
+    if (chr === '‖') return '\\|';
+    if (chr === '⟨') return '\\langle';
+    if (chr === '⟩') return '\\rangle';
+    if (chr === '⌊') return '\\lfloor';
+    if (chr === '⌋') return '\\rfloor';
+    if (chr === '⌈') return '\\lceil';
+    if (chr === '⌉') return '\\rceil';
+    return chr;
+};
+
+// Argumen LaTeX: dibungkus kurung kurawal kecuali satu karakter.
+const arg = (latex: string): string => (latex.length === 1 ? latex : `{${latex}}`);
+
+const convertChildren = (el: Element | undefined): string => (el ? childElements(el).map(convertNode).join('') : '');
+
+const convertNode = (el: Element): string => {
+    switch (el.nodeName) {
+        case 'm:r': {
+            const text = childElements(el).filter(c => c.nodeName === 'm:t' || c.nodeName === 'w:t').map(c => c.textContent || '').join('');
+            // Teks biasa (bukan variabel matematika) di dalam rumus, misal satuan atau kata.
+            const isPlain = child(el, 'm:rPr') && isOn(prop(el, 'm:rPr', 'm:nor'));
+            return isPlain ? `\\text{${escapeText(text)}}` : convertText(text);
+        }
+        case 'm:f': {
+            const num = convertChildren(child(el, 'm:num'));
+            const den = convertChildren(child(el, 'm:den'));
+            return prop(el, 'm:fPr', 'm:type') === 'lin' ? `${arg(num)}/${arg(den)}` : `\\frac{${num}}{${den}}`;
+        }
+        case 'm:sSup':
+            return `${arg(convertChildren(child(el, 'm:e')))}^${arg(convertChildren(child(el, 'm:sup')))}`;
+        case 'm:sSub':
+            return `${arg(convertChildren(child(el, 'm:e')))}_${arg(convertChildren(child(el, 'm:sub')))}`;
+        case 'm:sSubSup':
+            return `${arg(convertChildren(child(el, 'm:e')))}_${arg(convertChildren(child(el, 'm:sub')))}^${arg(convertChildren(child(el, 'm:sup')))}`;
+        case 'm:sPre':
+            return `{}_${arg(convertChildren(child(el, 'm:sub')))}^${arg(convertChildren(child(el, 'm:sup')))}${arg(convertChildren(child(el, 'm:e')))}`;
+        case 'm:rad': {
+            const degree = convertChildren(child(el, 'm:deg'));
+            const hideDegree = isOn(prop(el, 'm:radPr', 'm:degHide'));
+            return hideDegree || !degree ? `\\sqrt{${convertChildren(child(el, 'm:e'))}}` : `\\sqrt[${degree}]{${convertChildren(child(el, 'm:e'))}}`;
+        }
+        case 'm:nary': {
+            const chr = prop(el, 'm:naryPr', 'm:chr') || '∫';
+            let latex = NARY_OPERATORS[chr] || convertText(chr);
+            if (!isOn(prop(el, 'm:naryPr', 'm:subHide'))) {
+                const sub = convertChildren(child(el, 'm:sub'));
+                if (sub) latex += `_${arg(sub)}`;
+            }
+            if (!isOn(prop(el, 'm:naryPr', 'm:supHide'))) {
+                const sup = convertChildren(child(el, 'm:sup'));
+                if (sup) latex += `^${arg(sup)}`;
+            }
+            return `${latex} ${convertChildren(child(el, 'm:e'))}`;
+        }
+        case 'm:d': {
+            const begin = prop(el, 'm:dPr', 'm:begChr') ?? '(';
+            const end = prop(el, 'm:dPr', 'm:endChr') ?? ')';
+            const separator = prop(el, 'm:dPr', 'm:sepChr') ?? '|';
+            const items = childElements(el).filter(c => c.nodeName === 'm:e').map(c => convertChildren(c));
+            return `\\left${convertDelimiter(begin)} ${items.join(` ${convertDelimiter(separator)} `)} \\right${convertDelimiter(end)}`;
+        }
+        case 'm:func': {
+            const name = convertChildren(child(el, 'm:fName'));
+            const latexName = FUNCTION_NAMES.has(name.trim()) ? `\\${name.trim()}` : name;
+            return `${latexName} ${convertChildren(child(el, 'm:e'))}`;
+        }
+        case 'm:limLow':
+        case 'm:limUpp': {
+            const base = convertChildren(child(el, 'm:e'));
+            const limit = convertChildren(child(el, 'm:lim'));
+            const latexBase = FUNCTION_NAMES.has(base.trim()) ? `\\${base.trim()}` : arg(base);
+            return `${latexBase}${el.nodeName === 'm:limLow' ? '_' : '^'}${arg(limit)}`;
+        }
+        case 'm:acc': {
+            const chr = prop(el, 'm:accPr', 'm:chr') || '̂';
+            return `${ACCENTS[chr] || '\\hat'}{${convertChildren(child(el, 'm:e'))}}`;
+        }
+        case 'm:bar':
+            return `${prop(el, 'm:barPr', 'm:pos') === 'top' ? '\\overline' : '\\underline'}{${convertChildren(child(el, 'm:e'))}}`;
+        case 'm:groupChr': {
+            const content = convertChildren(child(el, 'm:e'));
+            return prop(el, 'm:groupChrPr', 'm:pos') === 'top' ? `\\overbrace{${content}}` : `\\underbrace{${content}}`;
+        }
+        case 'm:m': {
+            const rows = childElements(el).filter(c => c.nodeName === 'm:mr')
+                .map(row => childElements(row).filter(c => c.nodeName === 'm:e').map(c => convertChildren(c)).join(' & '));
+            return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`;
+        }
+        case 'm:eqArr': {
+            const rows = childElements(el).filter(c => c.nodeName === 'm:e').map(c => convertChildren(c));
+            return `\\begin{aligned} ${rows.join(' \\\\ ')} \\end{aligned}`;
+        }
+        // Elemen properti (`*Pr`) hanya berisi format, bukan isi rumus.
+        default:
+            return el.nodeName.endsWith('Pr') ? '' : convertChildren(el);
+    }
+};
+
+/**
+ * Mengonversi satu elemen `<m:oMath>` menjadi LaTeX (tanpa pembatas `$`).
+ */
+export const ommlToLatex = (oMath: Element): string => convertChildren(oMath).replace(/\s+/g, ' ').trim();
@@ -0,0 +1,116 @@
+/**
+ * @file pdfUtils.ts
+ * @description Penanganan PDF jawaban mahasiswa secara lokal (pdf-lib, tanpa server).
+ *
+ * PDF tidak lagi dikirim sebagai satu blob utuh: setiap halaman dipecah menjadi dokumen PDF satu halaman
+ * dan didahului penanda teks "--- Halaman N ---". Dengan begitu:
+ * 1. Scan besar (di atas batas ukuran satu file) tetap dapat dinilai selama tiap halamannya di bawah batas.
+ * 2. AI dapat menyebut halaman asal setiap jawaban (`FeedbackDetail.page`), dan dosen dapat langsung
+ *    membuka halaman tersebut (lihat components/PdfPageViewer.tsx).
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { SourcePage } from '../types';
+
+/**
+ * Batas ukuran file PDF yang diterima untuk dipecah per halaman (file lain tetap 10MB).
+ */
+export const MAX_PDF_FILE_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
+
+// Batas ukuran satu halaman hasil pemecahan, sama dengan batas file biasa.
+const MAX_PDF_PAGE_BYTES = 10 * 1024 * 1024;
+const MAX_PDF_PAGES = 200;
+
+/**
+ * Batas total ukuran halaman hasil pemecahan untuk SATU submission (semua PDF-nya). Font dan gambar
+ * yang dipakai bersama disalin ulang ke setiap dokumen satu halaman, sehingga hasilnya bisa jauh
+ * lebih besar dari file asli.
+ */
+export const MAX_SUBMISSION_PDF_BYTES = 100 * 1024 * 1024; // 100MB
+
+// Bagian konten; strukturnya sama dengan `ContentPart` di services/gradingProvider.ts.
+type PagePart = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+/**
+ * Penanda halaman yang dikirim ke AI sebelum setiap halaman. Formatnya sengaja sama dengan transkrip
+ * pipeline dua tahap (`formatTranscriptForPrompt`), sehingga aturan prompt `page` berlaku untuk keduanya.
+ */
+export const formatPageMarker = (page: SourcePage): string =>
+    `--- Halaman ${page.page} (${page.fileName}, hlm. ${page.filePage}) ---`;
+
+// Perkiraan ukuran biner dari panjang Base64.
+const base64Bytes = (data: string) => data.length * 0.75;
+
+/**
+ * Memecah PDF menjadi dokumen satu halaman (Base64 murni, urut sesuai halaman asli).
+ * @param maxTotalBytes - Sisa batas total hasil pemecahan untuk submission ini (lihat `MAX_SUBMISSION_PDF_BYTES`).
+ * @throws Error jika file/halaman/total melebihi batas ukuran, jumlah halaman berlebihan, atau PDF tidak dapat dibaca.
+ */
+export const splitPdfPages = async (file: File, maxTotalBytes: number = MAX_SUBMISSION_PDF_BYTES): Promise<string[]> => {
+    if (file.size > MAX_PDF_FILE_SIZE_BYTES) {
+        throw new Error(`File '${file.name}' terlalu besar (>${MAX_PDF_FILE_SIZE_BYTES / 1024 / 1024}MB).`);
+    }
+    const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+    const pageCount = source.getPageCount();
+    if (pageCount > MAX_PDF_PAGES) {
+        throw new Error(`File '${file.name}' memiliki ${pageCount} halaman (maksimal ${MAX_PDF_PAGES}).`);
+    }
+
+    const pages: string[] = [];
+    let totalBytes = 0;
+    for (let i = 0; i < pageCount; i++) {
+        const single = await PDFDocument.create();
+        const [page] = await single.copyPages(source, [i]);
+        single.addPage(page);
+        const data = await single.saveAsBase64();
+        if (base64Bytes(data) > MAX_PDF_PAGE_BYTES) {
+            throw new Error(`Halaman ${i + 1} pada '${file.name}' terlalu besar (>10MB) meskipun sudah dipecah per halaman.`);
+        }
+        totalBytes += base64Bytes(data);
+        if (totalBytes > maxTotalBytes) {
+            throw new Error(
+                `PDF submission ini terlalu besar setelah dipecah per halaman (>${MAX_SUBMISSION_PDF_BYTES / 1024 / 1024}MB, terlampaui di '${file.name}' halaman ${i + 1}): ` +
+                'font/gambar bersama disalin ke setiap halaman. Kompres PDF atau turunkan resolusi scan, lalu unggah ulang.'
+            );
+        }
+        pages.push(data);
+    }
+    return pages;
+};
+
+/**
+ * Penomoran halaman PDF untuk satu submission.
+ */
+export interface PageTagger {
+    /** Peta halaman yang sudah diberi nomor, untuk `GradeResult.sourcePages`. */
+    sourcePages: SourcePage[];
+    /**
+     * Memecah PDF per halaman dan mengembalikan pasangan [penanda, halaman] untuk setiap halaman.
+     * Panggil BERURUTAN per file (bukan paralel) agar nomor halaman mengikuti urutan file.
+     */
+    tagPdf(file: File): Promise<PagePart[]>;
+}
+
+export const createPageTagger = (): PageTagger => {
+    const sourcePages: SourcePage[] = [];
+    // Total ukuran halaman yang sudah dipecah; batas `MAX_SUBMISSION_PDF_BYTES` berlaku untuk semua PDF submission.
+    let usedBytes = 0;
+    return {
+        sourcePages,
+        async tagPdf(file: File): Promise<PagePart[]> {
+            const pages = await splitPdfPages(file, MAX_SUBMISSION_PDF_BYTES - usedBytes);
+            usedBytes += pages.reduce((sum, data) => sum + base64Bytes(data), 0);
+            return pages.flatMap((data, i) => {
+                const page: SourcePage = { page: sourcePages.length + 1, fileName: file.name, filePage: i + 1 };
+                sourcePages.push(page);
+                return [{ text: formatPageMarker(page) }, { inlineData: { data, mimeType: 'application/pdf' } }];
+            });
+        },
+    };
+};
+
+/**
+ * Mencari file & halaman asli untuk `FeedbackDetail.page`.
+ */
+export const findSourcePage = (sourcePages: SourcePage[] | undefined, page: number | undefined): SourcePage | undefined =>
+    page === undefined ? undefined : sourcePages?.find(p => p.page === page);
@@ -0,0 +1,36 @@
+/**
+ * @file provenanceUtils.ts
+ * @description Penyajian `GradeProvenance` (asal-usul penilaian) sebagai pasangan label-nilai,
+ * dipakai bersama oleh tampilan detail Mode Kelas dan sheet "Metadata" ekspor Excel.
+ */
+
+import { GradeProvenance } from '../types';
+
+export interface ProvenanceField {
+    label: string;
+    value: string;
+}
+
+const formatDateTime = (iso: string): string => {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? iso : date.toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'medium' });
+};
+
+const formatLatency = (ms: number): string => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} detik`);
+
+/**
+ * Mengubah provenance menjadi daftar baris berurutan. Nilai yang tidak tersedia ditulis "-".
+ */
+export const describeProvenance = (provenance: GradeProvenance): ProvenanceField[] => [
+    { label: 'Waktu Penilaian', value: formatDateTime(provenance.gradedAt) },
+    { label: 'Provider', value: provenance.provider },
+    { label: 'Model', value: provenance.model || '-' },
+    { label: 'Preset Prompt', value: provenance.preset ? `${provenance.preset.name} (${provenance.preset.id} v${provenance.preset.version})` : '-' },
+    { label: 'Jumlah Percobaan', value: String(provenance.attempts) },
+    { label: 'Latensi', value: formatLatency(provenance.latencyMs) },
+    {
+        label: 'Token (Input / Output)',
+        value: provenance.usage ? `${provenance.usage.inputTokens.toLocaleString('id-ID')} / ${provenance.usage.outputTokens.toLocaleString('id-ID')}` : '-',
+    },
+    { label: 'Hash Kunci Jawaban (SHA-256)', value: provenance.answerKeyHash || '-' },
+];
@@ -0,0 +1,56 @@
+/**
+ * @file reviewUtils.ts
+ * @description Antrean "Perlu Ditinjau" per soal berdasarkan keyakinan AI dan keterbacaan tulisan.
+ *
+ * Soal dimasukkan ke antrean jika tulisan mahasiswa tidak terbaca jelas, keyakinan AI di bawah ambang,
+ * atau (pada mode konsensus) sampel tidak sepakat. Antrean diurutkan dari keyakinan terendah.
+ */
+
+import { FeedbackDetail, GradeResult, Legibility } from '../types';
+import { CONSENSUS_SPREAD_THRESHOLD } from './consensusUtils';
+
+/**
+ * Keyakinan AI (0-100) di bawah ambang ini menandai soal "perlu ditinjau".
+ */
+export const REVIEW_CONFIDENCE_THRESHOLD = 70;
+
+export const LEGIBILITY_LABELS: Record<Legibility, string> = {
+    clear: 'Terbaca jelas',
+    partial: 'Sebagian ditebak',
+    illegible: 'Tidak terbaca',
+};
+
+export interface ReviewItem {
+    /** Indeks soal pada `GradeResult.detailedFeedback`. */
+    index: number;
+    feedback: FeedbackDetail;
+    reasons: string[];
+}
+
+/**
+ * Alasan sebuah soal perlu ditinjau dosen. Array kosong berarti tidak perlu ditinjau.
+ */
+export const getReviewReasons = (fb: FeedbackDetail): string[] => {
+    const reasons: string[] = [];
+    if (fb.legibility && fb.legibility !== 'clear') {
+        reasons.push(LEGIBILITY_LABELS[fb.legibility]);
+    }
+    if (fb.confidence !== undefined && fb.confidence < REVIEW_CONFIDENCE_THRESHOLD) {
+        reasons.push(`Keyakinan AI ${fb.confidence}%`);
+    }
+    if (fb.consensus && fb.consensus.spread > CONSENSUS_SPREAD_THRESHOLD) {
+        reasons.push(`Sampel tidak sepakat (±${fb.consensus.spread})`);
+    }
+    return reasons;
+};
+
+/**
+ * Daftar soal yang perlu ditinjau, diurutkan dari keyakinan terendah
+ * (soal tanpa nilai keyakinan diletakkan di akhir).
+ */
+export const getReviewQueue = (result: GradeResult): ReviewItem[] => {
+    return result.detailedFeedback
+        .map((feedback, index) => ({ index, feedback, reasons: getReviewReasons(feedback) }))
+        .filter(item => item.reasons.length > 0)
+        .sort((a, b) => (a.feedback.confidence ?? 101) - (b.feedback.confidence ?? 101));
+};
@@ -0,0 +1,77 @@
+/**
+ * @file rubricUtils.ts
+ * @description Utilitas murni (tanpa efek samping) untuk bekerja dengan `Rubric` dosen:
+ * perhitungan poin maksimal per kriteria, total poin, dan template kriteria baru.
+ */
+
+import { Rubric, RubricCriterion, RubricQuestion, RubricLevel } from '../types';
+
+/**
+ * Level deskriptor bawaan untuk kriteria yang baru ditambahkan di editor rubrik.
+ */
+export const DEFAULT_RUBRIC_LEVELS: RubricLevel[] = [
+    { label: 'Sangat Baik', percent: 100, description: 'Lengkap, tepat, dan sesuai kunci jawaban.' },
+    { label: 'Cukup', percent: 60, description: 'Sebagian besar tepat, namun ada poin kunci yang terlewat.' },
+    { label: 'Kurang', percent: 30, description: 'Hanya menyentuh sebagian kecil poin kunci.' },
+    { label: 'Tidak Ada', percent: 0, description: 'Tidak dikerjakan atau tidak relevan.' },
+];
+
+/**
+ * Membulatkan poin ke 2 desimal agar tampilan & ekspor tetap rapi.
+ */
+export const roundPoints = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Menghitung poin maksimal sebuah kriteria berdasarkan porsi bobotnya di dalam soal.
+ * Jika total bobot 0 (input tidak valid), poin dibagi rata antar kriteria.
+ */
+export const getCriterionMaxPoints = (question: RubricQuestion, criterion: RubricCriterion): number => {
+    const totalWeight = question.criteria.reduce((sum, c) => sum + Math.max(c.weight, 0), 0);
+    if (totalWeight <= 0) {
+        return roundPoints(question.maxPoints / Math.max(question.criteria.length, 1));
+    }
+    return roundPoints(question.maxPoints * Math.max(criterion.weight, 0) / totalWeight);
+};
+
+/**
+ * Total poin maksimal seluruh soal dalam rubrik (misal 20 + 30 + 50 = 100).
+ */
+export const getRubricTotalPoints = (rubric: Rubric): number => {
+    return roundPoints(rubric.questions.reduce((sum, q) => sum + q.maxPoints, 0));
+};
+
+/**
+ * Membandingkan dua nomor soal (tidak peka huruf besar/kecil & spasi).
+ */
+export const questionNumbersMatch = (a: string, b: string): boolean => {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+};
+
+/**
+ * Mencari soal rubrik berdasarkan nomor soal.
+ */
+export const findRubricQuestion = (rubric: Rubric | null | undefined, questionNumber: string): RubricQuestion | undefined => {
+    if (!rubric) return undefined;
+    return rubric.questions.find(q => questionNumbersMatch(q.questionNumber, questionNumber));
+};
+
+/**
+ * Membuat kriteria baru dengan id unik di dalam soal.
+ */
+export const createRubricCriterion = (question: RubricQuestion): RubricCriterion => {
+    let index = question.criteria.length + 1;
+    while (question.criteria.some(c => c.id === `c${index}`)) index++;
+    return {
+        id: `c${index}`,
+        name: `Kriteria ${index}`,
+        weight: 1,
+        levels: DEFAULT_RUBRIC_LEVELS.map(level => ({ ...level })),
+    };
+};
+
+/**
+ * Rubrik dianggap terisi jika memiliki minimal satu soal dengan poin maksimal > 0.
+ */
+export const isRubricUsable = (rubric: Rubric | null | undefined): rubric is Rubric => {
+    return !!rubric && rubric.questions.some(q => q.questionNumber.trim() && q.maxPoints > 0);
+};
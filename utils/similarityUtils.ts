@@ -0,0 +1,184 @@
+/**
+ * @file similarityUtils.ts
+ * @description Deteksi kemiripan jawaban antar mahasiswa (indikasi kerja sama/salin-menyalin) dalam satu batch.
+ *
+ * METODE (sepenuhnya lokal, tanpa panggilan AI):
+ * 1. Jawaban dipecah menjadi shingle 3 kata berurutan, sehingga yang dibandingkan adalah susunan kalimat,
+ *    bukan sekadar kosakata yang wajar sama pada jawaban benar.
+ * 2. Setiap shingle diberi bobot TF-IDF dalam kelompok soal yang sama: frasa yang dipakai hampir semua
+ *    mahasiswa (misal salinan teks soal) berbobot rendah, frasa khas yang hanya muncul di beberapa jawaban berbobot tinggi.
+ * 3. Kemiripan pasangan = cosine similarity vektor TF-IDF. Pasangan di atas ambang dikelompokkan (union-find)
+ *    menjadi klaster jawaban yang mencurigakan.
+ */
+
+import { GradeResult } from '../types';
+
+/**
+ * Cosine similarity (0-1) minimal agar sepasang jawaban dianggap mencurigakan.
+ */
+export const SIMILARITY_THRESHOLD = 0.6;
+
+// Jawaban yang terlalu pendek (misal pilihan ganda / angka) wajar sama, sehingga tidak dibandingkan.
+const MIN_ANSWER_WORDS = 12;
+const SHINGLE_SIZE = 3;
+
+/**
+ * Kunci kelompok untuk perbandingan seluruh transkrip (`GradeResult.studentText`), di luar per soal.
+ */
+export const WHOLE_TRANSCRIPT_KEY = '';
+
+export interface SimilarityPair {
+    /** Nomor soal, atau `WHOLE_TRANSCRIPT_KEY` untuk seluruh transkrip. */
+    questionNumber: string;
+    studentA: string;
+    studentB: string;
+    textA: string;
+    textB: string;
+    /** Cosine similarity TF-IDF (0-1). */
+    similarity: number;
+}
+
+export interface SimilarityCluster {
+    /** Nomor urut klaster (mulai 1), dipakai sebagai label di tabel & ekspor. */
+    id: number;
+    questionNumber: string;
+    students: string[];
+    /** Pasangan anggota klaster, diurutkan dari kemiripan tertinggi. */
+    pairs: SimilarityPair[];
+    maxSimilarity: number;
+}
+
+export interface SimilarityReport {
+    threshold: number;
+    clusters: SimilarityCluster[];
+}
+
+export const formatQuestionLabel = (questionNumber: string): string =>
+    questionNumber === WHOLE_TRANSCRIPT_KEY ? 'Seluruh Jawaban' : `Soal ${questionNumber}`;
+
+const normalizeWord = (word: string): string => (word.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).join('');
+
+const tokenize = (text: string): string[] => text.split(/\s+/).map(normalizeWord).filter(Boolean);
+
+const toShingles = (words: string[]): string[] => {
+    const shingles: string[] = [];
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        shingles.push(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+};
+
+/**
+ * Cosine similarity TF-IDF untuk semua pasangan dalam satu kelompok soal.
+ */
+const compareGroup = (questionNumber: string, entries: { student: string; text: string }[]): SimilarityPair[] => {
+    const documents = entries
+        .map(entry => ({ ...entry, shingles: toShingles(tokenize(entry.text)) }))
+        .filter(doc => doc.shingles.length >= MIN_ANSWER_WORDS - SHINGLE_SIZE + 1);
+    if (documents.length < 2) return [];
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(doc => new Set(doc.shingles).forEach(s => documentFrequency.set(s, (documentFrequency.get(s) || 0) + 1)));
+    const idf = (shingle: string) => Math.log((1 + documents.length) / (1 + documentFrequency.get(shingle)!)) + 1;
+
+    const vectors = documents.map(doc => {
+        const counts = new Map<string, number>();
+        doc.shingles.forEach(s => counts.set(s, (counts.get(s) || 0) + 1));
+        const weights = new Map<string, number>();
+        let norm = 0;
+        counts.forEach((count, s) => {
+            const weight = count * idf(s);
+            weights.set(s, weight);
+            norm += weight * weight;
+        });
+        return { weights, norm: Math.sqrt(norm) };
+    });
+
+    const pairs: SimilarityPair[] = [];
+    for (let i = 0; i < documents.length; i++) {
+        for (let j = i + 1; j < documents.length; j++) {
+            if (documents[i].student === documents[j].student) continue;
+            const [small, large] = vectors[i].weights.size <= vectors[j].weights.size ? [vectors[i], vectors[j]] : [vectors[j], vectors[i]];
+            let dot = 0;
+            small.weights.forEach((weight, s) => { dot += weight * (large.weights.get(s) || 0); });
+            const similarity = dot / (vectors[i].norm * vectors[j].norm);
+            pairs.push({
+                questionNumber,
+                studentA: documents[i].student,
+                studentB: documents[j].student,
+                textA: documents[i].text,
+                textB: documents[j].text,
+                similarity: Math.min(1, similarity),
+            });
+        }
+    }
+    return pairs;
+};
+
+/**
+ * Membandingkan jawaban seluruh mahasiswa per soal (dan per transkrip utuh), lalu mengelompokkan
+ * pasangan dengan kemiripan ≥ `threshold` menjadi klaster.
+ */
+export const computeSimilarityReport = (results: GradeResult[], threshold = SIMILARITY_THRESHOLD): SimilarityReport => {
+    // Kelompokkan jawaban per nomor soal; urutan kelompok mengikuti kemunculan pertama.
+    const groups = new Map<string, { student: string; text: string }[]>();
+    const addEntry = (key: string, student: string, text?: string) => {
+        if (!text?.trim()) return;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push({ student, text });
+    };
+    results.forEach((res, index) => {
+        const student = res.fileName || `Mahasiswa ${index + 1}`;
+        addEntry(WHOLE_TRANSCRIPT_KEY, student, res.studentText);
+        res.detailedFeedback.forEach(fb => addEntry(fb.questionNumber.trim(), student, fb.studentAnswer));
+    });
+
+    const clusters: SimilarityCluster[] = [];
+    groups.forEach((entries, questionNumber) => {
+        const suspicious = compareGroup(questionNumber, entries).filter(pair => pair.similarity >= threshold);
+
+        // Union-find: mahasiswa yang terhubung lewat pasangan mencurigakan masuk satu klaster.
+        const parent = new Map<string, string>();
+        const find = (student: string): string => {
+            const root = parent.get(student) ?? student;
+            if (root === student) return student;
+            const top = find(root);
+            parent.set(student, top);
+            return top;
+        };
+        suspicious.forEach(pair => parent.set(find(pair.studentA), find(pair.studentB)));
+
+        const byRoot = new Map<string, SimilarityPair[]>();
+        suspicious.forEach(pair => {
+            const root = find(pair.studentA);
+            if (!byRoot.has(root)) byRoot.set(root, []);
+            byRoot.get(root)!.push(pair);
+        });
+        byRoot.forEach(pairs => {
+            pairs.sort((a, b) => b.similarity - a.similarity);
+            const students = Array.from(new Set(pairs.flatMap(pair => [pair.studentA, pair.studentB])));
+            clusters.push({ id: 0, questionNumber, students, pairs, maxSimilarity: pairs[0].similarity });
+        });
+    });
+
+    clusters.sort((a, b) => b.maxSimilarity - a.maxSimilarity);
+    clusters.forEach((cluster, index) => { cluster.id = index + 1; });
+    return { threshold, clusters };
+};
+
+/**
+ * Memecah `text` menjadi segmen dan menandai kata yang termasuk shingle yang juga muncul di `other`,
+ * untuk penyorotan pada tampilan perbandingan berdampingan. Spasi asli dipertahankan.
+ */
+export const markSharedSegments = (text: string, other: string): { text: string; shared: boolean }[] => {
+    const otherShingles = new Set(toShingles(tokenize(other)));
+    const segments = text.split(/(\s+)/).map(part => ({ text: part, word: normalizeWord(part), shared: false }));
+    const wordSegments = segments.filter(seg => seg.word);
+    const shingles = toShingles(wordSegments.map(seg => seg.word));
+
+    shingles.forEach((shingle, start) => {
+        if (!otherShingles.has(shingle)) return;
+        for (let i = start; i < start + SHINGLE_SIZE; i++) wordSegments[i].shared = true;
+    });
+    return segments.map(({ text: part, shared }) => ({ text: part, shared }));
+};